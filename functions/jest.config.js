@@ -0,0 +1,8 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  // Tests share one emulator, so run them one file at a time
+  maxWorkers: 1,
+  testTimeout: 20000
+};
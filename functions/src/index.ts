@@ -0,0 +1,328 @@
+import { DocumentData, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { onDocumentCreated, onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import type { AppEvent, MacroTarget } from '../../src/utils/appEvents';
+import type { ChallengeMeal } from '../../src/utils/challenges';
+import {
+  applyAppEvent,
+  applyChallengeDayToProfile,
+  buyStreakFreeze as addStreakFreeze,
+  expireChallenges,
+  joinChallenge as addChallenge,
+  updateStreak
+} from '../../src/utils/gamification';
+import { LogDay, addLogDays, getUserTimeZone, startOfLogDay, toLogDay } from '../../src/utils/logDay';
+import { NutritionTargets, TARGET_HIT_TOLERANCE, TargetProfile, getTargetsForDay } from '../../src/utils/nutritionTargets';
+import { db, fromFirestore, updateProfile } from './profile';
+
+/**
+ * Gamification runs here rather than in the app: points, streaks,
+ * achievements and challenges follow from what the user logged, and
+ * security rules keep clients from writing gamification/{uid} directly.
+ */
+
+interface StoredMeal extends ChallengeMeal {
+  userId: string;
+  date: Date;
+  logDay?: LogDay; // missing on meals logged before log days
+  foodItems: Array<{
+    id: string;
+    foodId: string;
+    name: string;
+    barcode?: string;
+    addedAt: Date;
+  }>;
+}
+
+interface UserSettings {
+  getTargets: (logDay: LogDay) => NutritionTargets; // targets can differ by day
+  timeZone: string;
+}
+
+interface DayTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  itemCount: number;
+}
+
+// A closed day is on target within 10% of the calorie target, as in the statistics page
+const DAY_ON_TARGET_TOLERANCE = 0.1;
+
+/**
+ * Derive events from a meal change: new food items, the streak, a previous
+ * day that is now over, targets reached and challenge progress.
+ */
+export const onMealWritten = onDocumentWritten('meals/{mealId}', async event => {
+  const before = event.data?.before.exists ? toMeal(event.data.before.data() as DocumentData) : null;
+  const after = event.data?.after.exists ? toMeal(event.data.after.data() as DocumentData) : null;
+  
+  // Deleting a meal doesn't take back what it earned
+  if (!after) return;
+  
+  // Clients set addedAt, so it can't be trusted for streaks or times of day.
+  // New items count as added when the meal was written, whatever the
+  // device's clock said.
+  const writtenAt = new Date(event.time);
+  const previousIds = new Set((before?.foodItems || []).map(item => item.id));
+  const addedItems = after.foodItems
+    .filter(item => !previousIds.has(item.id))
+    .map(item => ({ ...item, addedAt: writtenAt }));
+  
+  // Nothing logged or removed, which includes every newly created empty meal
+  if (addedItems.length === 0 && isSameTotals(getMealTotals(before ? [before] : []), getMealTotals([after]))) {
+    return;
+  }
+  
+  const { userId } = after;
+  const { getTargets, timeZone } = await getUserSettings(userId);
+  const logDay = after.logDay || toLogDay(after.date, timeZone);
+  const targets = getTargets(logDay);
+  const dayMeals = atWriteTime(await getMealsForDay(userId, logDay, timeZone), writtenAt);
+  const dayTotals = getMealTotals(dayMeals);
+  
+  // What the day looked like before this write, to find targets that were just reached
+  const previousTotals = subtractTotals(dayTotals, getMealTotals([after]), getMealTotals(before ? [before] : []));
+  
+  // Foods added while the day was still running count towards the streak;
+  // foods added to past days afterwards don't
+  const isLoggedOnDay = addedItems.length > 0 && toLogDay(writtenAt, timeZone) === logDay;
+  
+  await updateProfile(userId, async (stored, transaction) => {
+    let profile = expireChallenges(stored);
+    const events: AppEvent[] = addedItems.map(item => ({
+      type: 'food_logged',
+      foodId: item.foodId,
+      name: item.name,
+      barcode: item.barcode,
+      mealType: after.mealType,
+      logDay,
+      loggedAt: item.addedAt
+    }));
+    
+    let closedDay: LogDay | null = null;
+    
+    if (isLoggedOnDay) {
+      const streak = updateStreak(profile, logDay, writtenAt, timeZone);
+      
+      if (streak.profile !== profile) {
+        profile = streak.profile;
+        closedDay = streak.closedDay;
+        events.push({ type: 'streak_updated', streakDays: profile.streakDays });
+      }
+    }
+    
+    hitTargets(previousTotals, dayTotals, targets).forEach(target => {
+      events.push({ type: 'target_hit', target, logDay });
+    });
+    
+    // Reads in a transaction have to come before its write
+    const closedMeals = closedDay ? atWriteTime(await getMealsForDay(userId, closedDay, timeZone, transaction), writtenAt) : [];
+    
+    if (closedDay) {
+      const closedTotals = getMealTotals(closedMeals);
+      const closedTargets = getTargets(closedDay);
+      
+      if (closedTotals.itemCount > 0) {
+        events.push({
+          type: 'day_closed',
+          logDay: closedDay,
+          calories: Math.round(closedTotals.calories),
+          protein: Math.round(closedTotals.protein * 10) / 10,
+          carbs: Math.round(closedTotals.carbs * 10) / 10,
+          fat: Math.round(closedTotals.fat * 10) / 10,
+          itemCount: closedTotals.itemCount,
+          targetMet: Math.abs(closedTotals.calories - closedTargets.calorieTarget) / closedTargets.calorieTarget < DAY_ON_TARGET_TOLERANCE
+        });
+      }
+      
+      profile = applyChallengeDayToProfile(profile, { logDay: closedDay, timeZone, meals: closedMeals, targets: closedTargets }, true).profile;
+    }
+    
+    profile = events.reduce((current, appEvent) => applyAppEvent(current, appEvent).profile, profile);
+    
+    return applyChallengeDayToProfile(profile, { logDay, timeZone, meals: dayMeals, targets }).profile;
+  });
+});
+
+export const onWeighInCreated = onDocumentCreated('weightLog/{weighInId}', async event => {
+  const data = event.data?.data();
+  
+  if (!data) return;
+  
+  const weighIn = fromFirestore<{ userId: string; weight: number; date: Date }>(data);
+  
+  await updateProfile(weighIn.userId, profile =>
+    applyAppEvent(profile, { type: 'weigh_in', weight: weighIn.weight, date: weighIn.date }).profile
+  );
+});
+
+// Onboarding finished
+export const onUserWritten = onDocumentWritten('users/{userId}', async event => {
+  const wasOnboarded = event.data?.before.exists && event.data.before.get('onboarded') === true;
+  const isOnboarded = event.data?.after.exists && event.data.after.get('onboarded') === true;
+  
+  if (wasOnboarded || !isOnboarded) return;
+  
+  await updateProfile(event.params.userId, profile =>
+    applyAppEvent(profile, { type: 'profile_completed' }).profile
+  );
+});
+
+// Challenges also run out for users who stopped logging
+export const expireChallengesDaily = onSchedule('every day 00:10', async () => {
+  const snapshot = await db.collection('gamification').select('activeChallenges').get();
+  const withChallenges = snapshot.docs.filter(profileDoc => (profileDoc.get('activeChallenges') || []).length > 0);
+  
+  await Promise.all(withChallenges.map(profileDoc =>
+    updateProfile(profileDoc.id, profile => expireChallenges(profile))
+  ));
+});
+
+// Saves a new profile; an existing one is left as it is
+export const createGamificationProfile = onCall(async request => {
+  const userId = requireUser(request.auth);
+  
+  await updateProfile(userId, profile => profile);
+});
+
+export const joinChallenge = onCall<{ challengeId?: unknown }>(async request => {
+  const userId = requireUser(request.auth);
+  const { challengeId } = request.data || {};
+  
+  if (typeof challengeId !== 'string') {
+    throw new HttpsError('invalid-argument', 'challengeId is required');
+  }
+  
+  const { timeZone } = await getUserSettings(userId);
+  
+  try {
+    await updateProfile(userId, profile =>
+      addChallenge(expireChallenges(profile), challengeId, new Date(), timeZone)
+    );
+  } catch (error) {
+    throw new HttpsError('failed-precondition', (error as Error).message);
+  }
+});
+
+export const buyStreakFreeze = onCall(async request => {
+  const userId = requireUser(request.auth);
+  
+  try {
+    await updateProfile(userId, profile => addStreakFreeze(profile));
+  } catch (error) {
+    throw new HttpsError('failed-precondition', (error as Error).message);
+  }
+});
+
+// Helper function to get the signed in user's id
+function requireUser(auth: { uid: string } | undefined): string {
+  if (!auth) {
+    throw new HttpsError('unauthenticated', 'User not authenticated');
+  }
+  
+  return auth.uid;
+}
+
+// Helper function to convert a stored meal
+function toMeal(data: DocumentData): StoredMeal {
+  const meal = fromFirestore<StoredMeal>(data);
+  
+  return { ...meal, foodItems: meal.foodItems || [] };
+}
+
+// Helper function to get all of a user's meals for a log day. Meals logged
+// before log days are found by their date, stored at midnight of the day.
+async function getMealsForDay(
+  userId: string,
+  logDay: LogDay,
+  timeZone: string,
+  transaction?: Transaction
+): Promise<StoredMeal[]> {
+  const mealsRef = db.collection('meals').where('userId', '==', userId);
+  const dayQuery = mealsRef.where('logDay', '==', logDay);
+  const legacyQuery = mealsRef
+    .where('date', '>=', Timestamp.fromDate(startOfLogDay(logDay, timeZone)))
+    .where('date', '<', Timestamp.fromDate(startOfLogDay(addLogDays(logDay, 1), timeZone)));
+    
+  const [daySnapshot, legacySnapshot] = transaction
+    ? [await transaction.get(dayQuery), await transaction.get(legacyQuery)]
+    : await Promise.all([dayQuery.get(), legacyQuery.get()]);
+    
+  return [
+    ...daySnapshot.docs.map(mealDoc => toMeal(mealDoc.data())),
+    ...legacySnapshot.docs.map(mealDoc => toMeal(mealDoc.data())).filter(meal => !meal.logDay)
+  ];
+}
+
+// Helper function to get the user's targets and time zone from their profile
+async function getUserSettings(userId: string): Promise<UserSettings> {
+  const userDoc = await db.collection('users').doc(userId).get();
+  const profile = userDoc.exists ? userDoc.data() as TargetProfile & { timeZone?: string } : null;
+  
+  return {
+    getTargets: logDay => getTargetsForDay(profile, logDay),
+    timeZone: getUserTimeZone(profile)
+  };
+}
+
+// Helper function to date every item in meals at the time of a write. All
+// the server knows for sure is that they had been added by then.
+function atWriteTime(meals: StoredMeal[], writtenAt: Date): StoredMeal[] {
+  return meals.map(meal => ({
+    ...meal,
+    foodItems: meal.foodItems.map(item => ({ ...item, addedAt: writtenAt }))
+  }));
+}
+
+function getMealTotals(meals: StoredMeal[]): DayTotals {
+  return meals.reduce((totals, meal) => ({
+    calories: totals.calories + meal.totalCalories,
+    protein: totals.protein + meal.totalProtein,
+    carbs: totals.carbs + meal.totalCarbs,
+    fat: totals.fat + meal.totalFat,
+    itemCount: totals.itemCount + meal.foodItems.length
+  }), { calories: 0, protein: 0, carbs: 0, fat: 0, itemCount: 0 });
+}
+
+function isSameTotals(a: DayTotals, b: DayTotals): boolean {
+  return a.calories === b.calories &&
+    a.protein === b.protein &&
+    a.carbs === b.carbs &&
+    a.fat === b.fat &&
+    a.itemCount === b.itemCount;
+}
+
+// Day totals with the written meal swapped back to its previous version
+function subtractTotals(day: DayTotals, after: DayTotals, before: DayTotals): DayTotals {
+  return {
+    calories: day.calories - after.calories + before.calories,
+    protein: day.protein - after.protein + before.protein,
+    carbs: day.carbs - after.carbs + before.carbs,
+    fat: day.fat - after.fat + before.fat,
+    itemCount: day.itemCount - after.itemCount + before.itemCount
+  };
+}
+
+// Targets within tolerance now that weren't before
+function hitTargets(previous: DayTotals, current: DayTotals, targets: NutritionTargets): MacroTarget[] {
+  const isHit = (totals: DayTotals): Record<MacroTarget, boolean> => {
+    const calories = isWithinTolerance(totals.calories, targets.calorieTarget);
+    const protein = isWithinTolerance(totals.protein, targets.proteinTarget);
+    const carbs = isWithinTolerance(totals.carbs, targets.carbTarget);
+    const fat = isWithinTolerance(totals.fat, targets.fatTarget);
+    
+    return { calories, protein, carbs, fat, all: protein && carbs && fat };
+  };
+  
+  const wasHit = isHit(previous);
+  const nowHit = isHit(current);
+  
+  return (Object.keys(nowHit) as MacroTarget[]).filter(target => nowHit[target] && !wasHit[target]);
+}
+
+function isWithinTolerance(value: number, target: number): boolean {
+  return target > 0 && Math.abs(value - target) <= target * TARGET_HIT_TOLERANCE;
+}
@@ -0,0 +1,82 @@
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { Transaction, DocumentData, Timestamp, getFirestore } from 'firebase-admin/firestore';
+import { syncAchievements } from '../../src/utils/achievements';
+import {
+  GamificationProfile,
+  createGamificationProfile
+} from '../../src/utils/gamification';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+// Achievements and challenges leave optional dates unset
+getFirestore().settings({ ignoreUndefinedProperties: true });
+
+export const db = getFirestore();
+
+export function profileRef(userId: string) {
+  return db.collection('gamification').doc(userId);
+}
+
+/**
+ * Convert Firestore timestamps anywhere in stored data back to Dates
+ */
+export function fromFirestore<T>(value: unknown): T {
+  if (value instanceof Timestamp) {
+    return value.toDate() as unknown as T;
+  }
+  
+  if (Array.isArray(value)) {
+    return value.map(item => fromFirestore(item)) as unknown as T;
+  }
+  
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fromFirestore(item)])
+    ) as T;
+  }
+  
+  return value as T;
+}
+
+export function toGamificationProfile(data: DocumentData): GamificationProfile {
+  const profile = fromFirestore<GamificationProfile>(data);
+  
+  return {
+    ...profile,
+    // Picks up achievements defined since the profile was created
+    achievements: syncAchievements(profile.achievements || []),
+    // Profiles created before challenges could fail don't have this
+    failedChallenges: profile.failedChallenges || [],
+    // Profiles from before streak freezes don't have these
+    streakFreezes: profile.streakFreezes || 0,
+    streakHistory: profile.streakHistory || [],
+    spentPoints: profile.spentPoints || 0
+  };
+}
+
+/**
+ * Read, change and save a user's profile in one transaction, creating the
+ * profile on first use. The update is skipped when the change returns the
+ * same object. Dates are stored as timestamps by the Admin SDK.
+ */
+export async function updateProfile(
+  userId: string,
+  change: (profile: GamificationProfile, transaction: Transaction) => GamificationProfile | Promise<GamificationProfile>
+): Promise<GamificationProfile> {
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(profileRef(userId));
+    const profile = snapshot.exists
+      ? toGamificationProfile(snapshot.data() as DocumentData)
+      : createGamificationProfile(userId);
+      
+    const updated = await change(profile, transaction);
+    
+    if (updated !== profile || !snapshot.exists) {
+      transaction.set(profileRef(userId), updated);
+    }
+    
+    return updated;
+  });
+}
@@ -0,0 +1,80 @@
+import { FieldPath } from 'firebase-admin/firestore';
+import { generateSearchTokens } from '../../../src/utils/searchTokens';
+import { db } from '../profile';
+
+/**
+ * Rewrites nameSearchTokens on every `foods` document with the prefix
+ * tokens the app now searches by. Foods created before prefix search only
+ * have whole-word tokens, so "chick" doesn't find them until this has run.
+ *
+ * Run it after building, with credentials for the project (or
+ * FIRESTORE_EMULATOR_HOST set):
+ *
+ *   npm --prefix functions run backfill:search-tokens
+ *
+ * Pass --dry-run to count the foods that would change without writing.
+ */
+
+// Firestore allows at most 500 writes in a batch
+const PAGE_SIZE = 500;
+
+async function backfillSearchTokens(dryRun: boolean) {
+  let scanned = 0;
+  let updated = 0;
+  let lastId: string | null = null;
+  
+  for (;;) {
+    let pageQuery = db.collection('foods').orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    
+    if (lastId) {
+      pageQuery = pageQuery.startAfter(lastId);
+    }
+    
+    const snapshot = await pageQuery.get();
+    
+    if (snapshot.empty) break;
+    
+    const batch = db.batch();
+    let changes = 0;
+    
+    snapshot.docs.forEach(foodDoc => {
+      const { name, brand, nameSearchTokens } = foodDoc.data();
+      const tokens = generateSearchTokens(name || '', brand);
+      
+      if (!sameTokens(tokens, nameSearchTokens)) {
+        batch.update(foodDoc.ref, { nameSearchTokens: tokens });
+        changes++;
+      }
+    });
+    
+    if (changes > 0 && !dryRun) {
+      await batch.commit();
+    }
+    
+    scanned += snapshot.size;
+    updated += changes;
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+    
+    console.log(`Scanned ${scanned} foods, ${updated} ${dryRun ? 'to update' : 'updated'}`);
+  }
+  
+  return { scanned, updated };
+}
+
+function sameTokens(tokens: string[], stored: unknown): boolean {
+  return Array.isArray(stored) &&
+    stored.length === tokens.length &&
+    tokens.every(token => stored.includes(token));
+}
+
+const dryRun = process.argv.includes('--dry-run');
+
+backfillSearchTokens(dryRun)
+  .then(({ scanned, updated }) => {
+    console.log(`Done: ${updated} of ${scanned} foods ${dryRun ? 'need new search tokens' : 'updated'}`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,358 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment
+} from '@firebase/rules-unit-testing';
+import {
+  Timestamp,
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where
+} from 'firebase/firestore';
+
+// Runs against the Firestore emulator started by `npm test`
+let testEnv: RulesTestEnvironment;
+
+const alice = () => testEnv.authenticatedContext('alice').firestore();
+const bob = () => testEnv.authenticatedContext('bob').firestore();
+const guest = () => testEnv.unauthenticatedContext().firestore();
+
+const meal = {
+  userId: 'alice',
+  date: Timestamp.fromDate(new Date(2026, 0, 1)),
+  logDay: '2026-01-01',
+  mealType: 'breakfast',
+  foodItems: [],
+  totalCalories: 0,
+  totalProtein: 0,
+  totalCarbs: 0,
+  totalFat: 0
+};
+
+const customFood = {
+  userId: 'alice',
+  isUserCreated: true,
+  name: 'Overnight oats',
+  servingSize: 100,
+  servingSizeUnit: 'g',
+  calories: 180,
+  protein: 7,
+  carbs: 30,
+  fat: 4,
+  nameSearchTokens: ['overnight', 'oats']
+};
+
+const publicFood = {
+  isUserCreated: false,
+  name: 'Banana',
+  servingSize: 118,
+  servingSizeUnit: 'g',
+  calories: 105,
+  protein: 1.3,
+  carbs: 27,
+  fat: 0.4,
+  nameSearchTokens: ['banana']
+};
+
+// Save documents as they'd be before the test, ignoring the rules
+async function seed(documents: Record<string, object>) {
+  await testEnv.withSecurityRulesDisabled(async context => {
+    await Promise.all(Object.entries(documents).map(([path, data]) =>
+      setDoc(doc(context.firestore(), path), data)
+    ));
+  });
+}
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: process.env.GCLOUD_PROJECT,
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8')
+    }
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+describe('users', () => {
+  const profile = { uid: 'alice', email: 'alice@example.com', onboarded: false };
+  
+  it('lets users create and update their own profile', async () => {
+    await assertSucceeds(setDoc(doc(alice(), 'users/alice'), profile));
+    await assertSucceeds(updateDoc(doc(alice(), 'users/alice'), { onboarded: true, calorieTarget: 2200 }));
+  });
+  
+  it('keeps profiles private', async () => {
+    await seed({ 'users/alice': profile });
+    
+    await assertFails(getDoc(doc(bob(), 'users/alice')));
+    await assertFails(getDoc(doc(guest(), 'users/alice')));
+    await assertFails(setDoc(doc(bob(), 'users/alice'), profile));
+  });
+  
+  it('validates numeric targets', async () => {
+    await seed({ 'users/alice': profile });
+    
+    await assertFails(updateDoc(doc(alice(), 'users/alice'), { proteinTarget: -10 }));
+    await assertFails(updateDoc(doc(alice(), 'users/alice'), { calorieTarget: '2000' }));
+    await assertFails(updateDoc(doc(alice(), 'users/alice'), { weight: 0 }));
+  });
+  
+  it('limits the number of meal slots', async () => {
+    const slot = (index: number) => ({ id: `meal-${index}`, name: `Meal ${index}`, order: index });
+    await seed({ 'users/alice': profile });
+    
+    await assertSucceeds(updateDoc(doc(alice(), 'users/alice'), { mealSlots: [1, 2, 3].map(slot) }));
+    await assertFails(updateDoc(doc(alice(), 'users/alice'), { mealSlots: Array.from({ length: 9 }, (_, i) => slot(i + 1)) }));
+  });
+  
+  it('limits the number of favorite foods', async () => {
+    const favorite = (index: number) => ({ foodId: `food-${index}`, name: `Food ${index}`, calories: 100, servingSizeUnit: 'g' });
+    await seed({ 'users/alice': profile });
+    
+    await assertSucceeds(updateDoc(doc(alice(), 'users/alice'), { favoriteFoods: [favorite(1)] }));
+    await assertFails(updateDoc(doc(alice(), 'users/alice'), { favoriteFoods: Array.from({ length: 51 }, (_, i) => favorite(i)) }));
+  });
+  
+  it('checks the shape of target schedules and overrides', async () => {
+    await seed({ 'users/alice': profile });
+    
+    await assertSucceeds(updateDoc(doc(alice(), 'users/alice'), { targetSchedule: null, targetOverrides: [] }));
+    await assertFails(updateDoc(doc(alice(), 'users/alice'), { targetSchedule: 'training' }));
+    await assertFails(updateDoc(doc(alice(), 'users/alice'), { targetOverrides: { '2024-01-01': {} } }));
+  });
+});
+
+describe('gamification', () => {
+  beforeEach(async () => {
+    await seed({ 'gamification/alice': { userId: 'alice', points: 10, level: 1 } });
+  });
+  
+  it('lets users read their own profile only', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'gamification/alice')));
+    await assertFails(getDoc(doc(bob(), 'gamification/alice')));
+  });
+  
+  it('rejects client writes, even to the own profile', async () => {
+    await assertFails(updateDoc(doc(alice(), 'gamification/alice'), { points: 10000 }));
+    await assertFails(setDoc(doc(alice(), 'gamification/alice'), { userId: 'alice', points: 10000, level: 11 }));
+    await assertFails(setDoc(doc(bob(), 'gamification/bob'), { userId: 'bob', points: 0, level: 1 }));
+    await assertFails(deleteDoc(doc(alice(), 'gamification/alice')));
+  });
+});
+
+describe('meals', () => {
+  it('lets users log and change their own meals', async () => {
+    await assertSucceeds(setDoc(doc(alice(), 'meals/breakfast'), meal));
+    await assertSucceeds(updateDoc(doc(alice(), 'meals/breakfast'), { totalCalories: 350, totalProtein: 20 }));
+    await assertSucceeds(deleteDoc(doc(alice(), 'meals/breakfast')));
+  });
+  
+  it('rejects meals for someone else', async () => {
+    await assertFails(setDoc(doc(bob(), 'meals/breakfast'), meal));
+  });
+  
+  it('keeps meals private', async () => {
+    await seed({ 'meals/breakfast': meal });
+    
+    await assertFails(getDoc(doc(bob(), 'meals/breakfast')));
+    await assertFails(updateDoc(doc(bob(), 'meals/breakfast'), { totalCalories: 0 }));
+    await assertFails(deleteDoc(doc(bob(), 'meals/breakfast')));
+  });
+  
+  it('only allows queries for the own meals', async () => {
+    await seed({ 'meals/breakfast': meal });
+    
+    await assertSucceeds(getDocs(query(collection(alice(), 'meals'), where('userId', '==', 'alice'))));
+    await assertFails(getDocs(collection(alice(), 'meals')));
+  });
+  
+  it('does not let a meal change owner', async () => {
+    await seed({ 'meals/breakfast': meal });
+    
+    await assertFails(updateDoc(doc(alice(), 'meals/breakfast'), { userId: 'bob' }));
+  });
+  
+  it('validates macro totals', async () => {
+    await assertFails(setDoc(doc(alice(), 'meals/breakfast'), { ...meal, totalCalories: -100 }));
+    await assertFails(setDoc(doc(alice(), 'meals/breakfast'), { ...meal, totalProtein: '20' }));
+    
+    const { totalFat, ...withoutFat } = meal;
+    await assertFails(setDoc(doc(alice(), 'meals/breakfast'), withoutFat));
+  });
+  
+  it('requires a log day on new meals', async () => {
+    const { logDay, ...withoutLogDay } = meal;
+    
+    await assertFails(setDoc(doc(alice(), 'meals/breakfast'), withoutLogDay));
+    await assertFails(setDoc(doc(alice(), 'meals/breakfast'), { ...meal, logDay: '1 January' }));
+  });
+  
+  it('still lets meals from before log days be updated', async () => {
+    const { logDay, ...legacyMeal } = meal;
+    await seed({ 'meals/breakfast': legacyMeal });
+    
+    await assertSucceeds(updateDoc(doc(alice(), 'meals/breakfast'), { totalCalories: 200 }));
+  });
+});
+
+describe('foods', () => {
+  beforeEach(async () => {
+    await seed({ 'foods/banana': publicFood, 'foods/oats': customFood });
+  });
+  
+  it('lets signed in users read public foods', async () => {
+    await assertSucceeds(getDoc(doc(bob(), 'foods/banana')));
+    await assertSucceeds(getDocs(query(
+      collection(bob(), 'foods'),
+      where('isUserCreated', '==', false),
+      where('nameSearchTokens', 'array-contains', 'banana')
+    )));
+    await assertFails(getDoc(doc(guest(), 'foods/banana')));
+  });
+  
+  it('does not let searches read every food', async () => {
+    await assertFails(getDocs(query(
+      collection(bob(), 'foods'),
+      where('nameSearchTokens', 'array-contains', 'oats')
+    )));
+  });
+  
+  it('keeps public foods read-only', async () => {
+    await assertFails(updateDoc(doc(alice(), 'foods/banana'), { calories: 0 }));
+    await assertFails(deleteDoc(doc(alice(), 'foods/banana')));
+    await assertFails(addDoc(collection(alice(), 'foods'), { ...publicFood, userId: 'alice' }));
+  });
+  
+  it('lets users manage their own custom foods', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'foods/oats')));
+    await assertSucceeds(addDoc(collection(alice(), 'foods'), customFood));
+    await assertSucceeds(updateDoc(doc(alice(), 'foods/oats'), { calories: 200 }));
+    await assertSucceeds(deleteDoc(doc(alice(), 'foods/oats')));
+  });
+  
+  it('lets users look up foods that have been deleted', async () => {
+    await assertSucceeds(deleteDoc(doc(alice(), 'foods/oats')));
+    
+    const deleted = await assertSucceeds(getDoc(doc(alice(), 'foods/oats')));
+    
+    expect(deleted.exists()).toBe(false);
+    await assertFails(getDoc(doc(guest(), 'foods/oats')));
+  });
+  
+  it('keeps custom foods private', async () => {
+    await assertFails(getDoc(doc(bob(), 'foods/oats')));
+    await assertFails(updateDoc(doc(bob(), 'foods/oats'), { calories: 0 }));
+    await assertFails(deleteDoc(doc(bob(), 'foods/oats')));
+    await assertFails(addDoc(collection(bob(), 'foods'), customFood));
+  });
+  
+  it('validates macros on custom foods', async () => {
+    await assertFails(addDoc(collection(alice(), 'foods'), { ...customFood, protein: -1 }));
+    await assertFails(addDoc(collection(alice(), 'foods'), { ...customFood, carbs: 'lots' }));
+    await assertFails(addDoc(collection(alice(), 'foods'), { ...customFood, sodium: -5 }));
+    await assertFails(addDoc(collection(alice(), 'foods'), { ...customFood, servingSize: 0 }));
+    await assertFails(updateDoc(doc(alice(), 'foods/oats'), { fat: null }));
+  });
+  
+  it('limits the servings on custom foods', async () => {
+    const serving = { name: 'cup', amount: 80, unit: 'g' };
+    
+    await assertSucceeds(updateDoc(doc(alice(), 'foods/oats'), { servings: [serving] }));
+    await assertFails(updateDoc(doc(alice(), 'foods/oats'), { servings: serving }));
+    await assertFails(updateDoc(doc(alice(), 'foods/oats'), { servings: Array.from({ length: 21 }, () => serving) }));
+  });
+});
+
+describe('recipes', () => {
+  const recipe = {
+    userId: 'alice',
+    name: 'Porridge',
+    servings: 2,
+    ingredients: [],
+    perServing: { calories: 250, protein: 9, carbs: 40, fat: 6, fiber: 5, sugar: 8, sodium: 100 }
+  };
+  
+  it('lets users manage their own recipes', async () => {
+    await assertSucceeds(setDoc(doc(alice(), 'recipes/porridge'), recipe));
+    await assertSucceeds(updateDoc(doc(alice(), 'recipes/porridge'), { servings: 4 }));
+  });
+  
+  it('keeps recipes private', async () => {
+    await seed({ 'recipes/porridge': recipe });
+    
+    await assertFails(getDoc(doc(bob(), 'recipes/porridge')));
+    await assertFails(setDoc(doc(bob(), 'recipes/other'), recipe));
+  });
+  
+  it('validates nutrition per serving', async () => {
+    await assertFails(setDoc(doc(alice(), 'recipes/porridge'), {
+      ...recipe,
+      perServing: { ...recipe.perServing, calories: -250 }
+    }));
+  });
+});
+
+describe('mealPlans', () => {
+  const plannedItem = {
+    userId: 'alice',
+    logDay: '2026-01-02',
+    mealType: 'lunch',
+    foodId: 'rice',
+    name: 'Rice',
+    servingSize: '1 cup',
+    servingSizeUnit: 'cup',
+    servingQty: 1,
+    calories: 200,
+    protein: 4,
+    carbs: 45,
+    fat: 0.5
+  };
+  
+  it('lets users plan their own meals', async () => {
+    await assertSucceeds(setDoc(doc(alice(), 'mealPlans/rice'), plannedItem));
+    await assertFails(setDoc(doc(bob(), 'mealPlans/other'), plannedItem));
+  });
+  
+  it('keeps plans private', async () => {
+    await seed({ 'mealPlans/rice': plannedItem });
+    
+    await assertFails(getDoc(doc(bob(), 'mealPlans/rice')));
+    await assertFails(deleteDoc(doc(bob(), 'mealPlans/rice')));
+  });
+  
+  it('validates the day and nutrition', async () => {
+    await assertFails(setDoc(doc(alice(), 'mealPlans/rice'), { ...plannedItem, logDay: 'tomorrow' }));
+    await assertFails(setDoc(doc(alice(), 'mealPlans/rice'), { ...plannedItem, calories: -200 }));
+  });
+});
+
+describe('weightLog', () => {
+  const weighIn = { userId: 'alice', date: Timestamp.fromDate(new Date(2026, 0, 1)), weight: 80 };
+  
+  it('lets users log their own weight', async () => {
+    await assertSucceeds(addDoc(collection(alice(), 'weightLog'), weighIn));
+    await assertFails(addDoc(collection(bob(), 'weightLog'), weighIn));
+  });
+  
+  it('validates the weight', async () => {
+    await assertFails(addDoc(collection(alice(), 'weightLog'), { ...weighIn, weight: 0 }));
+    await assertFails(addDoc(collection(alice(), 'weightLog'), { ...weighIn, bodyFat: -3 }));
+  });
+});
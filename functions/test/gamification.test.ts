@@ -0,0 +1,354 @@
+import functionsTest from 'firebase-functions-test';
+import { CallableRequest } from 'firebase-functions/v2/https';
+import { DocumentData, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { addLogDays, startOfLogDay, toLogDay } from '../../src/utils/logDay';
+import {
+  buyStreakFreeze,
+  createGamificationProfile,
+  joinChallenge,
+  onMealWritten,
+  onWeighInCreated
+} from '../src/index';
+
+// Runs against the Firestore emulator started by `npm test`
+const fft = functionsTest({ projectId: process.env.GCLOUD_PROJECT });
+
+const db = getFirestore();
+const userId = 'alice';
+const timeZone = 'America/New_York';
+
+// An instant on a log day in the user's zone
+const at = (logDay: string, hour: number) => new Date(startOfLogDay(logDay, timeZone).getTime() + hour * 60 * 60 * 1000);
+
+// A callable request from the given user, or a signed out one for null
+function callAs<T>(uid: string | null, data: T): CallableRequest<T> {
+  const project = process.env.GCLOUD_PROJECT!;
+  const now = Math.floor(Date.now() / 1000);
+  
+  return {
+    data,
+    auth: uid
+      ? {
+          uid,
+          token: {
+            uid,
+            sub: uid,
+            aud: project,
+            iss: `https://securetoken.google.com/${project}`,
+            iat: now,
+            auth_time: now,
+            exp: now + 60 * 60,
+            firebase: { identities: {}, sign_in_provider: 'password' }
+          }
+        }
+      : undefined,
+    // The functions don't read the underlying HTTP request
+    rawRequest: {} as CallableRequest['rawRequest']
+  };
+}
+
+let foodCount = 0;
+
+// Save a meal with one more food item and run the trigger for the change,
+// as written at writtenAt
+async function logFood(logDay: string, addedAt: Date, writtenAt = addedAt, mealId = `meal-${logDay}`) {
+  const mealRef = db.collection('meals').doc(mealId);
+  const beforeSnapshot = await mealRef.get();
+  const previous = beforeSnapshot.exists ? beforeSnapshot.data()! : null;
+  
+  foodCount += 1;
+  
+  const meal = {
+    userId,
+    date: Timestamp.fromDate(startOfLogDay(logDay, timeZone)),
+    logDay,
+    mealType: 'breakfast',
+    foodItems: [
+      ...(previous?.foodItems || []),
+      { id: `item-${foodCount}`, foodId: `food-${foodCount}`, name: 'Oats', addedAt: Timestamp.fromDate(addedAt) }
+    ],
+    totalCalories: (previous?.totalCalories || 0) + 300,
+    totalProtein: (previous?.totalProtein || 0) + 10,
+    totalCarbs: (previous?.totalCarbs || 0) + 50,
+    totalFat: (previous?.totalFat || 0) + 5
+  };
+  
+  await mealRef.set(meal);
+  
+  // An empty snapshot is a document that doesn't exist yet
+  const before = fft.firestore.makeDocumentSnapshot(previous || {}, `meals/${mealId}`);
+  const after = fft.firestore.makeDocumentSnapshot(meal, `meals/${mealId}`);
+  
+  await fft.wrap(onMealWritten)({
+    data: fft.makeChange(before, after),
+    params: { mealId },
+    time: writtenAt.toISOString()
+  });
+}
+
+async function getProfile() {
+  const snapshot = await db.collection('gamification').doc(userId).get();
+  return snapshot.data()!;
+}
+
+function getAchievement(profile: DocumentData, id: string) {
+  return profile.achievements.find((achievement: { id: string }) => achievement.id === id);
+}
+
+beforeEach(async () => {
+  await fft.firestore.clearFirestoreData({ projectId: process.env.GCLOUD_PROJECT! });
+  await db.collection('users').doc(userId).set({ uid: userId, onboarded: true, timeZone });
+});
+
+afterAll(() => {
+  fft.cleanup();
+});
+
+describe('createGamificationProfile', () => {
+  it('creates a starting profile for the signed in user', async () => {
+    await fft.wrap(createGamificationProfile)(callAs(userId, {}));
+    
+    const profile = await getProfile();
+    
+    expect(profile.points).toBe(0);
+    expect(profile.level).toBe(1);
+    expect(profile.achievements.length).toBeGreaterThan(0);
+  });
+  
+  it('rejects unauthenticated calls', async () => {
+    await expect(fft.wrap(createGamificationProfile)(callAs(null, {})))
+      .rejects.toMatchObject({ code: 'unauthenticated' });
+  });
+});
+
+describe('onMealWritten', () => {
+  const today = toLogDay(new Date(), timeZone);
+  
+  it('unlocks the first log achievement and starts a streak', async () => {
+    await logFood(today, at(today, 8));
+    
+    const profile = await getProfile();
+    
+    expect(getAchievement(profile, 'first-log').isCompleted).toBe(true);
+    expect(profile.streakDays).toBe(1);
+    expect(profile.lastLogDay).toBe(today);
+    expect(profile.points).toBe(10);
+  });
+  
+  it('only counts a day towards the streak once', async () => {
+    await logFood(today, at(today, 8));
+    await logFood(today, at(today, 12));
+    
+    const profile = await getProfile();
+    
+    expect(profile.streakDays).toBe(1);
+    expect(profile.points).toBe(10);
+  });
+  
+  it('continues the streak on the next day', async () => {
+    const yesterday = addLogDays(today, -1);
+    
+    await logFood(yesterday, at(yesterday, 8));
+    await logFood(today, at(today, 8));
+    
+    const profile = await getProfile();
+    
+    expect(profile.streakDays).toBe(2);
+    expect(profile.longestStreak).toBe(2);
+    expect(profile.points).toBe(15); // first log plus the streak bonus
+  });
+  
+  it('keeps the streak across a clock change', async () => {
+    // Clocks go forward in New York on 8 March 2026, so that day is 23 hours long
+    await logFood('2026-03-07', at('2026-03-07', 23));
+    await logFood('2026-03-08', at('2026-03-08', 22));
+    
+    expect((await getProfile()).streakDays).toBe(2);
+  });
+  
+  it('uses a streak freeze for a single missed day', async () => {
+    const twoDaysAgo = addLogDays(today, -2);
+    
+    await logFood(twoDaysAgo, at(twoDaysAgo, 8));
+    await db.collection('gamification').doc(userId).update({ streakFreezes: 1 });
+    await logFood(today, at(today, 8));
+    
+    const profile = await getProfile();
+    
+    expect(profile.streakDays).toBe(2);
+    expect(profile.streakFreezes).toBe(0);
+    expect(profile.streakHistory).toEqual([
+      { logDay: twoDaysAgo, status: 'logged' },
+      { logDay: addLogDays(today, -1), status: 'frozen' },
+      { logDay: today, status: 'logged' }
+    ]);
+  });
+  
+  it('resets the streak after a missed day without a freeze', async () => {
+    const twoDaysAgo = addLogDays(today, -2);
+    
+    await logFood(twoDaysAgo, at(twoDaysAgo, 8));
+    await logFood(today, at(today, 8));
+    
+    expect((await getProfile()).streakDays).toBe(1);
+  });
+  
+  it('leaves the profile alone when an empty meal is created', async () => {
+    const meal = {
+      userId,
+      date: Timestamp.fromDate(startOfLogDay(today, timeZone)),
+      logDay: today,
+      mealType: 'lunch',
+      foodItems: [],
+      totalCalories: 0,
+      totalProtein: 0,
+      totalCarbs: 0,
+      totalFat: 0
+    };
+    
+    await db.collection('meals').doc('meal-empty').set(meal);
+    
+    const before = fft.firestore.makeDocumentSnapshot({}, 'meals/meal-empty');
+    const after = fft.firestore.makeDocumentSnapshot(meal, 'meals/meal-empty');
+    
+    await fft.wrap(onMealWritten)({ data: fft.makeChange(before, after), params: { mealId: 'meal-empty' } });
+    
+    expect((await db.collection('gamification').doc(userId).get()).exists).toBe(false);
+  });
+  
+  it('does not count foods added to a past day towards the streak', async () => {
+    const lastWeek = addLogDays(today, -7);
+    
+    await logFood(lastWeek, at(today, 8));
+    
+    const profile = await getProfile();
+    
+    expect(profile.streakDays).toBe(0);
+    expect(getAchievement(profile, 'first-log').isCompleted).toBe(true);
+  });
+  
+  it('does not let backdated foods rebuild a streak', async () => {
+    const yesterday = addLogDays(today, -1);
+    
+    await logFood(yesterday, at(yesterday, 8), at(today, 8));
+    await logFood(today, at(today, 9));
+    
+    expect((await getProfile()).streakDays).toBe(1);
+  });
+  
+  it('still credits foods dated after the write by a fast clock', async () => {
+    await logFood(today, at(today, 20), at(today, 8));
+    
+    const profile = await getProfile();
+    
+    expect(profile.streakDays).toBe(1);
+    expect(profile.lastLogDay).toBe(today);
+    expect(getAchievement(profile, 'first-log').isCompleted).toBe(true);
+  });
+});
+
+describe('onWeighInCreated', () => {
+  it('unlocks the first weigh-in achievement', async () => {
+    const weighIn = { userId, weight: 80, date: Timestamp.fromDate(new Date()) };
+    const snapshot = fft.firestore.makeDocumentSnapshot(weighIn, 'weightLog/weigh-in-1');
+    
+    await fft.wrap(onWeighInCreated)({ data: snapshot, params: { weighInId: 'weigh-in-1' } });
+    
+    expect(getAchievement(await getProfile(), 'first-weigh-in').isCompleted).toBe(true);
+  });
+});
+
+describe('buyStreakFreeze', () => {
+  const buy = () => fft.wrap(buyStreakFreeze)(callAs(userId, {}));
+  
+  beforeEach(async () => {
+    await fft.wrap(createGamificationProfile)(callAs(userId, {}));
+  });
+  
+  it('trades points for a freeze without lowering the level', async () => {
+    await db.collection('gamification').doc(userId).update({ points: 200, level: 2 });
+    await buy();
+    
+    const profile = await getProfile();
+    
+    expect(profile.streakFreezes).toBe(1);
+    expect(profile.spentPoints).toBe(150);
+    expect(profile.level).toBe(2);
+  });
+  
+  it('rejects buying without enough points', async () => {
+    await expect(buy()).rejects.toMatchObject({ code: 'failed-precondition' });
+  });
+});
+
+describe('joinChallenge', () => {
+  const join = (challengeId: string) =>
+    fft.wrap(joinChallenge)(callAs(userId, { challengeId }));
+    
+  it('adds the challenge to the active ones', async () => {
+    await join('log-streak-14');
+    
+    const profile = await getProfile();
+    
+    expect(profile.activeChallenges).toHaveLength(1);
+    expect(profile.activeChallenges[0]).toMatchObject({ id: 'log-streak-14', currentProgress: 0 });
+  });
+  
+  it('rejects unknown and already joined challenges', async () => {
+    await join('log-streak-14');
+    
+    await expect(join('log-streak-14')).rejects.toMatchObject({ code: 'failed-precondition' });
+    await expect(join('not-a-challenge')).rejects.toMatchObject({ code: 'failed-precondition' });
+  });
+  
+  it('counts logged days towards joined challenges', async () => {
+    const today = toLogDay(new Date(), timeZone);
+    
+    await join('log-streak-14');
+    await logFood(today, at(today, 8));
+    
+    const profile = await getProfile();
+    
+    expect(profile.activeChallenges[0].currentProgress).toBe(1);
+  });
+  
+  it('counts breakfast logged before 9am towards the morning challenge', async () => {
+    const today = toLogDay(new Date(), timeZone);
+    
+    await join('morning-entries');
+    await logFood(today, at(today, 7));
+    
+    expect((await getProfile()).activeChallenges[0].currentProgress).toBe(1);
+  });
+  
+  it('counts breakfast as logged when it was written, not when the app says', async () => {
+    const today = toLogDay(new Date(), timeZone);
+    
+    await join('morning-entries');
+    await logFood(today, at(today, 7), at(today, 11));
+    
+    const profile = await getProfile();
+    
+    expect(profile.activeChallenges[0].currentProgress).toBe(0);
+  });
+  
+  it('fails challenges that ran out of time', async () => {
+    const today = toLogDay(new Date(), timeZone);
+    
+    await join('protein-week');
+    
+    const [challenge] = (await getProfile()).activeChallenges;
+    
+    await db.collection('gamification').doc(userId).update({
+      activeChallenges: [{ ...challenge, endDate: Timestamp.fromDate(startOfLogDay(today, timeZone)) }]
+    });
+    await logFood(today, at(today, 8));
+    
+    const profile = await getProfile();
+    
+    expect(profile.activeChallenges).toHaveLength(0);
+    expect(profile.failedChallenges).toHaveLength(1);
+    expect(profile.failedChallenges[0]).toMatchObject({ id: 'protein-week', isCompleted: false });
+    expect(profile.failedChallenges[0].failedAt).toBeDefined();
+  });
+});
@@ -14,6 +14,8 @@ import FoodLog from './pages/FoodLog';
 import FoodSearch from './pages/FoodSearch';
 import FoodDetail from './pages/FoodDetail';
 import CreateFood from './pages/CreateFood';
+import RecipeBuilder from './pages/RecipeBuilder';
+import MealPlanner from './pages/MealPlanner';
 import Profile from './pages/Profile';
 import Statistics from './pages/Statistics';
 import Achievements from './pages/Achievements';
@@ -81,6 +83,10 @@ const App: React.FC = () => {
           <Route path="/food-search" element={<FoodSearch />} />
           <Route path="/food/:id" element={<FoodDetail />} />
           <Route path="/food/create" element={<CreateFood />} />
+          <Route path="/food/edit/:id" element={<CreateFood />} />
+          <Route path="/recipes/create" element={<RecipeBuilder />} />
+          <Route path="/recipes/edit/:id" element={<RecipeBuilder />} />
+          <Route path="/planner" element={<MealPlanner />} />
           <Route path="/profile" element={<Profile />} />
           <Route path="/stats" element={<Statistics />} />
           <Route path="/achievements" element={<Achievements />} />
@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FiCameraOff, FiX } from 'react-icons/fi';
+import { decodeBarcode } from '../utils/barcodeDecoder';
+
+interface BarcodeScannerProps {
+  /**
+   * Function to call with the decoded barcode digits
+   */
+  onDetected: (barcode: string) => void;
+  
+  /**
+   * Function to call when the scanner is closed without a result
+   */
+  onClose: () => void;
+}
+
+// How often a video frame is grabbed and run through the decoder
+const SCAN_INTERVAL_MS = 200;
+
+/**
+ * Camera-based EAN-13 / UPC-A scanner.
+ * Frames are copied from the rear camera into an offscreen canvas and
+ * decoded in the browser, with manual entry as a fallback.
+ */
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onDetected, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualBarcode, setManualBarcode] = useState('');
+  
+  // Keep the latest callback without restarting the camera
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+  
+  // Start the camera and scan frames until a barcode is found
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let isActive = true;
+    
+    const stopCamera = () => {
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+    
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      
+      if (!video || !canvas || video.readyState < video.HAVE_CURRENT_DATA) return;
+      
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context || canvas.width === 0) return;
+      
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const result = decodeBarcode(context.getImageData(0, 0, canvas.width, canvas.height));
+      
+      if (result) {
+        stopCamera();
+        onDetectedRef.current(result.text);
+      }
+    };
+    
+    const startCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('Camera access is not supported in this browser.');
+        return;
+      }
+      
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false
+        });
+        
+        // The modal may have been closed while waiting for permission
+        if (!isActive) {
+          stopCamera();
+          return;
+        }
+        
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        
+        timer = setInterval(scanFrame, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        setCameraError('Unable to access the camera. Check your permissions or enter the barcode manually.');
+      }
+    };
+    
+    startCamera();
+    
+    return () => {
+      isActive = false;
+      stopCamera();
+    };
+  }, []);
+  
+  // Submit a manually typed barcode
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const digits = manualBarcode.replace(/\D/g, '');
+    
+    if (digits) {
+      onDetected(digits);
+    }
+  };
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <div className="bg-white rounded-lg p-6 m-4 max-w-sm w-full">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium">Scan Barcode</h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-100"
+          >
+            <FiX size={20} className="text-gray-600" />
+          </button>
+        </div>
+        
+        {cameraError ? (
+          <div className="bg-gray-100 h-48 flex flex-col items-center justify-center mb-4 rounded px-4 text-center">
+            <FiCameraOff size={32} className="text-gray-400 mb-2" />
+            <p className="text-sm text-gray-500">{cameraError}</p>
+          </div>
+        ) : (
+          <div className="relative bg-black h-48 mb-4 rounded overflow-hidden">
+            <video
+              ref={videoRef}
+              className="w-full h-full object-cover"
+              muted
+              playsInline
+            />
+            {/* Aiming guide */}
+            <div className="absolute inset-x-6 top-1/2 border-t-2 border-red-500 opacity-75"></div>
+          </div>
+        )}
+        
+        <canvas ref={canvasRef} className="hidden" />
+        
+        {/* Manual entry fallback */}
+        <form onSubmit={handleManualSubmit} className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Or enter the barcode
+          </label>
+          <div className="flex">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={manualBarcode}
+              onChange={(e) => setManualBarcode(e.target.value)}
+              className="flex-grow border border-gray-300 rounded-l-md p-2"
+              placeholder="e.g. 737628064502"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-primary-500 text-white rounded-r-md"
+            >
+              Find
+            </button>
+          </div>
+        </form>
+        
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
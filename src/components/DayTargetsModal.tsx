@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useAuthStore } from '../stores/authStore';
+import { LogDay, getUserTimeZone, logDayToDate, toLogDay } from '../utils/logDay';
+import {
+  NutritionTargets,
+  getTargetOverride,
+  getTargetsForDay,
+  setTargetOverride
+} from '../utils/nutritionTargets';
+
+interface DayTargetsModalProps {
+  /**
+   * The day to set targets for
+   */
+  logDay: LogDay;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{ name: keyof NutritionTargets; label: string }> = [
+  { name: 'calorieTarget', label: 'Calories (kcal)' },
+  { name: 'proteinTarget', label: 'Protein (g)' },
+  { name: 'carbTarget', label: 'Carbs (g)' },
+  { name: 'fatTarget', label: 'Fat (g)' }
+];
+
+/**
+ * Sets one-off targets for a single day, e.g. for a race or a holiday,
+ * on top of the usual targets and training / rest day schedule
+ */
+const DayTargetsModal: React.FC<DayTargetsModalProps> = ({ logDay, onClose }) => {
+  const { profile, updateProfile } = useAuthStore();
+  
+  const [targets, setTargets] = useState<NutritionTargets>(() => getTargetsForDay(profile, logDay));
+  const [isSaving, setIsSaving] = useState(false);
+  
+  const hasOverride = getTargetOverride(profile, logDay) !== null;
+  const isValid = targets.calorieTarget > 0 && FIELDS.every(({ name }) => targets[name] >= 0);
+  
+  const saveOverride = async (override: NutritionTargets | null) => {
+    setIsSaving(true);
+    await updateProfile({
+      targetOverrides: setTargetOverride(
+        profile?.targetOverrides,
+        logDay,
+        override,
+        toLogDay(new Date(), getUserTimeZone(profile))
+      )
+    });
+    setIsSaving(false);
+    onClose();
+  };
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-sm w-full mx-4">
+        <h3 className="text-lg font-medium mb-1">Targets for {format(logDayToDate(logDay), 'EEEE, MMM d')}</h3>
+        <p className="text-sm text-gray-500 mb-4">Only this day changes; your usual targets stay as they are.</p>
+        
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          {FIELDS.map(({ name, label }) => (
+            <div key={name}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {label}
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={targets[name]}
+                onChange={(e) => setTargets(prev => ({ ...prev, [name]: parseInt(e.target.value) || 0 }))}
+                className="w-full border border-gray-300 rounded-md p-2"
+              />
+            </div>
+          ))}
+        </div>
+        
+        <div className="flex justify-between">
+          {hasOverride ? (
+            <button
+              onClick={() => saveOverride(null)}
+              disabled={isSaving}
+              className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-md"
+            >
+              Use usual targets
+            </button>
+          ) : <div />}
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => saveOverride(targets)}
+              disabled={isSaving || !isValid}
+              className="px-4 py-2 bg-primary-500 text-white rounded-md disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DayTargetsModal;
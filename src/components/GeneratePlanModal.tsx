@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { FiRefreshCw } from 'react-icons/fi';
+import { PlanFood, useMealPlanStore } from '../stores/mealPlanStore';
+import {
+  DEFAULT_MAX_SERVINGS,
+  DEFAULT_PLAN_TOLERANCE,
+  GeneratedPlan,
+  generateMealPlan
+} from '../utils/mealPlanGenerator';
+import { LogDay } from '../utils/logDay';
+import { NutritionTargets } from '../utils/nutritionTargets';
+
+interface GeneratePlanModalProps {
+  logDay: LogDay;
+  /**
+   * What's left of the day's targets after logged and planned food
+   */
+  targets: NutritionTargets;
+  onClose: () => void;
+}
+
+/**
+ * Fills the rest of a day's targets with servings of favorite and recently
+ * logged foods and recipes
+ */
+const GeneratePlanModal: React.FC<GeneratePlanModalProps> = ({ logDay, targets, onClose }) => {
+  const { planCandidates, fetchPlanCandidates, addGeneratedPlan, isLoading } = useMealPlanStore();
+  
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+  const [maxServings, setMaxServings] = useState(DEFAULT_MAX_SERVINGS);
+  const [tolerancePercent, setTolerancePercent] = useState(DEFAULT_PLAN_TOLERANCE * 100);
+  const [plan, setPlan] = useState<GeneratedPlan<PlanFood> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  
+  useEffect(() => {
+    fetchPlanCandidates();
+  }, [fetchPlanCandidates]);
+  
+  const toggleExcluded = (id: string) => {
+    setExcludedIds(prev => (prev.includes(id) ? prev.filter(excluded => excluded !== id) : [...prev, id]));
+    setPlan(null);
+  };
+  
+  const handleGenerate = () => {
+    setPlan(generateMealPlan(planCandidates, {
+      targets,
+      maxServings,
+      tolerance: tolerancePercent / 100,
+      excludedIds
+    }));
+  };
+  
+  const handleAdd = async () => {
+    if (!plan) return;
+    
+    setIsSaving(true);
+    await addGeneratedPlan(logDay, plan);
+    setIsSaving(false);
+    onClose();
+  };
+  
+  const renderTotal = (label: string, amount: number, target: number, unit: string) => (
+    <div className="flex justify-between text-sm">
+      <span>{label}</span>
+      <span>{amount} / {target} {unit}</span>
+    </div>
+  );
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-sm w-full mx-4 max-h-screen overflow-y-auto">
+        <h3 className="text-lg font-medium mb-1">Generate a Plan</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Picks servings of your favorite and recent foods and recipes to fill the rest of the day: {targets.calorieTarget} kcal, {targets.proteinTarget}g protein, {targets.carbTarget}g carbs and {targets.fatTarget}g fat.
+        </p>
+        
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max servings each</label>
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={maxServings}
+              onChange={(e) => {
+                setMaxServings(parseFloat(e.target.value) || DEFAULT_MAX_SERVINGS);
+                setPlan(null);
+              }}
+              className="w-full border border-gray-300 rounded-md p-2"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tolerance (%)</label>
+            <input
+              type="number"
+              min="1"
+              value={tolerancePercent}
+              onChange={(e) => {
+                setTolerancePercent(parseInt(e.target.value) || DEFAULT_PLAN_TOLERANCE * 100);
+                setPlan(null);
+              }}
+              className="w-full border border-gray-300 rounded-md p-2"
+            />
+          </div>
+        </div>
+        
+        {/* Foods to pick from */}
+        <div className="mb-4">
+          <div className="text-sm font-medium text-gray-700 mb-1">Foods to use</div>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary-500"></div>
+            </div>
+          ) : planCandidates.length === 0 ? (
+            <p className="text-sm text-gray-500">Log some foods or create a recipe first.</p>
+          ) : (
+            <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+              {planCandidates.map(candidate => (
+                <label key={candidate.id} className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!excludedIds.includes(candidate.id)}
+                    onChange={() => toggleExcluded(candidate.id)}
+                    className="mr-2"
+                  />
+                  <span className="flex-1 truncate">{candidate.name}</span>
+                  <span className="text-xs text-gray-500 ml-2">{candidate.calories} kcal</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+        
+        {/* Preview of the generated plan */}
+        {plan && (
+          <div className="border-t border-gray-200 pt-3 mb-4">
+            {plan.entries.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing to add; the day is already on target.</p>
+            ) : (
+              <div className="space-y-1 mb-3">
+                {plan.entries.map(({ candidate, servings }) => (
+                  <div key={candidate.id} className="flex justify-between text-sm">
+                    <span className="truncate">{candidate.name}</span>
+                    <span className="text-gray-600 ml-2">
+                      {Math.round(candidate.food.servingQty * servings * 100) / 100} {candidate.food.servingSizeUnit}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="bg-gray-50 rounded-md p-2 space-y-1">
+              {renderTotal('Calories', plan.totals.calories, targets.calorieTarget, 'kcal')}
+              {renderTotal('Protein', plan.totals.protein, targets.proteinTarget, 'g')}
+              {renderTotal('Carbs', plan.totals.carbs, targets.carbTarget, 'g')}
+              {renderTotal('Fat', plan.totals.fat, targets.fatTarget, 'g')}
+            </div>
+            {!plan.withinTolerance && (
+              <p className="text-sm text-yellow-700 mt-2">
+                This is as close as these foods get. Try allowing more servings or more foods.
+              </p>
+            )}
+          </div>
+        )}
+        
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700"
+          >
+            Cancel
+          </button>
+          {plan && plan.entries.length > 0 ? (
+            <button
+              onClick={handleAdd}
+              disabled={isSaving}
+              className="px-4 py-2 bg-primary-500 text-white rounded-md disabled:opacity-50"
+            >
+              {isSaving ? 'Adding...' : 'Add to Plan'}
+            </button>
+          ) : (
+            <button
+              onClick={handleGenerate}
+              disabled={isLoading || planCandidates.length === 0}
+              className="px-4 py-2 bg-primary-500 text-white rounded-md flex items-center disabled:opacity-50"
+            >
+              <FiRefreshCw className="mr-2" /> Generate
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GeneratePlanModal;
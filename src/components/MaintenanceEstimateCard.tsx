@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { FiZap } from 'react-icons/fi';
+import { subDays } from 'date-fns';
+import { useAuthStore } from '../stores/authStore';
+import { useFoodLogStore, DailyStats } from '../stores/foodLogStore';
+import { calculateNutritionTargets } from '../utils/nutritionTargets';
+import { getToday, getUserTimeZone } from '../utils/logDay';
+import { estimateExpenditure, hasTargetDrifted, MAX_WINDOW_DAYS, MIN_WINDOW_DAYS } from '../utils/expenditure';
+import { WeightTrendPoint } from '../utils/weightTrend';
+
+interface MaintenanceEstimateCardProps {
+  /**
+   * Smoothed weight trend covering at least the estimation window
+   */
+  weightTrend: WeightTrendPoint[];
+}
+
+/**
+ * Shows the adaptive maintenance estimate and offers to update the targets
+ * when it has drifted away from the current calorie target
+ */
+const MaintenanceEstimateCard: React.FC<MaintenanceEstimateCardProps> = ({ weightTrend }) => {
+  const { profile, updateProfile } = useAuthStore();
+  const { fetchMealsForRange } = useFoodLogStore();
+  
+  const [intakeDays, setIntakeDays] = useState<DailyStats[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+  
+  const timeZone = getUserTimeZone(profile);
+  
+  // Load intake for the estimation window
+  useEffect(() => {
+    const today = getToday(timeZone);
+    
+    fetchMealsForRange(subDays(today, MAX_WINDOW_DAYS - 1), today)
+      .then(setIntakeDays)
+      .catch(error => console.error('Error loading intake:', error));
+  }, [fetchMealsForRange, timeZone]);
+  
+  const estimate = estimateExpenditure(intakeDays, weightTrend);
+  
+  const proposedTargets = estimate && profile
+    ? calculateNutritionTargets(profile, estimate.maintenanceCalories)
+    : null;
+    
+  const showSuggestion = proposedTargets !== null &&
+    hasTargetDrifted(profile?.calorieTarget, proposedTargets.calorieTarget);
+    
+  // Save the new targets along with the estimate they came from
+  const applyTargets = async () => {
+    if (!estimate || !proposedTargets) return;
+    
+    setIsUpdating(true);
+    await updateProfile({
+      ...proposedTargets,
+      estimatedMaintenance: estimate.maintenanceCalories
+    });
+    setIsUpdating(false);
+  };
+  
+  return (
+    <div className="bg-white rounded-lg shadow p-5 mb-6">
+      <h2 className="text-lg font-medium flex items-center mb-4">
+        <FiZap className="text-primary-600 mr-2" />
+        Estimated Maintenance
+      </h2>
+      
+      {!estimate ? (
+        <p className="text-sm text-gray-500">
+          Log your food on most days and weigh in regularly for at least {MIN_WINDOW_DAYS} days
+          to see how many calories you really burn.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-center mb-3">
+            <div>
+              <div className="text-xl font-bold text-primary-600">{estimate.maintenanceCalories}</div>
+              <div className="text-xs text-gray-500">kcal / day</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold">{estimate.averageIntake}</div>
+              <div className="text-xs text-gray-500">avg intake</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold">
+                {estimate.weeklyWeightChange > 0 ? '+' : ''}{estimate.weeklyWeightChange}
+              </div>
+              <div className="text-xs text-gray-500">kg / week</div>
+            </div>
+          </div>
+          
+          <p className="text-xs text-gray-500">
+            Based on {estimate.loggedDays} logged days over the last {estimate.windowDays} days.
+          </p>
+          
+          {showSuggestion && proposedTargets && (
+            <div className="mt-4 bg-primary-50 rounded-lg p-3 text-sm">
+              <p className="mb-2">
+                Your calorie target of {profile?.calorieTarget || '-'} kcal no longer matches your
+                measured expenditure. Suggested targets:
+              </p>
+              <p className="font-medium mb-3">
+                {proposedTargets.calorieTarget} kcal · P {proposedTargets.proteinTarget}g ·
+                C {proposedTargets.carbTarget}g · F {proposedTargets.fatTarget}g
+              </p>
+              <div className="flex justify-end">
+                <button
+                  onClick={applyTargets}
+                  disabled={isUpdating}
+                  className="px-3 py-1 bg-primary-500 text-white rounded-lg disabled:opacity-50"
+                >
+                  {isUpdating ? 'Updating...' : 'Update Targets'}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceEstimateCard;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { FiArrowDown, FiArrowUp, FiClock, FiPlus, FiSave, FiTrash2 } from 'react-icons/fi';
+import { useAuthStore } from '../stores/authStore';
+import {
+  MAX_MEAL_SLOTS,
+  MealSlot,
+  createMealSlotId,
+  getMealSlots,
+  validateMealSlots
+} from '../utils/mealSlots';
+
+/**
+ * Lets the user name, reorder and time the meals their day is split into.
+ * Days that already have meals keep them; new days get the saved slots.
+ */
+const MealSlotSettings: React.FC = () => {
+  const { profile, updateProfile } = useAuthStore();
+  
+  const [slots, setSlots] = useState<MealSlot[]>(() => getMealSlots(profile));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  
+  // Pick up changes saved elsewhere while there are no unsaved edits
+  useEffect(() => {
+    if (!isDirty) {
+      setSlots(getMealSlots(profile));
+    }
+  }, [profile, isDirty]);
+  
+  const validationError = validateMealSlots(slots);
+  
+  const changeSlots = (updated: MealSlot[]) => {
+    // Keep the order field in line with the list position
+    setSlots(updated.map((slot, index) => ({ ...slot, order: index + 1 })));
+    setIsDirty(true);
+  };
+  
+  const updateSlot = (index: number, changes: Partial<MealSlot>) => {
+    changeSlots(slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+  
+  const moveSlot = (index: number, direction: -1 | 1) => {
+    const updated = [...slots];
+    [updated[index], updated[index + direction]] = [updated[index + direction], updated[index]];
+    changeSlots(updated);
+  };
+  
+  const addSlot = () => {
+    const name = `Meal ${slots.length + 1}`;
+    changeSlots([...slots, { id: createMealSlotId(name, slots), name, order: slots.length + 1 }]);
+  };
+  
+  const handleSave = async () => {
+    if (validationError) return;
+    
+    setIsSaving(true);
+    await updateProfile({
+      // Empty times are left out rather than saved as blanks
+      mealSlots: slots.map(({ startTime, endTime, ...slot }) => ({
+        ...slot,
+        name: slot.name.trim(),
+        ...(startTime && endTime ? { startTime, endTime } : {})
+      }))
+    });
+    setIsSaving(false);
+    setIsDirty(false);
+  };
+  
+  return (
+    <div className="bg-white rounded-lg shadow p-5 mb-6">
+      <div className="flex items-center mb-1">
+        <FiClock className="text-primary-600 mr-2" />
+        <h2 className="text-lg font-medium">Meals</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        New days in the food log start with these meals. Times are optional and pick the meal when adding food.
+      </p>
+      
+      <div className="space-y-3">
+        {slots.map((slot, index) => (
+          <div key={slot.id} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={slot.name}
+                onChange={(e) => updateSlot(index, { name: e.target.value })}
+                className="flex-1 border border-gray-300 rounded-lg px-3 py-1 focus:ring-primary-500 focus:border-primary-500"
+              />
+              <button
+                onClick={() => moveSlot(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-600 disabled:text-gray-300"
+                title="Move up"
+              >
+                <FiArrowUp />
+              </button>
+              <button
+                onClick={() => moveSlot(index, 1)}
+                disabled={index === slots.length - 1}
+                className="p-1 text-gray-600 disabled:text-gray-300"
+                title="Move down"
+              >
+                <FiArrowDown />
+              </button>
+              <button
+                onClick={() => changeSlots(slots.filter((_, i) => i !== index))}
+                disabled={slots.length === 1}
+                className="p-1 text-red-500 disabled:text-gray-300"
+                title="Remove"
+              >
+                <FiTrash2 />
+              </button>
+            </div>
+            <div className="flex items-center space-x-2 mt-2 text-sm text-gray-600">
+              <input
+                type="time"
+                value={slot.startTime || ''}
+                onChange={(e) => updateSlot(index, { startTime: e.target.value || undefined })}
+                className="border border-gray-300 rounded-lg px-2 py-1"
+              />
+              <span>to</span>
+              <input
+                type="time"
+                value={slot.endTime || ''}
+                onChange={(e) => updateSlot(index, { endTime: e.target.value || undefined })}
+                className="border border-gray-300 rounded-lg px-2 py-1"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      
+      {validationError && (
+        <p className="text-sm text-red-600 mt-3">{validationError}</p>
+      )}
+      
+      <div className="flex justify-between mt-4">
+        <button
+          onClick={addSlot}
+          disabled={slots.length >= MAX_MEAL_SLOTS}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 flex items-center disabled:opacity-50"
+        >
+          <FiPlus className="mr-1" /> Add Meal
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving || !!validationError}
+          className={`px-4 py-2 rounded-lg flex items-center ${
+            !isDirty || isSaving || validationError
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              : 'bg-primary-500 text-white'
+          }`}
+        >
+          <FiSave className="mr-2" /> {isSaving ? 'Saving...' : 'Save Meals'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MealSlotSettings;
@@ -2,7 +2,8 @@ import React, { useEffect, useRef } from 'react';
 import { useAuthStore } from '../stores/authStore';
 import { useFoodLogStore } from '../stores/foodLogStore';
 import { useNotification } from './NotificationSystem';
-import { useGamificationStore } from '../stores/gamificationStore';
+import { TARGET_HIT_TOLERANCE, getTargetsForDay } from '../utils/nutritionTargets';
+import { getUserTimeZone, msUntilNextLogDay, toLogDay } from '../utils/logDay';
 
 /**
  * Component that monitors nutrition progress and provides feedback
@@ -11,8 +12,7 @@ import { useGamificationStore } from '../stores/gamificationStore';
  */
 const NutritionProgressMonitor: React.FC = () => {
   const { profile } = useAuthStore();
-  const { dailyTotals } = useFoodLogStore();
-  const { updateAchievementProgress } = useGamificationStore();
+  const { meals, dailyTotals } = useFoodLogStore();
   const { addNotification } = useNotification();
   
   // Store previous totals to detect changes
@@ -36,10 +36,9 @@ const NutritionProgressMonitor: React.FC = () => {
   useEffect(() => {
     if (!profile) return;
     
-    const calorieTarget = profile.calorieTarget || 2000;
-    const proteinTarget = profile.proteinTarget || 120;
-    const carbTarget = profile.carbTarget || 200;
-    const fatTarget = profile.fatTarget || 65;
+    // Totals are for the day loaded in the food log
+    const logDay = meals.length > 0 ? meals[0].logDay : toLogDay(new Date(), getUserTimeZone(profile));
+    const { calorieTarget, proteinTarget, carbTarget, fatTarget } = getTargetsForDay(profile, logDay);
     
     // Only proceed if there's been a significant change in totals
     const prevCalories = prevTotalsRef.current.calories;
@@ -55,6 +54,7 @@ const NutritionProgressMonitor: React.FC = () => {
     const proteinProgress = dailyTotals.protein / proteinTarget;
     const carbProgress = dailyTotals.carbs / carbTarget;
     const fatProgress = dailyTotals.fat / fatTarget;
+    const isHit = (progress: number) => Math.abs(progress - 1) <= TARGET_HIT_TOLERANCE;
     
     // Check for halfway milestone
     if (calorieProgress >= 0.5 && calorieProgress < 0.6 && !targetsHitRef.current.calories) {
@@ -67,7 +67,7 @@ const NutritionProgressMonitor: React.FC = () => {
     }
     
     // Check for target reached
-    if (calorieProgress >= 0.95 && calorieProgress <= 1.05 && !targetsHitRef.current.calories) {
+    if (isHit(calorieProgress) && !targetsHitRef.current.calories) {
       addNotification({
         type: 'success',
         title: 'Calorie Target Met!',
@@ -78,7 +78,7 @@ const NutritionProgressMonitor: React.FC = () => {
     }
     
     // Check for macro targets individually
-    if (proteinProgress >= 0.95 && proteinProgress <= 1.05 && !targetsHitRef.current.protein) {
+    if (isHit(proteinProgress) && !targetsHitRef.current.protein) {
       addNotification({
         type: 'success',
         title: 'Protein Target Met!',
@@ -88,7 +88,7 @@ const NutritionProgressMonitor: React.FC = () => {
       targetsHitRef.current.protein = true;
     }
     
-    if (carbProgress >= 0.95 && carbProgress <= 1.05 && !targetsHitRef.current.carbs) {
+    if (isHit(carbProgress) && !targetsHitRef.current.carbs) {
       addNotification({
         type: 'success',
         title: 'Carb Target Met!',
@@ -98,7 +98,7 @@ const NutritionProgressMonitor: React.FC = () => {
       targetsHitRef.current.carbs = true;
     }
     
-    if (fatProgress >= 0.95 && fatProgress <= 1.05 && !targetsHitRef.current.fat) {
+    if (isHit(fatProgress) && !targetsHitRef.current.fat) {
       addNotification({
         type: 'success',
         title: 'Fat Target Met!',
@@ -110,9 +110,9 @@ const NutritionProgressMonitor: React.FC = () => {
     
     // Check if all macros are within target range (perfect balance achievement)
     if (
-      proteinProgress >= 0.95 && proteinProgress <= 1.05 &&
-      carbProgress >= 0.95 && carbProgress <= 1.05 &&
-      fatProgress >= 0.95 && fatProgress <= 1.05 &&
+      isHit(proteinProgress) &&
+      isHit(carbProgress) &&
+      isHit(fatProgress) &&
       !targetsHitRef.current.allMacros
     ) {
       addNotification({
@@ -123,12 +123,9 @@ const NutritionProgressMonitor: React.FC = () => {
         duration: 5000
       });
       targetsHitRef.current.allMacros = true;
-      
-      // Update the macro balance achievement
-      updateAchievementProgress('macro-balance', 1);
     }
     
-    // Reset flags at midnight
+    // Reset flags at midnight in the user's time zone
     const handleDayChange = () => {
       targetsHitRef.current = {
         calories: false,
@@ -139,18 +136,11 @@ const NutritionProgressMonitor: React.FC = () => {
       };
     };
     
-    // Get time until midnight for auto-reset
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
-    const timeUntilMidnight = tomorrow.getTime() - now.getTime();
-    
-    // Set timeout to reset flags at midnight
-    const timer = setTimeout(handleDayChange, timeUntilMidnight);
+    // Set timeout to reset flags when the next day starts
+    const timer = setTimeout(handleDayChange, msUntilNextLogDay(getUserTimeZone(profile)));
     
     return () => clearTimeout(timer);
-  }, [dailyTotals, profile, addNotification, updateAchievementProgress]);
+  }, [dailyTotals, meals, profile, addNotification]);
   
   // This component doesn't render anything
   return null;
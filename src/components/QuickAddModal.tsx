@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { FoodItem, useFoodLogStore } from '../stores/foodLogStore';
+import { QUICK_ADD_NAME, QuickAddEntry, caloriesFromMacros, checkQuickAddEntry } from '../utils/quickAdd';
+
+interface QuickAddModalProps {
+  mealId: string;
+  mealName: string;
+  /**
+   * The quick-add entry to edit, if any
+   */
+  item?: FoodItem;
+  onClose: () => void;
+}
+
+const MACRO_FIELDS: Array<{ name: 'protein' | 'carbs' | 'fat'; label: string }> = [
+  { name: 'protein', label: 'Protein (g)' },
+  { name: 'carbs', label: 'Carbs (g)' },
+  { name: 'fat', label: 'Fat (g)' }
+];
+
+/**
+ * Logs calories and macros without looking up a food, e.g. from a
+ * restaurant menu. Macros may be left blank when they aren't known.
+ */
+const QuickAddModal: React.FC<QuickAddModalProps> = ({ mealId, mealName, item, onClose }) => {
+  const { addQuickAddItem, updateQuickAddItem } = useFoodLogStore();
+  
+  // Fields are kept as typed so a blank macro stays unknown rather than zero.
+  // Unknown macros are saved as 0, so a 0 is shown blank again when editing.
+  const [fields, setFields] = useState(() => ({
+    label: item && item.name !== QUICK_ADD_NAME ? item.name : '',
+    calories: item ? String(item.calories) : '',
+    protein: item?.protein ? String(item.protein) : '',
+    carbs: item?.carbs ? String(item.carbs) : '',
+    fat: item?.fat ? String(item.fat) : ''
+  }));
+  const [isSaving, setIsSaving] = useState(false);
+  
+  const readNumber = (value: string) => (value.trim() === '' ? undefined : parseFloat(value));
+  
+  const entry: QuickAddEntry = {
+    label: fields.label,
+    calories: readNumber(fields.calories) ?? 0,
+    protein: readNumber(fields.protein),
+    carbs: readNumber(fields.carbs),
+    fat: readNumber(fields.fat)
+  };
+  
+  const problem = checkQuickAddEntry(entry);
+  const hasMacros = MACRO_FIELDS.some(({ name }) => entry[name] !== undefined);
+  
+  const handleSave = async () => {
+    if (problem) return;
+    
+    setIsSaving(true);
+    
+    if (item) {
+      await updateQuickAddItem(mealId, item.id, entry);
+    } else {
+      await addQuickAddItem(mealId, entry);
+    }
+    
+    setIsSaving(false);
+    onClose();
+  };
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-sm w-full mx-4">
+        <h3 className="text-lg font-medium mb-1">Quick Add to {mealName}</h3>
+        <p className="text-sm text-gray-500 mb-4">Log calories and macros without a food. Leave a macro blank if you don't know it.</p>
+        
+        <div className="mb-3">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Label (optional)</label>
+          <input
+            type="text"
+            value={fields.label}
+            onChange={(e) => setFields(prev => ({ ...prev, label: e.target.value }))}
+            placeholder="e.g. Burrito bowl"
+            className="w-full border border-gray-300 rounded-md p-2"
+          />
+        </div>
+        
+        <div className="mb-3">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Calories (kcal)</label>
+          <input
+            type="number"
+            min="0"
+            value={fields.calories}
+            onChange={(e) => setFields(prev => ({ ...prev, calories: e.target.value }))}
+            className="w-full border border-gray-300 rounded-md p-2"
+          />
+        </div>
+        
+        <div className="grid grid-cols-3 gap-3 mb-3">
+          {MACRO_FIELDS.map(({ name, label }) => (
+            <div key={name}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={fields[name]}
+                onChange={(e) => setFields(prev => ({ ...prev, [name]: e.target.value }))}
+                className="w-full border border-gray-300 rounded-md p-2"
+              />
+            </div>
+          ))}
+        </div>
+        
+        {/* Compare the macros with the calories as they're typed (4/4/9 rule) */}
+        <div className="text-sm mb-6 min-h-[1.25rem]">
+          {fields.calories !== '' && problem ? (
+            <p className="text-red-600">{problem}</p>
+          ) : hasMacros ? (
+            <p className="text-gray-500">Macros add up to about {caloriesFromMacros(entry)} kcal</p>
+          ) : null}
+        </div>
+        
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!problem || isSaving}
+            className="px-4 py-2 bg-primary-500 text-white rounded-md disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : item ? 'Save' : 'Add'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuickAddModal;
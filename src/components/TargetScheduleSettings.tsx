@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { FiRepeat, FiSave } from 'react-icons/fi';
+import { useAuthStore } from '../stores/authStore';
+import {
+  DEFAULT_TARGET_SCHEDULE,
+  DayType,
+  TargetAdjustment,
+  TargetSchedule
+} from '../utils/nutritionTargets';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ADJUSTMENT_FIELDS: Array<{ name: keyof TargetAdjustment; label: string }> = [
+  { name: 'calories', label: 'kcal' },
+  { name: 'protein', label: 'Protein g' },
+  { name: 'carbs', label: 'Carbs g' },
+  { name: 'fat', label: 'Fat g' }
+];
+
+/**
+ * Weekly training / rest day cycle. Each type of day adds to (or takes from)
+ * the usual targets.
+ */
+const TargetScheduleSettings: React.FC = () => {
+  const { profile, updateProfile } = useAuthStore();
+  
+  const [schedule, setSchedule] = useState<TargetSchedule | null>(profile?.targetSchedule || null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  
+  // Pick up changes saved elsewhere while there are no unsaved edits
+  useEffect(() => {
+    if (!isDirty) {
+      setSchedule(profile?.targetSchedule || null);
+    }
+  }, [profile, isDirty]);
+  
+  const changeSchedule = (updated: TargetSchedule | null) => {
+    setSchedule(updated);
+    setIsDirty(true);
+  };
+  
+  const toggleWeekday = (weekday: number) => {
+    if (!schedule) return;
+    
+    changeSchedule({
+      ...schedule,
+      trainingDays: schedule.trainingDays.includes(weekday)
+        ? schedule.trainingDays.filter(day => day !== weekday)
+        : [...schedule.trainingDays, weekday].sort()
+    });
+  };
+  
+  const updateAdjustment = (dayType: DayType, name: keyof TargetAdjustment, value: string) => {
+    if (!schedule) return;
+    
+    changeSchedule({
+      ...schedule,
+      [dayType]: { ...schedule[dayType], [name]: parseInt(value) || 0 }
+    });
+  };
+  
+  const handleSave = async () => {
+    setIsSaving(true);
+    await updateProfile({ targetSchedule: schedule });
+    setIsSaving(false);
+    setIsDirty(false);
+  };
+  
+  const renderAdjustments = (dayType: DayType, title: string) => (
+    <div className="mt-4">
+      <div className="text-sm font-medium text-gray-700 mb-1">{title}</div>
+      <div className="grid grid-cols-4 gap-2">
+        {ADJUSTMENT_FIELDS.map(({ name, label }) => (
+          <div key={name}>
+            <input
+              type="number"
+              value={schedule?.[dayType][name] ?? 0}
+              onChange={(e) => updateAdjustment(dayType, name, e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm"
+            />
+            <div className="text-xs text-gray-500 mt-1">{label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+  
+  return (
+    <div className="bg-white rounded-lg shadow p-5 mb-6">
+      <div className="flex items-center mb-1">
+        <FiRepeat className="text-primary-600 mr-2" />
+        <h2 className="text-lg font-medium">Training & Rest Days</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Eat more on training days and less on rest days. Amounts are added to your usual targets; use negative numbers to lower them.
+      </p>
+      
+      <label className="flex items-center text-sm mb-2">
+        <input
+          type="checkbox"
+          checked={schedule !== null}
+          onChange={(e) => changeSchedule(e.target.checked ? DEFAULT_TARGET_SCHEDULE : null)}
+          className="mr-2"
+        />
+        Cycle targets by day of the week
+      </label>
+      
+      {schedule && (
+        <>
+          <div className="text-sm font-medium text-gray-700 mt-3 mb-1">Training days</div>
+          <div className="flex justify-between">
+            {WEEKDAYS.map((label, weekday) => (
+              <button
+                key={label}
+                onClick={() => toggleWeekday(weekday)}
+                className={`w-10 py-1 rounded-md text-xs ${
+                  schedule.trainingDays.includes(weekday)
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          
+          {renderAdjustments('training', 'Training day change')}
+          {renderAdjustments('rest', 'Rest day change')}
+        </>
+      )}
+      
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className={`px-4 py-2 rounded-lg flex items-center ${
+            !isDirty || isSaving
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              : 'bg-primary-500 text-white'
+          }`}
+        >
+          <FiSave className="mr-2" /> {isSaving ? 'Saving...' : 'Save Schedule'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TargetScheduleSettings;
@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { format } from 'date-fns';
+import { WeightTrendPoint } from '../utils/weightTrend';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface WeightTrendChartProps {
+  /**
+   * Weigh-ins with their smoothed trend, oldest first
+   */
+  points: WeightTrendPoint[];
+}
+
+/**
+ * Line chart of individual weigh-ins with the smoothed trend drawn on top
+ */
+const WeightTrendChart: React.FC<WeightTrendChartProps> = ({ points }) => {
+  const data = {
+    labels: points.map(point => format(point.date, 'MMM d')),
+    datasets: [
+      {
+        label: 'Weigh-in',
+        data: points.map(point => point.weight),
+        borderColor: 'rgba(156, 163, 175, 1)',
+        backgroundColor: 'rgba(156, 163, 175, 1)',
+        showLine: false,
+        pointRadius: 3
+      },
+      {
+        label: 'Trend',
+        data: points.map(point => point.trend),
+        borderColor: 'rgba(20, 184, 166, 1)',
+        backgroundColor: 'rgba(20, 184, 166, 1)',
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.3
+      }
+    ]
+  };
+  
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: { boxWidth: 12 }
+      }
+    },
+    scales: {
+      y: {
+        ticks: {
+          callback: (value: string | number) => `${value} kg`
+        }
+      }
+    }
+  };
+  
+  return (
+    <div className="h-52">
+      <Line data={data} options={options} />
+    </div>
+  );
+};
+
+export default WeightTrendChart;
@@ -1,6 +1,12 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import {
+  initializeFirestore,
+  connectFirestoreEmulator,
+  persistentLocalCache,
+  persistentMultipleTabManager
+} from 'firebase/firestore';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 import { getStorage } from 'firebase/storage';
 
 // Your Firebase configuration
@@ -20,7 +26,24 @@ const app = initializeApp(firebaseConfig);
 
 // Firebase services
 const auth = getAuth(app);
-const db = getFirestore(app);
+
+// Cache Firestore data in IndexedDB so meals can be read and logged offline.
+// Writes made offline are queued by the SDK and replayed when the connection returns.
+const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({
+    tabManager: persistentMultipleTabManager()
+  }),
+  ignoreUndefinedProperties: true
+});
+
 const storage = getStorage(app);
+const functions = getFunctions(app);
+
+// Run against the Firebase Emulator Suite (`firebase emulators:start`)
+if (process.env.REACT_APP_USE_EMULATORS === 'true') {
+  connectAuthEmulator(auth, 'http://localhost:9099');
+  connectFirestoreEmulator(db, 'localhost', 8080);
+  connectFunctionsEmulator(functions, 'localhost', 5001);
+}
 
-export { app, auth, db, storage };
+export { app, auth, db, storage, functions };
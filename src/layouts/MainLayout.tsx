@@ -1,12 +1,14 @@
 import React from 'react';
 import { Outlet, NavLink } from 'react-router-dom';
-import { FiHome, FiList, FiUser, FiActivity, FiAward } from 'react-icons/fi';
+import { FiHome, FiList, FiUser, FiActivity, FiAward, FiCloudOff, FiRefreshCw, FiX } from 'react-icons/fi';
 import { useGamificationStore } from '../stores/gamificationStore';
+import { useSyncStore } from '../stores/syncStore';
 import GamificationNotifier from '../components/GamificationNotifier';
 import NutritionProgressMonitor from '../components/NutritionProgressMonitor';
 
 const MainLayout: React.FC = () => {
   const { profile, showAchievementModal, closeAchievementModal, lastUnlockedAchievement } = useGamificationStore();
+  const { isOnline, pendingMutations, syncError, clearSyncError } = useSyncStore();
   
   // Define navigation items
   const navItems = [
@@ -28,6 +30,42 @@ const MainLayout: React.FC = () => {
         <Outlet />
       </main>
       
+      {/* Pending sync indicator */}
+      {(!isOnline || pendingMutations.length > 0 || syncError) && (
+        <div className="fixed bottom-16 inset-x-0 z-10 px-4 pb-2">
+          <div className="max-w-lg mx-auto space-y-2">
+            {(!isOnline || pendingMutations.length > 0) && (
+              <div className={`flex items-center rounded-lg shadow px-3 py-2 text-sm ${
+                isOnline ? 'bg-blue-50 text-blue-800' : 'bg-gray-800 text-white'
+              }`}>
+                {isOnline ? (
+                  <FiRefreshCw className="mr-2 flex-shrink-0 animate-spin" />
+                ) : (
+                  <FiCloudOff className="mr-2 flex-shrink-0" />
+                )}
+                <span>
+                  {!isOnline && pendingMutations.length === 0 && "You're offline. Changes will sync when you reconnect."}
+                  {!isOnline && pendingMutations.length > 0 && `You're offline. ${pendingMutations.length} change${pendingMutations.length === 1 ? '' : 's'} waiting to sync.`}
+                  {isOnline && pendingMutations.length > 0 && `Syncing ${pendingMutations.length} change${pendingMutations.length === 1 ? '' : 's'}...`}
+                </span>
+              </div>
+            )}
+            
+            {syncError && (
+              <div className="flex items-center justify-between rounded-lg shadow px-3 py-2 text-sm bg-red-50 text-red-700">
+                <span>{syncError}</span>
+                <button
+                  onClick={clearSyncError}
+                  className="ml-2 p-1 rounded-full hover:bg-red-100"
+                >
+                  <FiX size={16} />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+      
       {/* Bottom navigation bar */}
       <nav className="fixed bottom-0 inset-x-0 bg-white border-t border-gray-200 z-10">
         <div className="flex justify-between max-w-lg mx-auto">
@@ -9,11 +9,18 @@ import {
   FiCamera,
   FiUser,
   FiTrendingUp,
-  FiStar
+  FiStar,
+  FiCloudSnow
 } from 'react-icons/fi';
+import { useAuthStore } from '../stores/authStore';
 import { useGamificationStore, Achievement } from '../stores/gamificationStore';
+import { MAX_STREAK_FREEZES, STREAK_FREEZE_COST, getAvailablePoints } from '../utils/gamification';
+import { addLogDays, getUserTimeZone, logDayToDate, toLogDay } from '../utils/logDay';
 import { format } from 'date-fns';
 
+// Days shown in the streak history
+const HISTORY_DAYS = 14;
+
 // Icon mapping
 const iconMap: Record<string, React.ElementType> = {
   FiAward: FiAward,
@@ -22,15 +29,19 @@ const iconMap: Record<string, React.ElementType> = {
   FiTarget: FiTarget,
   FiCamera: FiCamera,
   FiUser: FiUser,
+  FiTrendingUp: FiTrendingUp,
   FiStar: FiStar
 };
 
 const Achievements: React.FC = () => {
   const navigate = useNavigate();
-  const { profile, fetchProfile, isLoading } = useGamificationStore();
+  const { profile: userProfile } = useAuthStore();
+  const { profile, fetchProfile, buyStreakFreeze, isLoading } = useGamificationStore();
   
   const [categories, setCategories] = useState<Record<string, Achievement[]>>({});
   const [activeCategory, setActiveCategory] = useState<string>('all');
+  const [isBuyingFreeze, setIsBuyingFreeze] = useState(false);
+  const [freezeError, setFreezeError] = useState<string | null>(null);
   
   // Fetch achievements data
   useEffect(() => {
@@ -83,6 +94,33 @@ const Achievements: React.FC = () => {
     social: 'Social'
   };
   
+  // Buy a streak freeze with points
+  const handleBuyFreeze = async () => {
+    try {
+      setIsBuyingFreeze(true);
+      setFreezeError(null);
+      await buyStreakFreeze();
+    } catch (error) {
+      setFreezeError((error as Error).message);
+    } finally {
+      setIsBuyingFreeze(false);
+    }
+  };
+  
+  // Streak status of the last few days, most recent last
+  const getRecentDays = () => {
+    if (!profile) return [];
+    
+    const today = toLogDay(new Date(), getUserTimeZone(userProfile));
+    
+    return Array.from({ length: HISTORY_DAYS }, (_, index) => {
+      const logDay = addLogDays(today, index - HISTORY_DAYS + 1);
+      const entry = profile.streakHistory.find(day => day.logDay === logDay);
+      
+      return { logDay, status: entry ? entry.status : 'missed' };
+    });
+  };
+  
   // Render achievement icon
   const renderIcon = (iconName: string) => {
     const Icon = iconMap[iconName] || FiAward;
@@ -110,7 +148,7 @@ const Achievements: React.FC = () => {
               <span className="font-medium">Level {profile.level}</span>
             </div>
             <div>
-              <span className="text-gray-600">{profile.points} points</span>
+              <span className="text-gray-600">{getAvailablePoints(profile)} points</span>
             </div>
           </div>
           
@@ -142,6 +180,57 @@ const Achievements: React.FC = () => {
               <span>Best: {profile.longestStreak} days</span>
             </div>
           </div>
+          
+          {/* Streak history */}
+          <div className="mt-3">
+            <div className="text-xs text-gray-500 mb-1">Last {HISTORY_DAYS} days</div>
+            <div className="flex justify-between">
+              {getRecentDays().map(day => (
+                <div
+                  key={day.logDay}
+                  title={`${format(logDayToDate(day.logDay), 'MMM d')}: ${
+                    day.status === 'frozen' ? 'streak freeze used' : day.status
+                  }`}
+                  className={`w-5 h-5 rounded flex items-center justify-center ${
+                    day.status === 'logged'
+                      ? 'bg-primary-500'
+                      : day.status === 'frozen'
+                        ? 'bg-blue-100 text-blue-600'
+                        : 'bg-gray-100'
+                  }`}
+                >
+                  {day.status === 'frozen' && <FiCloudSnow size={12} />}
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          {/* Streak freezes */}
+          <div className="flex justify-between items-center mt-4 pt-3 border-t border-gray-100">
+            <div className="text-sm">
+              <div className="flex items-center text-blue-600">
+                <FiCloudSnow className="mr-1" size={14} />
+                <span>Streak freezes: {profile.streakFreezes} / {MAX_STREAK_FREEZES}</span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Covers one missed day. You get one each level.
+              </p>
+            </div>
+            <button
+              onClick={handleBuyFreeze}
+              disabled={
+                isBuyingFreeze ||
+                profile.streakFreezes >= MAX_STREAK_FREEZES ||
+                getAvailablePoints(profile) < STREAK_FREEZE_COST
+              }
+              className="px-3 py-1 text-sm rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isBuyingFreeze ? 'Buying...' : `Buy for ${STREAK_FREEZE_COST} pts`}
+            </button>
+          </div>
+          {freezeError && (
+            <p className="text-xs text-red-600 mt-2">{freezeError}</p>
+          )}
         </div>
       )}
       
@@ -11,9 +11,11 @@ import {
   FiTarget,
   FiActivity,
   FiFastForward,
-  FiCalendar
+  FiCalendar,
+  FiXCircle
 } from 'react-icons/fi';
 import { useGamificationStore, Challenge } from '../stores/gamificationStore';
+import { CHALLENGE_DEFINITIONS, ChallengeDefinition } from '../utils/challenges';
 import { format, intervalToDuration, differenceInDays } from 'date-fns';
 
 // Icon mapping for challenge types
@@ -26,58 +28,13 @@ const iconMap: Record<string, React.ElementType> = {
   advanced: FiFastForward
 };
 
-// Available challenges that users can join
-const availableChallenges = [
-  {
-    id: 'protein-week',
-    title: 'Protein Powerhouse',
-    description: 'Hit your protein target every day for 7 days straight',
-    iconName: 'nutrition',
-    startDate: new Date(),
-    endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-    targetValue: 7,
-    points: 50
-  },
-  {
-    id: 'balanced-three',
-    title: 'Perfect Balance',
-    description: 'Hit all three macro targets on the same day, 3 times',
-    iconName: 'nutrition',
-    startDate: new Date(),
-    endDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
-    targetValue: 3,
-    points: 75
-  },
-  {
-    id: 'log-streak-14',
-    title: 'Two-Week Warrior',
-    description: 'Log your food every day for 14 days in a row',
-    iconName: 'streak',
-    startDate: new Date(),
-    endDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
-    targetValue: 14,
-    points: 100
-  },
-  {
-    id: 'morning-entries',
-    title: 'Early Bird',
-    description: 'Log breakfast before 9am for 5 days',
-    iconName: 'consistency',
-    startDate: new Date(),
-    endDate: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
-    targetValue: 5,
-    points: 40
-  }
-];
-
 const Challenges: React.FC = () => {
   const navigate = useNavigate();
   const { 
     profile, 
     fetchProfile, 
     isLoading, 
-    joinChallenge,
-    updateChallengeProgress 
+    joinChallenge
   } = useGamificationStore();
   
   const [activeTab, setActiveTab] = useState<'active' | 'available' | 'completed'>('active');
@@ -97,7 +54,8 @@ const Challenges: React.FC = () => {
       ...profile.completedChallenges.map(c => c.id)
     ];
     
-    return availableChallenges.filter(c => !existingChallengeIds.includes(c.id));
+    // Failed challenges can be tried again
+    return CHALLENGE_DEFINITIONS.filter(c => !existingChallengeIds.includes(c.id));
   };
   
   // Format time remaining for a challenge
@@ -115,11 +73,10 @@ const Challenges: React.FC = () => {
   };
   
   // Join a challenge
-  const handleJoinChallenge = async (challenge: typeof availableChallenges[0]) => {
+  const handleJoinChallenge = async (definition: ChallengeDefinition) => {
     try {
-      setJoinLoading(challenge.id);
-      await joinChallenge(challenge);
-      await fetchProfile(); // Refresh profile to update active challenges
+      setJoinLoading(definition.id);
+      await joinChallenge(definition.id);
       setActiveTab('active'); // Switch to active tab
     } catch (error) {
       console.error('Failed to join challenge:', error);
@@ -136,14 +93,18 @@ const Challenges: React.FC = () => {
   
   // Render challenge card based on type (active, available, completed)
   const renderChallengeCard = (
-    challenge: Challenge | typeof availableChallenges[0], 
-    type: 'active' | 'available' | 'completed'
+    challenge: Challenge | ChallengeDefinition, 
+    type: 'active' | 'available' | 'completed' | 'failed'
   ) => {
     return (
       <div 
-        key={challenge.id}
+        key={'startDate' in challenge ? `${challenge.id}-${challenge.startDate.getTime()}` : challenge.id}
         className={`bg-white rounded-lg shadow p-4 ${
-          type === 'completed' ? 'border-l-4 border-primary-500' : ''
+          type === 'completed' 
+            ? 'border-l-4 border-primary-500' 
+            : type === 'failed'
+              ? 'border-l-4 border-red-400'
+              : ''
         }`}
       >
         <div className="flex mb-3">
@@ -152,7 +113,9 @@ const Challenges: React.FC = () => {
               ? 'bg-primary-100 text-primary-600' 
               : type === 'active'
                 ? 'bg-blue-100 text-blue-600'
-                : 'bg-gray-100 text-gray-600'
+                : type === 'failed'
+                  ? 'bg-red-100 text-red-600'
+                  : 'bg-gray-100 text-gray-600'
           }`}>
             {renderIcon(challenge.iconName)}
           </div>
@@ -164,14 +127,13 @@ const Challenges: React.FC = () => {
               <div className="flex items-center text-gray-500">
                 <FiClock className="mr-1" size={12} />
                 <span>
-                  {type === 'completed' 
-                    ? `Completed on ${format(
-                        'completedAt' in challenge && challenge.completedAt 
-                          ? challenge.completedAt 
-                          : new Date(), 
-                        'MMM d, yyyy'
-                      )}`
-                    : formatTimeRemaining(challenge.endDate)
+                  {'durationDays' in challenge
+                    ? `${challenge.durationDays} days`
+                    : type === 'completed' 
+                      ? `Completed on ${format(challenge.completedAt || new Date(), 'MMM d, yyyy')}`
+                      : type === 'failed'
+                        ? `Ended on ${format(challenge.failedAt || challenge.endDate, 'MMM d, yyyy')}`
+                        : formatTimeRemaining(challenge.endDate)
                   }
                 </span>
               </div>
@@ -204,7 +166,14 @@ const Challenges: React.FC = () => {
           </div>
         )}
         
-        {type === 'available' && (
+        {type === 'failed' && 'currentProgress' in challenge && (
+          <div className="mt-2 flex items-center text-red-600 text-sm">
+            <FiXCircle className="mr-1" />
+            <span>Time ran out at {challenge.currentProgress} / {challenge.targetValue}</span>
+          </div>
+        )}
+        
+        {type === 'available' && 'durationDays' in challenge && (
           <button
             onClick={() => handleJoinChallenge(challenge)}
             disabled={!!joinLoading}
@@ -344,8 +313,11 @@ const Challenges: React.FC = () => {
           )}
           
           {activeTab === 'completed' && profile && (
-            profile.completedChallenges.length > 0 ? (
-              profile.completedChallenges.map(challenge => renderChallengeCard(challenge, 'completed'))
+            profile.completedChallenges.length > 0 || profile.failedChallenges.length > 0 ? (
+              <>
+                {profile.completedChallenges.map(challenge => renderChallengeCard(challenge, 'completed'))}
+                {profile.failedChallenges.map(challenge => renderChallengeCard(challenge, 'failed'))}
+              </>
             ) : (
               <div className="text-center py-8">
                 <p className="text-gray-500 mb-4">No completed challenges yet</p>
@@ -360,26 +332,6 @@ const Challenges: React.FC = () => {
           )}
         </div>
       )}
-      
-      {/* For demo purposes, add a way to update progress on active challenges */}
-      {activeTab === 'active' && profile && profile.activeChallenges.length > 0 && (
-        <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-4">
-          <div className="container mx-auto max-w-lg">
-            <p className="text-sm text-gray-600 mb-2 text-center">Demo: Update challenge progress</p>
-            <div className="flex justify-center space-x-2">
-              {profile.activeChallenges.map(challenge => (
-                <button
-                  key={challenge.id}
-                  onClick={() => updateChallengeProgress(challenge.id, 1)}
-                  className="px-3 py-1 bg-blue-500 text-white text-xs rounded"
-                >
-                  +1 {challenge.title.split(' ')[0]}
-                </button>
-              ))}
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   );
 };
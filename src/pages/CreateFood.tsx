@@ -1,20 +1,49 @@
-import React, { useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import {
   FiArrowLeft,
   FiSave,
-  FiAlertCircle
+  FiAlertCircle,
+  FiChevronDown,
+  FiChevronUp,
+  FiTrash2,
+  FiPlus,
+  FiX
 } from 'react-icons/fi';
+import { useAuthStore } from '../stores/authStore';
 import { useFoodLogStore } from '../stores/foodLogStore';
+import { EXTRA_NUTRIENTS, NutrientKey, NutrientMap, cleanNutrients } from '../utils/nutrients';
+import { FoodServing, MAX_FOOD_SERVINGS } from '../utils/servings';
+
+// Headings for the optional nutrient groups
+const NUTRIENT_GROUP_LABELS: Record<string, string> = {
+  fats: 'Fats',
+  minerals: 'Minerals',
+  vitamins: 'Vitamins'
+};
 
 const CreateFood: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { id } = useParams<{ id: string }>();
-  const { createCustomFood, selectedFood, isLoading, error } = useFoodLogStore();
+  const isEdit = Boolean(id);
+  const { user } = useAuthStore();
+  const {
+    createCustomFood,
+    updateCustomFood,
+    deleteCustomFood,
+    getFoodById,
+    selectedFood,
+    error
+  } = useFoodLogStore();
+  
+  // Prefill the barcode when coming from an unrecognized scan
+  const queryParams = new URLSearchParams(location.search);
   
   const [foodData, setFoodData] = useState({
     name: '',
     brand: '',
+    barcode: queryParams.get('barcode') || '',
     servingSizeUnit: 'g',
     servingSize: 100,
     calories: 0,
@@ -26,19 +55,77 @@ const CreateFood: React.FC = () => {
     sodium: 0
   });
   
+  const [nutrients, setNutrients] = useState<NutrientMap>({});
+  const [servings, setServings] = useState<FoodServing[]>([]);
+  const [showMoreNutrients, setShowMoreNutrients] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isFoodLoaded, setIsFoodLoaded] = useState(false);
+  
+  // Load the food when editing
+  useEffect(() => {
+    if (!id) return;
+    
+    setIsFoodLoaded(false);
+    getFoodById(id).then(() => setIsFoodLoaded(true));
+  }, [id, getFoodById]);
+  
+  // Only the user's own custom foods can be edited; public and external foods are read-only
+  const editableFood = selectedFood && selectedFood.id === id &&
+    selectedFood.source === 'firestore' && selectedFood.userId === user?.uid
+    ? selectedFood
+    : null;
+    
+  // Fill in the form once the food has loaded
+  useEffect(() => {
+    if (!editableFood) return;
+    
+    setFoodData({
+      name: editableFood.name,
+      brand: editableFood.brand || '',
+      barcode: editableFood.barcode || '',
+      servingSizeUnit: editableFood.servingSizeUnit,
+      servingSize: editableFood.servingSize,
+      calories: editableFood.calories,
+      protein: editableFood.protein,
+      carbs: editableFood.carbs,
+      fat: editableFood.fat,
+      fiber: editableFood.fiber || 0,
+      sugar: editableFood.sugar || 0,
+      sodium: editableFood.sodium || 0
+    });
+    setNutrients(editableFood.nutrients || {});
+    setServings(editableFood.servings || []);
+    setShowMoreNutrients(Object.keys(editableFood.nutrients || {}).length > 0);
+  }, [editableFood]);
   
   // Handle form input changes
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFoodData(prev => ({
       ...prev,
-      [name]: name === 'name' || name === 'brand' || name === 'servingSizeUnit' 
+      [name]: name === 'name' || name === 'brand' || name === 'barcode' || name === 'servingSizeUnit' 
         ? value 
         : parseFloat(value) || 0
     }));
   };
   
+  // Handle changes to the optional nutrient fields (blank means unknown)
+  const handleNutrientChange = (key: NutrientKey, value: string) => {
+    setNutrients(prev => ({
+      ...prev,
+      [key]: value === '' ? undefined : parseFloat(value) || 0
+    }));
+  };
+  
+  // Handle changes to the other servings ("1 slice = 28 g")
+  const handleServingChange = (index: number, field: keyof FoodServing, value: string) => {
+    setServings(prev => prev.map((serving, i) => (i === index
+      ? { ...serving, [field]: field === 'amount' ? parseFloat(value) || 0 : value }
+      : serving
+    )));
+  };
+  
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -50,17 +137,73 @@ const CreateFood: React.FC = () => {
     setIsSubmitting(true);
     
     try {
-      const foodId = await createCustomFood(foodData);
+      // Only store the barcode when one was entered (Firestore rejects undefined fields)
+      const { barcode, ...food } = foodData;
+      const barcodeDigits = barcode.replace(/\D/g, '');
+      const newFood = {
+        ...food,
+        nutrients: cleanNutrients(nutrients),
+        servings: servings
+          .map(serving => ({ ...serving, name: serving.name.trim() }))
+          .filter(serving => serving.name && serving.amount > 0)
+      };
+      const customFood = barcodeDigits ? { ...newFood, barcode: barcodeDigits } : newFood;
+      
+      if (id) {
+        await updateCustomFood(id, customFood);
+        
+        if (!useFoodLogStore.getState().error) {
+          navigate(`/food/${id}`, { replace: true });
+        }
+        return;
+      }
+      
+      const foodId = await createCustomFood(customFood);
       if (foodId) {
         navigate(`/food/${foodId}`);
       }
     } catch (error) {
-      console.error('Error creating food:', error);
+      console.error('Error saving food:', error);
     } finally {
       setIsSubmitting(false);
     }
   };
   
+  const handleDelete = async () => {
+    if (!id) return;
+    
+    await deleteCustomFood(id);
+    setShowDeleteConfirm(false);
+    
+    if (!useFoodLogStore.getState().error) {
+      navigate('/food-search');
+    }
+  };
+  
+  if (isEdit && !isFoodLoaded) {
+    return (
+      <div className="container mx-auto px-4 py-6 max-w-lg flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+      </div>
+    );
+  }
+  
+  if (isEdit && !editableFood) {
+    return (
+      <div className="container mx-auto px-4 py-6 max-w-lg">
+        <div className="text-center py-8">
+          <p className="text-gray-500">{error || 'Only your own custom foods can be edited'}</p>
+          <button
+            onClick={() => navigate(-1)}
+            className="mt-4 px-4 py-2 bg-primary-500 text-white rounded-lg"
+          >
+            Go Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+  
   return (
     <div className="container mx-auto px-4 py-6 max-w-lg">
       <div className="flex items-center mb-6">
@@ -70,7 +213,7 @@ const CreateFood: React.FC = () => {
         >
           <FiArrowLeft size={24} className="text-gray-600" />
         </button>
-        <h1 className="text-2xl font-bold text-gray-800">Create Custom Food</h1>
+        <h1 className="text-2xl font-bold text-gray-800">{isEdit ? 'Edit Custom Food' : 'Create Custom Food'}</h1>
       </div>
       
       {error && (
@@ -114,6 +257,22 @@ const CreateFood: React.FC = () => {
             />
           </div>
           
+          <div>
+            <label htmlFor="barcode" className="block text-sm font-medium text-gray-700 mb-1">
+              Barcode (optional)
+            </label>
+            <input
+              type="text"
+              id="barcode"
+              name="barcode"
+              inputMode="numeric"
+              value={foodData.barcode}
+              onChange={handleChange}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+              placeholder="e.g. 737628064502"
+            />
+          </div>
+          
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label htmlFor="servingSize" className="block text-sm font-medium text-gray-700 mb-1">
@@ -156,6 +315,62 @@ const CreateFood: React.FC = () => {
             </div>
           </div>
           
+          {/* Other ways to measure the food, e.g. 1 slice = 28 g */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="block text-sm font-medium text-gray-700">
+                Other Servings (optional)
+              </span>
+              {servings.length < MAX_FOOD_SERVINGS && (
+                <button
+                  type="button"
+                  onClick={() => setServings(prev => [...prev, { name: '', amount: 0, unit: 'g' }])}
+                  className="text-sm text-primary-600 flex items-center"
+                >
+                  <FiPlus className="mr-1" /> Add
+                </button>
+              )}
+            </div>
+            {servings.map((serving, index) => (
+              <div key={index} className="flex items-center space-x-2 mt-2">
+                <span className="text-gray-600">1</span>
+                <input
+                  type="text"
+                  value={serving.name}
+                  onChange={(e) => handleServingChange(index, 'name', e.target.value)}
+                  className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+                  placeholder="e.g. slice"
+                />
+                <span className="text-gray-600">=</span>
+                <input
+                  type="number"
+                  value={serving.amount || ''}
+                  onChange={(e) => handleServingChange(index, 'amount', e.target.value)}
+                  min="0"
+                  step="any"
+                  className="w-20 border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+                <select
+                  value={serving.unit}
+                  onChange={(e) => handleServingChange(index, 'unit', e.target.value)}
+                  className="border border-gray-300 rounded-lg px-2 py-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="g">g</option>
+                  <option value="oz">oz</option>
+                  <option value="ml">ml</option>
+                  <option value="fl oz">fl oz</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setServings(prev => prev.filter((_, i) => i !== index))}
+                  className="p-1 text-gray-400 hover:text-red-500"
+                >
+                  <FiX />
+                </button>
+              </div>
+            ))}
+          </div>
+          
           <div className="pt-4 border-t border-gray-200">
             <h3 className="font-medium mb-3">Nutrition Facts (per serving)</h3>
             
@@ -278,36 +493,83 @@ const CreateFood: React.FC = () => {
                 />
               </div>
             </div>
-          </div>
-          
-          <div className="flex justify-end pt-4">
+            
+            {/* Optional vitamins, minerals and fat breakdown */}
             <button
               type="button"
-              onClick={() => navigate(-1)}
-              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 mr-2"
+              onClick={() => setShowMoreNutrients(prev => !prev)}
+              className="mt-4 text-sm text-primary-600 flex items-center"
             >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={isSubmitting || !foodData.name}
-              className={`px-4 py-2 rounded-lg flex items-center ${
-                isSubmitting || !foodData.name
-                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                  : 'bg-primary-500 text-white hover:bg-primary-600'
-              }`}
-            >
-              {isSubmitting ? (
-                <>
-                  <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-t-transparent rounded-full"></div>
-                  Saving...
-                </>
-              ) : (
-                <>
-                  <FiSave className="mr-2" /> Save Food
-                </>
-              )}
+              {showMoreNutrients ? <FiChevronUp className="mr-1" /> : <FiChevronDown className="mr-1" />}
+              {showMoreNutrients ? 'Hide' : 'Add'} vitamins, minerals and more
             </button>
+            
+            {showMoreNutrients && Object.keys(NUTRIENT_GROUP_LABELS).map(group => (
+              <div key={group} className="mt-4">
+                <h4 className="text-sm font-medium text-gray-600 mb-2">{NUTRIENT_GROUP_LABELS[group]}</h4>
+                <div className="grid grid-cols-3 gap-4">
+                  {EXTRA_NUTRIENTS.filter(nutrient => nutrient.group === group).map(nutrient => (
+                    <div key={nutrient.key}>
+                      <label htmlFor={nutrient.key} className="block text-sm font-medium text-gray-700 mb-1">
+                        {nutrient.label} ({nutrient.unit})
+                      </label>
+                      <input
+                        type="number"
+                        id={nutrient.key}
+                        value={nutrients[nutrient.key] ?? ''}
+                        onChange={(e) => handleNutrientChange(nutrient.key, e.target.value)}
+                        min="0"
+                        step="any"
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          
+          <div className="flex justify-between pt-4">
+            {isEdit ? (
+              <button
+                type="button"
+                onClick={() => setShowDeleteConfirm(true)}
+                className="px-4 py-2 border border-red-500 text-red-500 rounded-lg flex items-center"
+              >
+                <FiTrash2 className="mr-2" /> Delete
+              </button>
+            ) : (
+              <div></div>
+            )}
+            <div className="flex">
+              <button
+                type="button"
+                onClick={() => navigate(-1)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 mr-2"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !foodData.name}
+                className={`px-4 py-2 rounded-lg flex items-center ${
+                  isSubmitting || !foodData.name
+                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    : 'bg-primary-500 text-white hover:bg-primary-600'
+                }`}
+              >
+                {isSubmitting ? (
+                  <>
+                    <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-t-transparent rounded-full"></div>
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <FiSave className="mr-2" /> Save Food
+                  </>
+                )}
+              </button>
+            </div>
           </div>
         </div>
       </form>
@@ -315,7 +577,36 @@ const CreateFood: React.FC = () => {
       <div className="text-center text-sm text-gray-500 mt-6">
         <p>* Required fields</p>
         <p className="mt-1">Custom foods are only visible to your account</p>
+        {isEdit && (
+          <p className="mt-1">Changes apply to future logs; meals already logged keep their nutrition</p>
+        )}
       </div>
+      
+      {/* Delete confirmation modal */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-sm mx-4">
+            <h3 className="text-lg font-medium mb-4">Confirm Deletion</h3>
+            <p className="mb-6">
+              Are you sure you want to delete this food? Meals it was already logged to are not affected.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setShowDeleteConfirm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
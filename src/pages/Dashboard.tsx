@@ -7,12 +7,17 @@ import {
   FiAward, 
   FiTrendingUp, 
   FiCalendar, 
-  FiCheckCircle 
+  FiCheckCircle,
+  FiCloudSnow
 } from 'react-icons/fi';
 import { format } from 'date-fns';
 import { useAuthStore } from '../stores/authStore';
 import { useFoodLogStore } from '../stores/foodLogStore';
 import { useGamificationStore } from '../stores/gamificationStore';
+import { getDayTargetsLabel, getTargetsForDay } from '../utils/nutritionTargets';
+import { getFrozenDaysInStreak } from '../utils/gamification';
+import { getToday, getUserTimeZone, logDayToDate, toLogDay } from '../utils/logDay';
+import { getMealSlotName, getMealSlots } from '../utils/mealSlots';
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
@@ -31,18 +36,24 @@ const Dashboard: React.FC = () => {
 
   const [recentAchievements, setRecentAchievements] = useState<any[]>([]);
   const [streakMessage, setStreakMessage] = useState('');
+  const [freezeMessage, setFreezeMessage] = useState('');
+  
+  const timeZone = getUserTimeZone(profile);
+  const today = toLogDay(new Date(), timeZone);
+  const targets = getTargetsForDay(profile, today);
+  const targetsLabel = getDayTargetsLabel(profile, today);
   
   // Fetch initial data
   useEffect(() => {
     const loadData = async () => {
       // Fetch today's meals
-      await fetchMealsForDate(new Date());
+      await fetchMealsForDate(getToday(timeZone));
       // Fetch gamification profile
       await fetchProfile();
     };
     
     loadData();
-  }, [fetchMealsForDate, fetchProfile]);
+  }, [fetchMealsForDate, fetchProfile, timeZone]);
   
   // Update recent achievements and streak message
   useEffect(() => {
@@ -66,6 +77,16 @@ const Dashboard: React.FC = () => {
       } else {
         setStreakMessage(`${gamificationProfile.streakDays} day streak! 🔥`);
       }
+      
+      // Let the user know when a freeze kept the streak going
+      const frozenDays = getFrozenDaysInStreak(gamificationProfile);
+      
+      if (frozenDays.length > 0) {
+        const lastFrozen = format(logDayToDate(frozenDays[frozenDays.length - 1]), 'EEE, MMM d');
+        setFreezeMessage(`Streak freeze used for ${lastFrozen}`);
+      } else {
+        setFreezeMessage('');
+      }
     }
   }, [gamificationProfile]);
   
@@ -73,11 +94,11 @@ const Dashboard: React.FC = () => {
   const calculateProgress = (macro: 'calories' | 'protein' | 'carbs' | 'fat') => {
     if (!profile) return 0;
     
-    const targets = {
-      calories: profile.calorieTarget || 2000,
-      protein: profile.proteinTarget || 120,
-      carbs: profile.carbTarget || 200,
-      fat: profile.fatTarget || 65
+    const macroTargets = {
+      calories: targets.calorieTarget,
+      protein: targets.proteinTarget,
+      carbs: targets.carbTarget,
+      fat: targets.fatTarget
     };
     
     const consumed = {
@@ -87,7 +108,7 @@ const Dashboard: React.FC = () => {
       fat: dailyTotals.fat
     };
     
-    const percentage = Math.min(Math.round((consumed[macro] / targets[macro]) * 100), 100);
+    const percentage = Math.min(Math.round((consumed[macro] / macroTargets[macro]) * 100), 100);
     return percentage;
   };
   
@@ -96,7 +117,7 @@ const Dashboard: React.FC = () => {
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-800">Dashboard</h1>
         <div className="text-sm text-gray-600">
-          {format(new Date(), 'EEEE, MMMM d')}
+          {format(getToday(timeZone), 'EEEE, MMMM d')}
         </div>
       </div>
       
@@ -120,6 +141,12 @@ const Dashboard: React.FC = () => {
               <span>{streakMessage}</span>
             </div>
           </div>
+          {freezeMessage && (
+            <div className="flex items-center justify-end text-xs text-blue-600 mt-2">
+              <FiCloudSnow className="mr-1" />
+              <span>{freezeMessage}</span>
+            </div>
+          )}
         </div>
       )}
       
@@ -127,7 +154,14 @@ const Dashboard: React.FC = () => {
       {profile && (
         <div className="bg-white rounded-lg shadow p-5 mb-6">
           <div className="flex justify-between items-center mb-4">
-            <h2 className="text-lg font-medium">Today's Progress</h2>
+            <h2 className="text-lg font-medium">
+              Today's Progress
+              {targetsLabel && (
+                <span className="ml-2 px-2 py-0.5 rounded-full bg-primary-50 text-primary-700 text-xs font-normal">
+                  {targetsLabel}
+                </span>
+              )}
+            </h2>
             <button
               onClick={() => navigate('/food-log')}
               className="text-primary-600 text-sm"
@@ -141,7 +175,7 @@ const Dashboard: React.FC = () => {
             <div>
               <div className="flex justify-between text-sm mb-1">
                 <span>Calories</span>
-                <span>{dailyTotals.calories} / {profile.calorieTarget || 2000} kcal</span>
+                <span>{dailyTotals.calories} / {targets.calorieTarget} kcal</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2.5">
                 <div 
@@ -243,7 +277,7 @@ const Dashboard: React.FC = () => {
                 className="flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0"
               >
                 <div>
-                  <div className="font-medium capitalize">{meal.mealType}</div>
+                  <div className="font-medium">{getMealSlotName(getMealSlots(profile), meal.mealType)}</div>
                   <div className="text-xs text-gray-500">
                     {meal.foodItems.length} {meal.foodItems.length === 1 ? 'item' : 'items'}
                   </div>
@@ -1,29 +1,44 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
 import {
   FiArrowLeft,
   FiCheck,
   FiEdit,
   FiTrash2,
   FiPlus,
-  FiMinus
+  FiMinus,
+  FiStar
 } from 'react-icons/fi';
+import { useAuthStore } from '../stores/authStore';
 import { useFoodLogStore } from '../stores/foodLogStore';
-import { useGamificationStore } from '../stores/gamificationStore';
+import { useMealPlanStore } from '../stores/mealPlanStore';
+import { EXTRA_NUTRIENTS, NutrientDefinition, getDailyValuePercent, scaleNutrients } from '../utils/nutrients';
+import { getToday, getUserTimeZone, getZonedTime, isLogDay, logDayToDate } from '../utils/logDay';
+import { getMealSlotAt, getMealSlotName, getMealSlots } from '../utils/mealSlots';
+import { isFavoriteFood, toggleFavoriteFood } from '../utils/recentFoods';
+import { BASE_SERVING_ID, getServingOptions } from '../utils/servings';
+
+// Keep converted amounts readable, e.g. 3.53 oz
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
 
 const FoodDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const location = useLocation();
   const navigate = useNavigate();
+  const { profile, updateProfile } = useAuthStore();
   const { 
     getFoodById, 
     selectedFood, 
+    meals,
     isLoading, 
     error, 
     addFoodItem,
-    updateFoodItem
+    updateFoodItem,
+    deleteFoodItem,
+    getOrCreateMeal
   } = useFoodLogStore();
-  const { updateAchievementProgress } = useGamificationStore();
+  const { addPlannedItem } = useMealPlanStore();
   
   // Parse query parameters
   const queryParams = new URLSearchParams(location.search);
@@ -31,12 +46,23 @@ const FoodDetail: React.FC = () => {
   const isEdit = queryParams.get('edit') === 'true';
   const mealId = queryParams.get('mealId') || '';
   const itemId = queryParams.get('itemId') || '';
+  // Set when adding to the meal plan for a future day instead of the log
+  const planDay = isLogDay(queryParams.get('planDay')) ? queryParams.get('planDay') as string : '';
   
-  // State for serving quantity
-  const [servingQty, setServingQty] = useState(1);
+  // State for the amount, in the chosen serving or unit
+  const [quantity, setQuantity] = useState(1);
+  const [servingOptionId, setServingOptionId] = useState(BASE_SERVING_ID);
   const [hasChanges, setHasChanges] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   
+  const mealSlots = getMealSlots(profile);
+  const timeZone = getUserTimeZone(profile);
+  
+  // The meal the user came from, or else the one for the time of day
+  const [targetMealType, setTargetMealType] = useState(() =>
+    mealType || getMealSlotAt(mealSlots, getZonedTime(new Date(), timeZone))?.id || mealSlots[0].id
+  );
+  
   // Fetch food data
   useEffect(() => {
     if (id) {
@@ -44,21 +70,49 @@ const FoodDetail: React.FC = () => {
     }
   }, [id, getFoodById]);
   
+  // Servings, weights or volumes the amount can be entered in
+  const servingOptions = selectedFood ? getServingOptions(selectedFood) : [];
+  const servingOption = servingOptions.find(option => option.id === servingOptionId) || servingOptions[0];
+  
+  // Base servings of the food, which nutrition is scaled by
+  const servingQty = quantity * (servingOption?.servings ?? 1);
+  
+  // When editing a logged item, start from the amount it was logged with
+  const editedItem = isEdit
+    ? meals.find(meal => meal.id === mealId)?.foodItems.find(item => item.id === itemId)
+    : undefined;
+    
+  useEffect(() => {
+    if (!editedItem || !selectedFood || hasChanges) return;
+    
+    const option = getServingOptions(selectedFood).find(o => o.id === editedItem.servingUnit);
+    
+    setServingOptionId(option ? option.id : BASE_SERVING_ID);
+    setQuantity(roundAmount(editedItem.servingQty / (option ? option.servings : 1)));
+  }, [editedItem, selectedFood, hasChanges]);
+  
   // Handle quantity changes
   const incrementQty = () => {
-    setServingQty(prev => {
-      const newVal = Math.min(prev + 0.5, 10);
-      setHasChanges(true);
-      return newVal;
-    });
+    const step = servingOption?.step ?? 0.5;
+    setQuantity(prev => roundAmount(prev + step));
+    setHasChanges(true);
   };
   
   const decrementQty = () => {
-    setServingQty(prev => {
-      const newVal = Math.max(prev - 0.5, 0.5);
-      setHasChanges(true);
-      return newVal;
-    });
+    const step = servingOption?.step ?? 0.5;
+    setQuantity(prev => roundAmount(Math.max(prev - step, step)));
+    setHasChanges(true);
+  };
+  
+  // Switching units keeps the same amount of food, e.g. 1 serving becomes 100 g
+  const handleServingOptionChange = (optionId: string) => {
+    const option = servingOptions.find(o => o.id === optionId);
+    
+    if (!option) return;
+    
+    setQuantity(roundAmount(servingQty / option.servings));
+    setServingOptionId(optionId);
+    setHasChanges(true);
   };
   
   // Calculate nutrition values based on serving quantity
@@ -66,45 +120,71 @@ const FoodDetail: React.FC = () => {
     return Math.round((value * servingQty) * 10) / 10;
   };
   
+  // Render the rows for extra nutrients in one group that the food has values for
+  const renderNutrientRows = (group: NutrientDefinition['group'], indent: boolean) => {
+    if (!selectedFood?.nutrients) return null;
+    
+    return EXTRA_NUTRIENTS
+      .filter(nutrient => nutrient.group === group && selectedFood.nutrients?.[nutrient.key] !== undefined)
+      .map(nutrient => {
+        const amount = scaleNutrients(selectedFood.nutrients, servingQty)[nutrient.key] as number;
+        const dailyValuePercent = getDailyValuePercent(nutrient.key, amount);
+        
+        return (
+          <div key={nutrient.key} className="flex justify-between py-1 border-b border-gray-100">
+            <span className={indent ? 'pl-4 text-gray-600' : ''}>{nutrient.label}</span>
+            <span>
+              {amount}{nutrient.unit}
+              {dailyValuePercent !== null && (
+                <span className="ml-2 text-xs text-gray-500">{dailyValuePercent}% DV</span>
+              )}
+            </span>
+          </div>
+        );
+      });
+  };
+  
   // Handle adding to meal
   const handleAddToMeal = async () => {
-    if (!selectedFood || !mealType) return;
+    if (!selectedFood) return;
     
     try {
-      // Find the meal ID for this meal type
-      // In a real implementation, you would need to get the actual meal ID
-      const mealIdToUse = mealId || 'default-meal-id';
-      
       // Prepare food item
       const foodItem = {
         foodId: selectedFood.id,
         name: selectedFood.name,
-        servingSize: `${servingQty} ${selectedFood.servingSizeUnit}`,
+        servingSize: `${quantity} ${servingOption.name}`,
         servingSizeUnit: selectedFood.servingSizeUnit,
-        servingQty: servingQty,
+        servingQty: Math.round(servingQty * 10000) / 10000,
+        servingUnit: servingOption.id,
         calories: calculateNutrition(selectedFood.calories),
         protein: calculateNutrition(selectedFood.protein),
         carbs: calculateNutrition(selectedFood.carbs),
         fat: calculateNutrition(selectedFood.fat),
         fiber: selectedFood.fiber ? calculateNutrition(selectedFood.fiber) : undefined,
         sugar: selectedFood.sugar ? calculateNutrition(selectedFood.sugar) : undefined,
-        sodium: selectedFood.sodium ? calculateNutrition(selectedFood.sodium) : undefined
+        sodium: selectedFood.sodium ? calculateNutrition(selectedFood.sodium) : undefined,
+        nutrients: scaleNutrients(selectedFood.nutrients, servingQty),
+        barcode: selectedFood.barcode
       };
       
       if (isEdit && itemId) {
         // Update existing food item
         await updateFoodItem(mealId, itemId, foodItem);
+      } else if (planDay) {
+        await addPlannedItem(planDay, targetMealType, foodItem);
+        
+        // Back to the planner on the planned day
+        navigate(`/planner?day=${planDay}`);
+        return;
       } else {
-        // Add new food item
-        await addFoodItem(mealIdToUse, foodItem);
+        // Add to the day open in the food log, or today
+        const date = meals.length > 0 ? meals[0].date : getToday(timeZone);
+        const targetMealId = await getOrCreateMeal(date, targetMealType);
         
-        // Update achievement progress
-        updateAchievementProgress('first-log', 1);
+        if (!targetMealId) return;
         
-        // Update barcode scan achievement if item has barcode
-        if (selectedFood.barcode) {
-          updateAchievementProgress('scan-10', 1);
-        }
+        await addFoodItem(targetMealId, foodItem);
       }
       
       // Navigate back to food log
@@ -115,11 +195,28 @@ const FoodDetail: React.FC = () => {
     }
   };
   
+  // Star or unstar the food for quick access from search
+  const isFavorite = !!selectedFood && isFavoriteFood(profile?.favoriteFoods, selectedFood.id);
+  
+  const toggleFavorite = () => {
+    if (!selectedFood) return;
+    
+    updateProfile({
+      favoriteFoods: toggleFavoriteFood(profile?.favoriteFoods, {
+        foodId: selectedFood.id,
+        name: selectedFood.name,
+        ...(selectedFood.brand ? { brand: selectedFood.brand } : {}),
+        calories: selectedFood.calories,
+        servingSizeUnit: selectedFood.servingSizeUnit
+      })
+    });
+  };
+  
   // Handle quantity input change
   const handleQtyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
-    if (!isNaN(value) && value >= 0.5 && value <= 10) {
-      setServingQty(value);
+    if (!isNaN(value) && value > 0) {
+      setQuantity(value);
       setHasChanges(true);
     }
   };
@@ -174,9 +271,15 @@ const FoodDetail: React.FC = () => {
           <FiArrowLeft size={24} className="text-gray-600" />
         </button>
         <h1 className="text-xl font-bold text-gray-800 flex-1 text-center">
-          {isEdit ? 'Edit Food' : 'Food Details'}
+          {isEdit ? 'Edit Food' : planDay ? `Plan for ${format(logDayToDate(planDay), 'EEE, MMM d')}` : 'Food Details'}
         </h1>
-        <div className="w-10"></div> {/* Spacer for centering */}
+        <button
+          onClick={toggleFavorite}
+          className="p-2 rounded-full hover:bg-gray-100"
+          title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+        >
+          <FiStar size={22} className={isFavorite ? 'text-yellow-500 fill-current' : 'text-gray-400'} />
+        </button>
       </div>
       
       {/* Food details card */}
@@ -186,6 +289,11 @@ const FoodDetail: React.FC = () => {
           {selectedFood.brand && (
             <p className="text-gray-600">{selectedFood.brand}</p>
           )}
+          {selectedFood.source === 'deleted' && (
+            <p className="text-sm text-gray-500 mt-1">
+              This food has been deleted. Showing the nutrition it was last logged with.
+            </p>
+          )}
         </div>
         
         {/* Serving size selector */}
@@ -202,12 +310,11 @@ const FoodDetail: React.FC = () => {
             </button>
             <input
               type="number"
-              value={servingQty}
+              value={quantity}
               onChange={handleQtyChange}
-              min="0.5"
-              max="10"
-              step="0.5"
-              className="w-14 text-center border-t border-b border-gray-300 py-1"
+              min="0"
+              step="any"
+              className="w-20 text-center border-t border-b border-gray-300 py-1"
             />
             <button
               onClick={incrementQty}
@@ -215,9 +322,15 @@ const FoodDetail: React.FC = () => {
             >
               <FiPlus />
             </button>
-            <span className="ml-2 text-gray-600">
-              {selectedFood.servingSizeUnit}
-            </span>
+            <select
+              value={servingOption.id}
+              onChange={(e) => handleServingOptionChange(e.target.value)}
+              className="ml-2 flex-1 min-w-0 border border-gray-300 rounded-lg px-2 py-1 text-gray-600"
+            >
+              {servingOptions.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
           </div>
         </div>
         
@@ -246,6 +359,8 @@ const FoodDetail: React.FC = () => {
               <span>{calculateNutrition(selectedFood.fat)}g</span>
             </div>
             
+            {renderNutrientRows('fats', true)}
+            
             {selectedFood.fiber !== undefined && (
               <div className="flex justify-between py-1 border-b border-gray-100">
                 <span className="pl-4 text-gray-600">Fiber</span>
@@ -266,10 +381,35 @@ const FoodDetail: React.FC = () => {
                 <span>{calculateNutrition(selectedFood.sodium)}mg</span>
               </div>
             )}
+            
+            {renderNutrientRows('minerals', false)}
+            {renderNutrientRows('vitamins', false)}
           </div>
         </div>
       </div>
       
+      {/* Meal to add to */}
+      {!isEdit && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {planDay ? 'Plan for' : 'Add to'}
+          </label>
+          <select
+            value={targetMealType}
+            onChange={(e) => setTargetMealType(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            {mealSlots.map(slot => (
+              <option key={slot.id} value={slot.id}>{slot.name}</option>
+            ))}
+            {/* A meal from a slot that has since been removed */}
+            {!mealSlots.some(slot => slot.id === targetMealType) && (
+              <option value={targetMealType}>{getMealSlotName(mealSlots, targetMealType)}</option>
+            )}
+          </select>
+        </div>
+      )}
+      
       {/* Action buttons */}
       <div className="flex space-x-4">
         {isEdit ? (
@@ -296,17 +436,21 @@ const FoodDetail: React.FC = () => {
           <>
             {selectedFood.isUserCreated && (
               <button
-                onClick={() => navigate(`/food/edit/${selectedFood.id}`)}
+                onClick={() => navigate(
+                  selectedFood.source === 'recipe'
+                    ? `/recipes/edit/${selectedFood.id.replace(/^recipe:/, '')}`
+                    : `/food/edit/${selectedFood.id}`
+                )}
                 className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg flex items-center justify-center"
               >
-                <FiEdit className="mr-2" /> Edit Food
+                <FiEdit className="mr-2" /> {selectedFood.source === 'recipe' ? 'Edit Recipe' : 'Edit Food'}
               </button>
             )}
             <button
               onClick={handleAddToMeal}
               className="flex-1 px-4 py-3 bg-primary-500 text-white rounded-lg flex items-center justify-center"
             >
-              <FiPlus className="mr-2" /> Add to {mealType ? mealType.charAt(0).toUpperCase() + mealType.slice(1) : 'Meal'}
+              <FiPlus className="mr-2" /> {planDay ? 'Plan for' : 'Add to'} {getMealSlotName(mealSlots, targetMealType)}
             </button>
           </>
         )}
@@ -318,7 +462,7 @@ const FoodDetail: React.FC = () => {
           <div className="bg-white rounded-lg p-6 max-w-sm mx-4">
             <h3 className="text-lg font-medium mb-4">Confirm Deletion</h3>
             <p className="mb-6">
-              Are you sure you want to delete this food item? This action cannot be undone.
+              Are you sure you want to remove this food from your meal? This action cannot be undone.
             </p>
             <div className="flex justify-end space-x-3">
               <button
@@ -328,8 +472,8 @@ const FoodDetail: React.FC = () => {
                 Cancel
               </button>
               <button
-                onClick={() => {
-                  // Handle deletion
+                onClick={async () => {
+                  await deleteFoodItem(itemId);
                   navigate('/food-log');
                 }}
                 className="px-4 py-2 bg-red-600 text-white rounded-lg"
@@ -5,12 +5,26 @@ import {
   FiTrash2, 
   FiEdit2, 
   FiBarChart2, 
-  FiCalendar
+  FiCalendar,
+  FiCopy,
+  FiChevronDown,
+  FiChevronUp,
+  FiSliders,
+  FiCheck,
+  FiClipboard,
+  FiZap
 } from 'react-icons/fi';
 import { format, subDays, addDays, parseISO } from 'date-fns';
 import { useAuthStore } from '../stores/authStore';
-import { useFoodLogStore } from '../stores/foodLogStore';
-import { useGamificationStore } from '../stores/gamificationStore';
+import { FoodItem, useFoodLogStore } from '../stores/foodLogStore';
+import { useMealPlanStore } from '../stores/mealPlanStore';
+import { getDayTargetsLabel, getTargetsForDay } from '../utils/nutritionTargets';
+import { getToday, getUserTimeZone, toDayKey } from '../utils/logDay';
+import { getMealSlotName, getMealSlots } from '../utils/mealSlots';
+import { NUTRIENTS, getDailyValuePercent } from '../utils/nutrients';
+import { isQuickAddItem } from '../utils/quickAdd';
+import DayTargetsModal from '../components/DayTargetsModal';
+import QuickAddModal from '../components/QuickAddModal';
 
 const FoodLog: React.FC = () => {
   const navigate = useNavigate();
@@ -20,14 +34,33 @@ const FoodLog: React.FC = () => {
     fetchMealsForDate, 
     deleteMeal, 
     deleteFoodItem, 
+    copyMeal,
+    copyDay,
     dailyTotals 
   } = useFoodLogStore();
-  const { updateStreak, updateAchievementProgress } = useGamificationStore();
+  const { plannedItems, fetchPlannedItems, logPlannedItems } = useMealPlanStore();
   
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  const timeZone = getUserTimeZone(profile);
+  const mealSlots = getMealSlots(profile);
+  
+  const [selectedDate, setSelectedDate] = useState(() => getToday(timeZone));
   const [isLoading, setIsLoading] = useState(true);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<{ id: string, type: 'meal' | 'food' } | null>(null);
+  const [copySource, setCopySource] = useState<{ type: 'meal', mealId: string } | { type: 'day' } | null>(null);
+  const [copyDate, setCopyDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [copyMealType, setCopyMealType] = useState(mealSlots[0].id);
+  const [isCopying, setIsCopying] = useState(false);
+  const [showNutrients, setShowNutrients] = useState(false);
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const [showTargetsModal, setShowTargetsModal] = useState(false);
+  const [quickAddTarget, setQuickAddTarget] = useState<{ mealId: string, mealType: string, item?: FoodItem } | null>(null);
+  const [isLoggingPlanned, setIsLoggingPlanned] = useState(false);
+  
+  const selectedDay = toDayKey(selectedDate);
+  const targets = getTargetsForDay(profile, selectedDay);
+  const targetsLabel = getDayTargetsLabel(profile, selectedDay);
+  const dayPlannedItems = plannedItems.filter(item => item.logDay === selectedDay);
   
   // Fetch meals when date changes
   useEffect(() => {
@@ -40,13 +73,10 @@ const FoodLog: React.FC = () => {
     loadMeals();
   }, [fetchMealsForDate, selectedDate]);
   
-  // Update streak when component mounts (only if there are meals logged)
+  // Fetch anything planned for the day so it can be logged
   useEffect(() => {
-    if (meals.length > 0 && selectedDate.toDateString() === new Date().toDateString()) {
-      updateStreak();
-      updateAchievementProgress('first-log', 1);
-    }
-  }, [meals, selectedDate, updateStreak, updateAchievementProgress]);
+    fetchPlannedItems(selectedDay, selectedDay);
+  }, [fetchPlannedItems, selectedDay]);
   
   // Handle date navigation
   const changeDate = (direction: 'prev' | 'next') => {
@@ -78,15 +108,64 @@ const FoodLog: React.FC = () => {
     setItemToDelete(null);
   };
   
+  // Open the copy dialog for a single meal or the whole day
+  const openCopyModal = (source: { type: 'meal', mealId: string, mealType: string } | { type: 'day' }) => {
+    const today = getToday(timeZone);
+    const defaultDate = addDays(selectedDate, 1) > today ? today : addDays(selectedDate, 1);
+    
+    setCopySource(source.type === 'meal' ? { type: 'meal', mealId: source.mealId } : { type: 'day' });
+    setCopyDate(format(defaultDate, 'yyyy-MM-dd'));
+    setCopyError(null);
+    
+    if (source.type === 'meal') {
+      // Meals from a removed slot are copied into the first one
+      setCopyMealType(mealSlots.some(slot => slot.id === source.mealType) ? source.mealType : mealSlots[0].id);
+    }
+  };
+  
+  // Copy the selected meal or day and jump to the destination
+  const confirmCopy = async () => {
+    if (!copySource || !copyDate) return;
+    
+    const targetDate = parseISO(copyDate);
+    
+    setIsCopying(true);
+    
+    if (copySource.type === 'meal') {
+      await copyMeal(copySource.mealId, targetDate, copyMealType);
+    } else {
+      await copyDay(selectedDate, targetDate);
+    }
+    
+    setIsCopying(false);
+    
+    const { error } = useFoodLogStore.getState();
+    
+    if (error) {
+      setCopyError(error);
+      return;
+    }
+    
+    setCopySource(null);
+    setSelectedDate(targetDate);
+  };
+  
+  // Move planned food into the log
+  const logPlanned = async (itemIds: string[]) => {
+    setIsLoggingPlanned(true);
+    await logPlannedItems(itemIds);
+    setIsLoggingPlanned(false);
+  };
+  
   // Calculate progress percentages for macros
   const calculateProgress = (macro: 'calories' | 'protein' | 'carbs' | 'fat') => {
     if (!profile) return 0;
     
-    const targets = {
-      calories: profile.calorieTarget || 2000,
-      protein: profile.proteinTarget || 120,
-      carbs: profile.carbTarget || 200,
-      fat: profile.fatTarget || 65
+    const macroTargets = {
+      calories: targets.calorieTarget,
+      protein: targets.proteinTarget,
+      carbs: targets.carbTarget,
+      fat: targets.fatTarget
     };
     
     const consumed = {
@@ -96,7 +175,7 @@ const FoodLog: React.FC = () => {
       fat: dailyTotals.fat
     };
     
-    const percentage = Math.min(Math.round((consumed[macro] / targets[macro]) * 100), 100);
+    const percentage = Math.min(Math.round((consumed[macro] / macroTargets[macro]) * 100), 100);
     return percentage;
   };
   
@@ -129,7 +208,7 @@ const FoodLog: React.FC = () => {
         {meals.map(meal => (
           <div key={meal.id} className="bg-white rounded-lg shadow p-4">
             <div className="flex justify-between items-center mb-2">
-              <h3 className="font-medium text-lg capitalize">{meal.mealType}</h3>
+              <h3 className="font-medium text-lg">{getMealSlotName(mealSlots, meal.mealType)}</h3>
               <div className="flex space-x-2">
                 <button
                   onClick={() => navigateToSearch(meal.mealType)}
@@ -137,6 +216,22 @@ const FoodLog: React.FC = () => {
                 >
                   <FiPlus size={18} />
                 </button>
+                <button
+                  onClick={() => setQuickAddTarget({ mealId: meal.id, mealType: meal.mealType })}
+                  className="p-2 text-primary-600 hover:bg-primary-50 rounded-full"
+                  title="Quick add calories"
+                >
+                  <FiZap size={18} />
+                </button>
+                {meal.foodItems.length > 0 && (
+                  <button
+                    onClick={() => openCopyModal({ type: 'meal', mealId: meal.id, mealType: meal.mealType })}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-full"
+                    title="Copy meal to another day"
+                  >
+                    <FiCopy size={18} />
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     setItemToDelete({ id: meal.id, type: 'meal' });
@@ -162,12 +257,14 @@ const FoodLog: React.FC = () => {
                     <div>
                       <p className="font-medium">{food.name}</p>
                       <p className="text-sm text-gray-500">
-                        {food.servingSize} ({food.calories} kcal)
+                        {isQuickAddItem(food) ? 'Quick add' : food.servingSize} ({food.calories} kcal)
                       </p>
                     </div>
                     <div className="flex items-center space-x-1">
                       <button
-                        onClick={() => navigate(`/food/${food.foodId}?edit=true&mealId=${meal.id}&itemId=${food.id}`)}
+                        onClick={() => isQuickAddItem(food)
+                          ? setQuickAddTarget({ mealId: meal.id, mealType: meal.mealType, item: food })
+                          : navigate(`/food/${food.foodId}?edit=true&mealId=${meal.id}&itemId=${food.id}`)}
                         className="p-2 text-gray-600 hover:bg-gray-100 rounded-full"
                       >
                         <FiEdit2 size={16} />
@@ -217,7 +314,15 @@ const FoodLog: React.FC = () => {
   
   return (
     <div className="container mx-auto px-4 py-6 max-w-lg">
-      <h1 className="text-2xl font-bold text-gray-800 mb-6">Food Log</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Food Log</h1>
+        <button
+          onClick={() => navigate('/planner')}
+          className="flex items-center text-sm text-primary-600 hover:bg-primary-50 px-3 py-2 rounded-lg"
+        >
+          <FiClipboard className="mr-1" /> Plan Ahead
+        </button>
+      </div>
       
       {/* Date selector */}
       <div className="flex justify-between items-center mb-6 bg-white rounded-lg shadow p-3">
@@ -232,11 +337,20 @@ const FoodLog: React.FC = () => {
           <span className="font-medium">
             {format(selectedDate, 'EEEE, MMMM d, yyyy')}
           </span>
+          {meals.some(meal => meal.foodItems.length > 0) && (
+            <button
+              onClick={() => openCopyModal({ type: 'day' })}
+              className="ml-2 p-1 text-gray-600 hover:bg-gray-100 rounded-full"
+              title="Copy day to another date"
+            >
+              <FiCopy size={16} />
+            </button>
+          )}
         </div>
         <button
           onClick={() => changeDate('next')}
           className="p-2 text-gray-600 hover:bg-gray-100 rounded-full"
-          disabled={selectedDate >= new Date()}
+          disabled={selectedDate >= getToday(timeZone)}
         >
           &rarr;
         </button>
@@ -245,17 +359,27 @@ const FoodLog: React.FC = () => {
       {/* Nutrition summary */}
       {profile && (
         <div className="bg-white rounded-lg shadow p-4 mb-6">
-          <h2 className="text-lg font-medium mb-3 flex items-center">
-            <FiBarChart2 className="text-primary-500 mr-2" />
-            Daily Summary
-          </h2>
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-lg font-medium flex items-center">
+              <FiBarChart2 className="text-primary-500 mr-2" />
+              Daily Summary
+            </h2>
+            <button
+              onClick={() => setShowTargetsModal(true)}
+              className="flex items-center text-sm text-primary-600 hover:bg-primary-50 px-2 py-1 rounded-md"
+              title="Set targets for this day"
+            >
+              <FiSliders className="mr-1" size={14} />
+              {targetsLabel || 'Usual targets'}
+            </button>
+          </div>
           
           <div className="space-y-3">
             {/* Calories */}
             <div>
               <div className="flex justify-between text-sm mb-1">
                 <span>Calories</span>
-                <span>{dailyTotals.calories} / {profile.calorieTarget || 2000} kcal</span>
+                <span>{dailyTotals.calories} / {targets.calorieTarget} kcal</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2.5">
                 <div 
@@ -269,7 +393,7 @@ const FoodLog: React.FC = () => {
             <div>
               <div className="flex justify-between text-sm mb-1">
                 <span>Protein</span>
-                <span>{dailyTotals.protein} / {profile.proteinTarget || 120} g</span>
+                <span>{dailyTotals.protein} / {targets.proteinTarget} g</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2.5">
                 <div 
@@ -283,7 +407,7 @@ const FoodLog: React.FC = () => {
             <div>
               <div className="flex justify-between text-sm mb-1">
                 <span>Carbs</span>
-                <span>{dailyTotals.carbs} / {profile.carbTarget || 200} g</span>
+                <span>{dailyTotals.carbs} / {targets.carbTarget} g</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2.5">
                 <div 
@@ -297,7 +421,7 @@ const FoodLog: React.FC = () => {
             <div>
               <div className="flex justify-between text-sm mb-1">
                 <span>Fat</span>
-                <span>{dailyTotals.fat} / {profile.fatTarget || 65} g</span>
+                <span>{dailyTotals.fat} / {targets.fatTarget} g</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2.5">
                 <div 
@@ -308,6 +432,42 @@ const FoodLog: React.FC = () => {
             </div>
           </div>
           
+          {/* Fiber, vitamins, minerals etc. */}
+          {NUTRIENTS.some(nutrient => dailyTotals.nutrients[nutrient.key] !== undefined) && (
+            <div className="mt-4">
+              <button
+                onClick={() => setShowNutrients(prev => !prev)}
+                className="text-sm text-primary-600 flex items-center"
+              >
+                {showNutrients ? <FiChevronUp className="mr-1" /> : <FiChevronDown className="mr-1" />}
+                {showNutrients ? 'Hide' : 'Show'} other nutrients
+              </button>
+              
+              {showNutrients && (
+                <div className="mt-2 grid grid-cols-2 gap-x-4 text-sm">
+                  {NUTRIENTS
+                    .filter(nutrient => dailyTotals.nutrients[nutrient.key] !== undefined)
+                    .map(nutrient => {
+                      const amount = dailyTotals.nutrients[nutrient.key] as number;
+                      const dailyValuePercent = getDailyValuePercent(nutrient.key, amount);
+                      
+                      return (
+                        <div key={nutrient.key} className="flex justify-between py-1 border-b border-gray-100">
+                          <span className="text-gray-600">{nutrient.label}</span>
+                          <span>
+                            {amount}{nutrient.unit}
+                            {dailyValuePercent !== null && (
+                              <span className="ml-1 text-xs text-gray-500">({dailyValuePercent}%)</span>
+                            )}
+                          </span>
+                        </div>
+                      );
+                    })}
+                </div>
+              )}
+            </div>
+          )}
+          
           <div className="flex justify-between mt-4 text-sm text-gray-500">
             <div>
               <span className="inline-block w-3 h-3 bg-blue-500 rounded-full mr-1"></span>
@@ -325,9 +485,132 @@ const FoodLog: React.FC = () => {
         </div>
       )}
       
+      {/* Food planned for this day */}
+      {dayPlannedItems.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6 border-l-4 border-primary-300">
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="text-lg font-medium flex items-center">
+              <FiClipboard className="text-primary-500 mr-2" />
+              Planned
+            </h2>
+            <button
+              onClick={() => logPlanned(dayPlannedItems.map(item => item.id))}
+              disabled={isLoggingPlanned}
+              className="text-sm px-3 py-1 bg-primary-500 text-white rounded-lg disabled:opacity-50"
+            >
+              {isLoggingPlanned ? 'Logging...' : 'Log All'}
+            </button>
+          </div>
+          {dayPlannedItems.map(item => (
+            <div
+              key={item.id}
+              className="flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0"
+            >
+              <div>
+                <p className="font-medium">{item.name}</p>
+                <p className="text-sm text-gray-500">
+                  {getMealSlotName(mealSlots, item.mealType)} · {item.servingSize} ({item.calories} kcal)
+                </p>
+              </div>
+              <button
+                onClick={() => logPlanned([item.id])}
+                disabled={isLoggingPlanned}
+                className="p-2 text-green-600 hover:bg-green-50 rounded-full"
+                title="Log this food"
+              >
+                <FiCheck size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      
       {/* Meals list */}
       {renderMeals()}
       
+      {/* Copy meal / day modal */}
+      {copySource && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-sm w-full mx-4">
+            <h3 className="text-lg font-medium mb-4">
+              {copySource.type === 'meal' ? 'Copy Meal' : 'Copy Day'}
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {copySource.type === 'meal'
+                ? 'Add every item in this meal to another day.'
+                : `Add everything logged on ${format(selectedDate, 'MMMM d')} to another day, meal by meal.`}
+            </p>
+            
+            <div className="space-y-3 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Copy to
+                </label>
+                <input
+                  type="date"
+                  value={copyDate}
+                  onChange={(e) => setCopyDate(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md p-2"
+                />
+              </div>
+              
+              {copySource.type === 'meal' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Meal
+                  </label>
+                  <select
+                    value={copyMealType}
+                    onChange={(e) => setCopyMealType(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md p-2"
+                  >
+                    {mealSlots.map(slot => (
+                      <option key={slot.id} value={slot.id}>{slot.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            
+            {copyError && (
+              <p className="text-sm text-red-600 mb-4">{copyError}</p>
+            )}
+            
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setCopySource(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700"
+                disabled={isCopying}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmCopy}
+                className="px-4 py-2 bg-primary-500 text-white rounded-lg disabled:opacity-50"
+                disabled={isCopying || !copyDate}
+              >
+                {isCopying ? 'Copying...' : 'Copy'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Targets for the selected day */}
+      {showTargetsModal && (
+        <DayTargetsModal logDay={selectedDay} onClose={() => setShowTargetsModal(false)} />
+      )}
+      
+      {/* Calories and macros logged without a food */}
+      {quickAddTarget && (
+        <QuickAddModal
+          mealId={quickAddTarget.mealId}
+          mealName={getMealSlotName(mealSlots, quickAddTarget.mealType)}
+          item={quickAddTarget.item}
+          onClose={() => setQuickAddTarget(null)}
+        />
+      )}
+      
       {/* Delete confirmation modal */}
       {showDeleteModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
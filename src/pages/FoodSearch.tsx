@@ -4,23 +4,56 @@ import {
   FiSearch, 
   FiPlus, 
   FiArrowLeft, 
-  FiBarChart2, 
   FiCamera,
-  FiPackage
+  FiPackage,
+  FiBookOpen,
+  FiStar,
+  FiClock,
+  FiTrendingUp
 } from 'react-icons/fi';
-import { useFoodLogStore, FoodData } from '../stores/foodLogStore';
+import { useAuthStore } from '../stores/authStore';
+import { useFoodLogStore } from '../stores/foodLogStore';
+import { getMealSlotAt, getMealSlotName, getMealSlots } from '../utils/mealSlots';
+import { getUserTimeZone, getZonedTime } from '../utils/logDay';
+import { getFrequentFoods } from '../utils/recentFoods';
+import BarcodeScanner from '../components/BarcodeScanner';
 
 const FoodSearch: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { searchFood, searchResults, isLoading, error } = useFoodLogStore();
+  const { profile } = useAuthStore();
+  const {
+    searchFood,
+    findFoodByBarcode,
+    fetchRecentFoods,
+    searchResults,
+    recentFoods,
+    isLoading,
+    error
+  } = useFoodLogStore();
   
   const [searchQuery, setSearchQuery] = useState('');
   const [showScanner, setShowScanner] = useState(false);
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
   
-  // Parse meal type from URL query params if present
+  // Parse meal type (and the planned day when planning ahead) from URL query params if present
   const queryParams = new URLSearchParams(location.search);
   const mealType = queryParams.get('mealType') || '';
+  const planDay = queryParams.get('planDay') || '';
+  
+  const mealSlots = getMealSlots(profile);
+  // Frequent foods are for the meal being added to, or else the one for the time of day
+  const frequentMealType = mealType || getMealSlotAt(mealSlots, getZonedTime(new Date(), getUserTimeZone(profile)))?.id;
+  const frequentFoods = frequentMealType ? getFrequentFoods(recentFoods, frequentMealType) : [];
+  const favoriteFoods = profile?.favoriteFoods || [];
+  
+  // Recent, frequent and favorite foods show until the user searches
+  const showQuickPicks = searchQuery.trim().length < 2;
+  
+  // Load recently logged foods for the quick picks
+  useEffect(() => {
+    fetchRecentFoods();
+  }, [fetchRecentFoods]);
   
   // Handle search input
   const handleSearch = (e: React.FormEvent) => {
@@ -42,12 +75,12 @@ const FoodSearch: React.FC = () => {
   }, [searchQuery, searchFood]);
   
   // Handle food item selection
-  const handleSelectFood = (food: FoodData) => {
-    if (mealType) {
-      navigate(`/food/${food.id}?mealType=${mealType}`);
-    } else {
-      navigate(`/food/${food.id}`);
-    }
+  const handleSelectFood = (foodId: string) => {
+    const params = new URLSearchParams();
+    if (mealType) params.set('mealType', mealType);
+    if (planDay) params.set('planDay', planDay);
+    
+    navigate(params.toString() ? `/food/${foodId}?${params}` : `/food/${foodId}`);
   };
   
   // Toggle barcode scanner
@@ -56,10 +89,50 @@ const FoodSearch: React.FC = () => {
   };
   
   // Handle barcode scan result
-  const handleScanResult = (barcode: string) => {
-    // In a real implementation, this would search for the food by barcode
-    setSearchQuery(barcode);
+  const handleScanResult = async (barcode: string) => {
     setShowScanner(false);
+    setUnknownBarcode(null);
+    
+    const food = await findFoodByBarcode(barcode);
+    
+    if (food) {
+      handleSelectFood(food.id);
+    } else if (!useFoodLogStore.getState().error) {
+      setUnknownBarcode(barcode);
+    }
+  };
+  
+  // Render a short list of foods that open straight into the food details
+  const renderQuickPicks = (
+    title: string,
+    icon: React.ReactNode,
+    foods: Array<{ foodId: string; name: string; detail: string; calories: number }>
+  ) => {
+    if (foods.length === 0) return null;
+    
+    return (
+      <div>
+        <h2 className="text-lg font-medium mb-2 flex items-center">
+          {icon}
+          {title}
+        </h2>
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {foods.map(food => (
+            <div
+              key={food.foodId}
+              className="flex justify-between items-center p-3 cursor-pointer hover:bg-gray-50"
+              onClick={() => handleSelectFood(food.foodId)}
+            >
+              <div>
+                <p className="font-medium">{food.name}</p>
+                <p className="text-sm text-gray-500">{food.detail}</p>
+              </div>
+              <span className="text-primary-600 text-sm font-medium">{food.calories} kcal</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
   };
   
   return (
@@ -72,7 +145,9 @@ const FoodSearch: React.FC = () => {
           <FiArrowLeft size={24} className="text-gray-600" />
         </button>
         <h1 className="text-2xl font-bold text-gray-800">
-          {mealType ? `Add to ${mealType.charAt(0).toUpperCase() + mealType.slice(1)}` : 'Search Food'}
+          {mealType
+            ? `${planDay ? 'Plan for' : 'Add to'} ${getMealSlotName(mealSlots, mealType)}`
+            : 'Search Food'}
         </h1>
       </div>
       
@@ -101,47 +176,26 @@ const FoodSearch: React.FC = () => {
         </div>
       </form>
       
-      {/* Barcode scanner modal (simplified placeholder) */}
+      {/* Barcode scanner modal */}
       {showScanner && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
-          <div className="bg-white rounded-lg p-6 m-4 max-w-sm w-full">
-            <h3 className="text-lg font-medium mb-4">Scan Barcode</h3>
-            <div className="bg-gray-200 h-48 flex items-center justify-center mb-4 rounded">
-              <p className="text-gray-500">Camera view would go here</p>
-            </div>
-            
-            {/* Placeholder for demo/testing */}
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Enter barcode (for testing)
-              </label>
-              <input
-                type="text"
-                className="w-full border border-gray-300 rounded-md p-2"
-                placeholder="e.g. 737628064502"
-                onKeyPress={(e) => {
-                  if (e.key === 'Enter') {
-                    handleScanResult((e.target as HTMLInputElement).value);
-                  }
-                }}
-              />
-            </div>
-            
-            <div className="flex justify-end">
-              <button
-                onClick={() => setShowScanner(false)}
-                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 mr-2"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={() => handleScanResult('737628064502')}
-                className="px-4 py-2 bg-primary-500 text-white rounded-lg"
-              >
-                Test Scan
-              </button>
-            </div>
-          </div>
+        <BarcodeScanner
+          onDetected={handleScanResult}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
+      
+      {/* Scanned barcode not in the database */}
+      {unknownBarcode && !isLoading && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6 text-center">
+          <p className="text-gray-600 mb-3">
+            No food found for barcode <span className="font-medium">{unknownBarcode}</span>
+          </p>
+          <button
+            onClick={() => navigate(`/food/create?barcode=${unknownBarcode}`)}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg flex items-center mx-auto"
+          >
+            <FiPlus className="mr-2" /> Create Food With This Barcode
+          </button>
         </div>
       )}
       
@@ -159,7 +213,7 @@ const FoodSearch: React.FC = () => {
           </div>
         )}
         
-        {!isLoading && !error && searchQuery.length > 0 && searchResults.length === 0 && (
+        {!isLoading && !error && !showQuickPicks && searchResults.length === 0 && (
           <div className="text-center py-8">
             <p className="text-gray-500 mb-4">No results found for "{searchQuery}"</p>
             <button
@@ -171,7 +225,42 @@ const FoodSearch: React.FC = () => {
           </div>
         )}
         
-        {searchResults.length > 0 && (
+        {!isLoading && showQuickPicks && (
+          <div className="space-y-6 mb-6">
+            {renderQuickPicks(
+              'Favorites',
+              <FiStar className="text-yellow-500 mr-2" />,
+              favoriteFoods.map(favorite => ({
+                foodId: favorite.foodId,
+                name: favorite.name,
+                detail: favorite.brand || `1 ${favorite.servingSizeUnit}`,
+                calories: favorite.calories
+              }))
+            )}
+            {frequentMealType && renderQuickPicks(
+              `Often at ${getMealSlotName(mealSlots, frequentMealType)}`,
+              <FiTrendingUp className="text-primary-500 mr-2" />,
+              frequentFoods.map(({ latest }) => ({
+                foodId: latest.foodId,
+                name: latest.name,
+                detail: latest.servingSize,
+                calories: latest.calories
+              }))
+            )}
+            {renderQuickPicks(
+              'Recent',
+              <FiClock className="text-gray-500 mr-2" />,
+              recentFoods.slice(0, 10).map(({ latest }) => ({
+                foodId: latest.foodId,
+                name: latest.name,
+                detail: latest.servingSize,
+                calories: latest.calories
+              }))
+            )}
+          </div>
+        )}
+        
+        {!showQuickPicks && searchResults.length > 0 && (
           <div>
             <h2 className="text-lg font-medium mb-3">Results</h2>
             <div className="space-y-2">
@@ -179,7 +268,7 @@ const FoodSearch: React.FC = () => {
                 <div
                   key={food.id}
                   className="bg-white rounded-lg shadow p-4 cursor-pointer hover:bg-gray-50"
-                  onClick={() => handleSelectFood(food)}
+                  onClick={() => handleSelectFood(food.id)}
                 >
                   <div className="flex justify-between">
                     <div>
@@ -201,7 +290,12 @@ const FoodSearch: React.FC = () => {
                     </div>
                   </div>
                   
-                  {food.isUserCreated && (
+                  {food.source === 'recipe' ? (
+                    <div className="flex items-center mt-2 text-xs text-primary-600">
+                      <FiBookOpen className="mr-1" size={12} />
+                      <span>Recipe</span>
+                    </div>
+                  ) : food.isUserCreated && (
                     <div className="flex items-center mt-2 text-xs text-primary-600">
                       <FiPackage className="mr-1" size={12} />
                       <span>Custom food</span>
@@ -215,13 +309,19 @@ const FoodSearch: React.FC = () => {
         
         {/* Quick actions */}
         <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-4">
-          <div className="container mx-auto max-w-lg flex justify-center">
+          <div className="container mx-auto max-w-lg flex justify-center space-x-2">
             <button
               onClick={() => navigate('/food/create')}
               className="px-4 py-2 bg-primary-500 text-white rounded-lg flex items-center"
             >
               <FiPlus className="mr-2" /> Create Custom Food
             </button>
+            <button
+              onClick={() => navigate('/recipes/create')}
+              className="px-4 py-2 border border-primary-500 text-primary-600 rounded-lg flex items-center"
+            >
+              <FiBookOpen className="mr-2" /> Create Recipe
+            </button>
           </div>
         </div>
       </div>
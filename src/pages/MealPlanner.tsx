@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  FiArrowLeft,
+  FiCheck,
+  FiChevronLeft,
+  FiChevronRight,
+  FiPlus,
+  FiTrash2,
+  FiZap
+} from 'react-icons/fi';
+import { format } from 'date-fns';
+import { useAuthStore } from '../stores/authStore';
+import { DailyStats, useFoodLogStore } from '../stores/foodLogStore';
+import { PlannedTotals, sumPlannedItems, useMealPlanStore } from '../stores/mealPlanStore';
+import { getDayTargetsLabel, getTargetsForDay } from '../utils/nutritionTargets';
+import { LogDay, addLogDays, getUserTimeZone, isLogDay, logDayToDate, toDayKey, toLogDay } from '../utils/logDay';
+import { getMealSlotName, getMealSlots } from '../utils/mealSlots';
+import GeneratePlanModal from '../components/GeneratePlanModal';
+
+const DAYS_SHOWN = 7;
+
+const MealPlanner: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { profile } = useAuthStore();
+  const { fetchMealsForRange } = useFoodLogStore();
+  const {
+    plannedItems,
+    fetchPlannedItems,
+    deletePlannedItem,
+    logPlannedItems,
+    isLoading,
+    error
+  } = useMealPlanStore();
+  
+  const timeZone = getUserTimeZone(profile);
+  const today = toLogDay(new Date(), timeZone);
+  const mealSlots = getMealSlots(profile);
+  
+  // Come back to the day an item was just planned for
+  const dayParam = new URLSearchParams(location.search).get('day');
+  const initialDay = isLogDay(dayParam) && dayParam > today ? dayParam : today;
+  
+  const [firstDay, setFirstDay] = useState<LogDay>(initialDay);
+  const [selectedDay, setSelectedDay] = useState<LogDay>(initialDay);
+  const [loggedStats, setLoggedStats] = useState<Record<LogDay, DailyStats>>({});
+  const [isLogging, setIsLogging] = useState(false);
+  const [showGenerateModal, setShowGenerateModal] = useState(false);
+  
+  const lastDay = addLogDays(firstDay, DAYS_SHOWN - 1);
+  const days = Array.from({ length: DAYS_SHOWN }, (_, i) => addLogDays(firstDay, i));
+  
+  // Load the plan and what's already logged for the days shown
+  useEffect(() => {
+    const loadDays = async () => {
+      await fetchPlannedItems(firstDay, lastDay);
+      
+      try {
+        const stats = await fetchMealsForRange(logDayToDate(firstDay), logDayToDate(lastDay));
+        const statsByDay: Record<LogDay, DailyStats> = {};
+        stats.forEach(day => {
+          statsByDay[toDayKey(day.date)] = day;
+        });
+        setLoggedStats(statsByDay);
+      } catch (error) {
+        console.error('Error loading logged food:', error);
+      }
+    };
+    
+    loadDays();
+  }, [fetchPlannedItems, fetchMealsForRange, firstDay, lastDay]);
+  
+  // Move a week at a time, never into the past
+  const changeWeek = (direction: -1 | 1) => {
+    const newFirstDay = addLogDays(firstDay, direction * DAYS_SHOWN);
+    const clamped = newFirstDay < today ? today : newFirstDay;
+    
+    setFirstDay(clamped);
+    setSelectedDay(clamped);
+  };
+  
+  // Logged food plus everything still planned for a day
+  const getProjectedTotals = (logDay: LogDay): PlannedTotals & { planned: number } => {
+    const planned = sumPlannedItems(plannedItems.filter(item => item.logDay === logDay));
+    const logged = loggedStats[logDay];
+    
+    return {
+      calories: Math.round((logged?.calories || 0) + planned.calories),
+      protein: Math.round(((logged?.protein || 0) + planned.protein) * 10) / 10,
+      carbs: Math.round(((logged?.carbs || 0) + planned.carbs) * 10) / 10,
+      fat: Math.round(((logged?.fat || 0) + planned.fat) * 10) / 10,
+      planned: planned.calories
+    };
+  };
+  
+  const handleLogItems = async (itemIds: string[]) => {
+    setIsLogging(true);
+    await logPlannedItems(itemIds);
+    setIsLogging(false);
+    
+    // Refresh the logged totals for the day
+    try {
+      const stats = await fetchMealsForRange(logDayToDate(selectedDay), logDayToDate(selectedDay));
+      if (stats.length > 0) {
+        setLoggedStats(prev => ({ ...prev, [selectedDay]: stats[0] }));
+      }
+    } catch (error) {
+      console.error('Error loading logged food:', error);
+    }
+  };
+  
+  const dayItems = plannedItems.filter(item => item.logDay === selectedDay);
+  const projected = getProjectedTotals(selectedDay);
+  const targets = getTargetsForDay(profile, selectedDay);
+  const targetsLabel = getDayTargetsLabel(profile, selectedDay);
+  // The generator fills whatever the logged and planned food leaves over
+  const remainingTargets = {
+    calorieTarget: Math.max(Math.round(targets.calorieTarget - projected.calories), 0),
+    proteinTarget: Math.max(Math.round(targets.proteinTarget - projected.protein), 0),
+    carbTarget: Math.max(Math.round(targets.carbTarget - projected.carbs), 0),
+    fatTarget: Math.max(Math.round(targets.fatTarget - projected.fat), 0)
+  };
+  // Planned food can only be logged once its day has come
+  const canLog = selectedDay <= today;
+  
+  // Meals from removed slots still show while they have planned items
+  const mealTypes = [
+    ...mealSlots.map(slot => slot.id),
+    ...Array.from(new Set(dayItems.map(item => item.mealType))).filter(type => !mealSlots.some(slot => slot.id === type))
+  ];
+  
+  const renderProgress = (label: string, amount: number, target: number, unit: string, color: string) => (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span>{label}</span>
+        <span>{amount} / {target} {unit}</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2.5">
+        <div
+          className={`${color} h-2.5 rounded-full`}
+          style={{ width: `${target > 0 ? Math.min(Math.round((amount / target) * 100), 100) : 0}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+  
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-lg">
+      <div className="flex items-center mb-6">
+        <button
+          onClick={() => navigate(-1)}
+          className="mr-4 p-2 rounded-full hover:bg-gray-100"
+        >
+          <FiArrowLeft size={24} className="text-gray-600" />
+        </button>
+        <h1 className="text-2xl font-bold text-gray-800">Meal Planner</h1>
+      </div>
+      
+      {/* Week strip */}
+      <div className="bg-white rounded-lg shadow p-3 mb-6">
+        <div className="flex justify-between items-center mb-2">
+          <button
+            onClick={() => changeWeek(-1)}
+            disabled={firstDay <= today}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-full disabled:text-gray-300"
+          >
+            <FiChevronLeft />
+          </button>
+          <span className="text-sm font-medium">
+            {format(logDayToDate(firstDay), 'MMM d')} – {format(logDayToDate(lastDay), 'MMM d')}
+          </span>
+          <button
+            onClick={() => changeWeek(1)}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-full"
+          >
+            <FiChevronRight />
+          </button>
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {days.map(day => {
+            const { calories } = getProjectedTotals(day);
+            const { calorieTarget } = getTargetsForDay(profile, day);
+            const onTarget = calories > 0 && Math.abs(calories - calorieTarget) / calorieTarget < 0.1;
+            
+            return (
+              <button
+                key={day}
+                onClick={() => setSelectedDay(day)}
+                className={`rounded-md py-2 text-center ${
+                  day === selectedDay ? 'bg-primary-500 text-white' : 'hover:bg-gray-100'
+                }`}
+              >
+                <div className="text-xs">{format(logDayToDate(day), 'EEE')}</div>
+                <div className="font-medium">{format(logDayToDate(day), 'd')}</div>
+                <div className={`text-xs ${day === selectedDay ? '' : onTarget ? 'text-green-600' : 'text-gray-500'}`}>
+                  {calories > 0 ? calories : '–'}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      
+      {error && (
+        <div className="bg-red-50 text-red-700 rounded-lg p-3 mb-4 text-sm">{error}</div>
+      )}
+      
+      {/* Projected totals for the selected day */}
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-lg font-medium">{format(logDayToDate(selectedDay), 'EEEE, MMMM d')}</h2>
+          {targetsLabel && (
+            <span className="text-xs bg-primary-50 text-primary-700 px-2 py-1 rounded-full">{targetsLabel}</span>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          Projected: {projected.calories - projected.planned} kcal logged + {projected.planned} kcal planned
+        </p>
+        
+        <div className="space-y-3">
+          {renderProgress('Calories', projected.calories, targets.calorieTarget, 'kcal', 'bg-primary-500')}
+          {renderProgress('Protein', projected.protein, targets.proteinTarget, 'g', 'bg-blue-500')}
+          {renderProgress('Carbs', projected.carbs, targets.carbTarget, 'g', 'bg-green-500')}
+          {renderProgress('Fat', projected.fat, targets.fatTarget, 'g', 'bg-yellow-500')}
+        </div>
+        
+        <div className="flex space-x-3 mt-4">
+          {remainingTargets.calorieTarget > 0 && (
+            <button
+              onClick={() => setShowGenerateModal(true)}
+              className="flex-1 px-4 py-2 border border-primary-500 text-primary-600 rounded-lg flex items-center justify-center"
+            >
+              <FiZap className="mr-2" /> Generate Plan
+            </button>
+          )}
+          {canLog && dayItems.length > 0 && (
+            <button
+              onClick={() => handleLogItems(dayItems.map(item => item.id))}
+              disabled={isLogging}
+              className="flex-1 px-4 py-2 bg-primary-500 text-white rounded-lg flex items-center justify-center disabled:opacity-50"
+            >
+              <FiCheck className="mr-2" /> {isLogging ? 'Logging...' : 'Log All Planned'}
+            </button>
+          )}
+        </div>
+      </div>
+      
+      {/* Planned meals */}
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {mealTypes.map(mealType => {
+            const items = dayItems.filter(item => item.mealType === mealType);
+            
+            return (
+              <div key={mealType} className="bg-white rounded-lg shadow p-4">
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="font-medium text-lg">{getMealSlotName(mealSlots, mealType)}</h3>
+                  <button
+                    onClick={() => navigate(`/food-search?mealType=${mealType}&planDay=${selectedDay}`)}
+                    className="p-2 text-primary-600 hover:bg-primary-50 rounded-full"
+                    title="Plan a food or recipe"
+                  >
+                    <FiPlus size={18} />
+                  </button>
+                </div>
+                
+                {items.length === 0 ? (
+                  <p className="text-gray-400 text-sm">Nothing planned</p>
+                ) : (
+                  items.map(item => (
+                    <div
+                      key={item.id}
+                      className="flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0"
+                    >
+                      <div>
+                        <p className="font-medium">{item.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {item.servingSize} ({item.calories} kcal)
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        {canLog && (
+                          <button
+                            onClick={() => handleLogItems([item.id])}
+                            disabled={isLogging}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-full"
+                            title="Log this food"
+                          >
+                            <FiCheck size={16} />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => deletePlannedItem(item.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-full"
+                          title="Remove from plan"
+                        >
+                          <FiTrash2 size={16} />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      
+      {showGenerateModal && (
+        <GeneratePlanModal
+          logDay={selectedDay}
+          targets={remainingTargets}
+          onClose={() => setShowGenerateModal(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MealPlanner;
@@ -3,7 +3,7 @@ import { motion } from 'framer-motion';
 import { FiUser, FiTarget, FiActivity, FiCheckCircle, FiArrowLeft, FiArrowRight } from 'react-icons/fi';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore, UserProfile } from '../stores/authStore';
-import { useGamificationStore } from '../stores/gamificationStore';
+import { calculateNutritionTargets, Gender } from '../utils/nutritionTargets';
 
 
 // Onboarding steps
@@ -13,7 +13,6 @@ type OnboardingStep = 'profile' | 'goal' | 'activity' | 'macros';
 const Onboarding: React.FC = () => {
   const navigate = useNavigate();
   const { updateProfile } = useAuthStore();
-  const { completeAchievement } = useGamificationStore();
   
   const [currentStep, setCurrentStep] = useState<OnboardingStep>('profile');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -50,7 +49,14 @@ const Onboarding: React.FC = () => {
       setCurrentStep('activity');
     } else if (currentStep === 'activity') {
       // Calculate recommended calorie and macro targets based on user input
-      const calculatedTargets = calculateNutritionTargets(userData);
+      const calculatedTargets = calculateNutritionTargets({
+        age: parseInt(userData.age) || undefined,
+        gender: userData.gender as Gender,
+        weight: parseFloat(userData.weight) || undefined,
+        height: parseFloat(userData.height) || undefined,
+        activityLevel: userData.activityLevel,
+        goal: userData.goal
+      });
       setUserData({
         ...userData,
         ...calculatedTargets
@@ -72,113 +78,6 @@ const Onboarding: React.FC = () => {
     }
   };
   
-  // Calculate nutrition targets based on user data
-  const calculateNutritionTargets = (data: typeof userData) => {
-    // Parse string inputs to numbers
-    const age = parseInt(data.age) || 30;
-    const weight = parseFloat(data.weight) || 70; // kg
-    const height = parseFloat(data.height) || 170; // cm
-    const isMale = data.gender === 'male';
-    
-    // Base metabolic rate using Mifflin-St Jeor Equation
-    let bmr;
-    if (isMale) {
-      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-    } else {
-      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-    }
-    
-    // Activity multiplier
-    let activityMultiplier;
-    switch (data.activityLevel) {
-      case 'sedentary':
-        activityMultiplier = 1.2;
-        break;
-      case 'light':
-        activityMultiplier = 1.375;
-        break;
-      case 'moderate':
-        activityMultiplier = 1.55;
-        break;
-      case 'active':
-        activityMultiplier = 1.725;
-        break;
-      case 'very_active':
-        activityMultiplier = 1.9;
-        break;
-      default:
-        activityMultiplier = 1.375;
-    }
-    
-    // Maintenance calories
-    let maintenanceCalories = Math.round(bmr * activityMultiplier);
-    
-    // Adjust based on goal
-    let calorieTarget;
-    switch (data.goal) {
-      case 'burn':
-        calorieTarget = Math.round(maintenanceCalories * 0.8); // 20% deficit
-        break;
-      case 'maintain':
-        calorieTarget = maintenanceCalories;
-        break;
-      case 'build':
-        calorieTarget = Math.round(maintenanceCalories * 1.15); // 15% surplus
-        break;
-      default:
-        calorieTarget = maintenanceCalories;
-    }
-    
-    // Macro targets based on goal
-    let proteinMultiplier, carbMultiplier, fatMultiplier;
-    
-    if (data.goal === 'burn') {
-      // Higher protein, moderate fat, lower carbs for fat loss
-      proteinMultiplier = 2.0; // g/kg of body weight
-      fatMultiplier = 0.8; // g/kg of body weight
-      // Remaining calories from carbs
-      const proteinCalories = weight * proteinMultiplier * 4;
-      const fatCalories = weight * fatMultiplier * 9;
-      const carbCalories = calorieTarget - proteinCalories - fatCalories;
-      const carbTarget = Math.max(Math.round(carbCalories / 4), 50); // Minimum 50g of carbs
-      
-      return {
-        calorieTarget,
-        proteinTarget: Math.round(weight * proteinMultiplier),
-        carbTarget,
-        fatTarget: Math.round(weight * fatMultiplier)
-      };
-    } else if (data.goal === 'build') {
-      // Higher protein and carbs, moderate fat for muscle gain
-      proteinMultiplier = 1.8; // g/kg of body weight
-      carbMultiplier = 4.5; // g/kg of body weight
-      fatMultiplier = 0.8; // g/kg of body weight
-      
-      return {
-        calorieTarget,
-        proteinTarget: Math.round(weight * proteinMultiplier),
-        carbTarget: Math.round(weight * carbMultiplier),
-        fatTarget: Math.round(weight * fatMultiplier)
-      };
-    } else {
-      // Balanced macros for maintenance
-      proteinMultiplier = 1.6; // g/kg of body weight
-      fatMultiplier = 1.0; // g/kg of body weight
-      // Remaining calories from carbs
-      const proteinCalories = weight * proteinMultiplier * 4;
-      const fatCalories = weight * fatMultiplier * 9;
-      const carbCalories = calorieTarget - proteinCalories - fatCalories;
-      const carbTarget = Math.max(Math.round(carbCalories / 4), 130); // Recommended minimum carbs
-      
-      return {
-        calorieTarget,
-        proteinTarget: Math.round(weight * proteinMultiplier),
-        carbTarget,
-        fatTarget: Math.round(weight * fatMultiplier)
-      };
-    }
-  };
-  
   // Form submission
   const handleSubmit = async () => {
     try {
@@ -188,6 +87,12 @@ const Onboarding: React.FC = () => {
         displayName: userData.displayName,
         onboarded: true,
         goal: userData.goal as 'maintain' | 'burn' | 'build',
+        // Body stats are kept so targets can be recalculated later
+        age: parseInt(userData.age) || undefined,
+        gender: userData.gender as Gender,
+        weight: parseFloat(userData.weight) || undefined,
+        height: parseFloat(userData.height) || undefined,
+        activityLevel: userData.activityLevel || undefined,
         calorieTarget: userData.calorieTarget,
         proteinTarget: userData.proteinTarget,
         carbTarget: userData.carbTarget,
@@ -196,9 +101,6 @@ const Onboarding: React.FC = () => {
       
       await updateProfile(profile);
       
-      // Complete the profile achievement
-      await completeAchievement('complete-profile');
-      
       // Redirect to dashboard
       navigate('/');
     } catch (error) {
@@ -10,10 +10,24 @@ import {
   FiSave,
   FiX,
   FiActivity,
-  FiAward
+  FiAward,
+  FiRefreshCw
 } from 'react-icons/fi';
-import { useAuthStore } from '../stores/authStore';
+import { useAuthStore, UserProfile } from '../stores/authStore';
 import { useGamificationStore } from '../stores/gamificationStore';
+import MealSlotSettings from '../components/MealSlotSettings';
+import TargetScheduleSettings from '../components/TargetScheduleSettings';
+import {
+  BmrFormula,
+  MacroSplit,
+  calculateNutritionTargets,
+  getEffectiveTargets,
+  resolveBmrFormula,
+  validateMacroSplit
+} from '../utils/nutritionTargets';
+import { getDeviceTimeZone, getTimeZones, getUserTimeZone } from '../utils/logDay';
+
+type EditedProfile = ReturnType<typeof toEditedProfile>;
 
 const Profile: React.FC = () => {
   const navigate = useNavigate();
@@ -21,16 +35,7 @@ const Profile: React.FC = () => {
   const { profile: gamificationProfile } = useGamificationStore();
   
   const [isEditing, setIsEditing] = useState(false);
-  const [editedProfile, setEditedProfile] = useState({
-    displayName: '',
-    weight: '',
-    height: '',
-    goal: '' as 'burn' | 'maintain' | 'build' | '',
-    calorieTarget: 0,
-    proteinTarget: 0,
-    carbTarget: 0,
-    fatTarget: 0
-  });
+  const [editedProfile, setEditedProfile] = useState<EditedProfile>(toEditedProfile(null));
   
   const [isDirty, setIsDirty] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -39,27 +44,23 @@ const Profile: React.FC = () => {
   // Initialize edited profile when profile data loads
   useEffect(() => {
     if (profile) {
-      setEditedProfile({
-        displayName: profile.displayName || '',
-        weight: profile.weight || '',
-        height: profile.height || '',
-        goal: profile.goal || 'maintain',
-        calorieTarget: profile.calorieTarget || 2000,
-        proteinTarget: profile.proteinTarget || 120,
-        carbTarget: profile.carbTarget || 200,
-        fatTarget: profile.fatTarget || 65
-      });
+      setEditedProfile(toEditedProfile(profile));
     }
   }, [profile]);
   
+  const targets = getEffectiveTargets(profile);
+  
+  const macroSplitError = editedProfile.splitType === 'percent'
+    ? validateMacroSplit(getEditedMacroSplit(editedProfile) as MacroSplit)
+    : null;
+  
   // Handle changes to edited profile
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
     setEditedProfile(prev => ({
       ...prev,
-      [name]: name === 'calorieTarget' || name === 'proteinTarget' || 
-               name === 'carbTarget' || name === 'fatTarget' 
+      [name]: NUMERIC_FIELDS.includes(name)
                 ? parseInt(value) || 0 
                 : value
     }));
@@ -67,17 +68,44 @@ const Profile: React.FC = () => {
     setIsDirty(true);
   };
   
+  // Fill in the targets from body stats, goal and the chosen formula and split
+  const handleCalculateTargets = () => {
+    if (!profile || macroSplitError) return;
+    
+    const calculated = calculateNutritionTargets({
+      ...profile,
+      weight: parseFloat(editedProfile.weight) || undefined,
+      height: parseFloat(editedProfile.height) || undefined,
+      bodyFat: parseFloat(editedProfile.bodyFat) || undefined,
+      goal: editedProfile.goal,
+      bmrFormula: editedProfile.bmrFormula,
+      macroSplit: getEditedMacroSplit(editedProfile)
+    });
+    
+    setEditedProfile(prev => ({ ...prev, ...calculated }));
+    setIsDirty(true);
+  };
+  
   // Handle form submission
   const handleSubmit = async () => {
-    if (!isDirty) return;
+    if (!isDirty || macroSplitError) return;
     
     try {
       setIsSubmitting(true);
       
       await updateProfile({
-        ...editedProfile,
-        weight: editedProfile.weight,
-        height: editedProfile.height,
+        displayName: editedProfile.displayName,
+        goal: editedProfile.goal || undefined,
+        weight: parseFloat(editedProfile.weight) || undefined,
+        height: parseFloat(editedProfile.height) || undefined,
+        bodyFat: parseFloat(editedProfile.bodyFat) || undefined,
+        bmrFormula: editedProfile.bmrFormula,
+        macroSplit: getEditedMacroSplit(editedProfile),
+        calorieTarget: editedProfile.calorieTarget,
+        proteinTarget: editedProfile.proteinTarget,
+        carbTarget: editedProfile.carbTarget,
+        fatTarget: editedProfile.fatTarget,
+        timeZone: editedProfile.timeZone
       });
       
       setIsEditing(false);
@@ -101,8 +129,8 @@ const Profile: React.FC = () => {
   
   // Format macro percentages
   const formatMacroPercent = (macroGrams: number, macroCalories: number) => {
-    if (!profile || !profile.calorieTarget) return 0;
-    return Math.round((macroCalories / profile.calorieTarget) * 100);
+    if (!targets.calorieTarget) return 0;
+    return Math.round((macroCalories / targets.calorieTarget) * 100);
   };
   
   if (!profile) {
@@ -239,6 +267,118 @@ const Profile: React.FC = () => {
               </select>
             </div>
             
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Time Zone
+              </label>
+              <select
+                name="timeZone"
+                value={editedProfile.timeZone}
+                onChange={handleChange}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                {getTimeZones(editedProfile.timeZone, getDeviceTimeZone()).map(zone => (
+                  <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Your days, streaks and challenges start at midnight in this time zone.
+              </p>
+            </div>
+            
+            <div className="pt-4 border-t border-gray-200">
+              <h3 className="font-medium mb-3">Target Calculation</h3>
+              
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Body Fat (%)
+                    </label>
+                    <input
+                      type="number"
+                      name="bodyFat"
+                      value={editedProfile.bodyFat}
+                      onChange={handleChange}
+                      placeholder="Optional"
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      BMR Formula
+                    </label>
+                    <select
+                      name="bmrFormula"
+                      value={editedProfile.bmrFormula}
+                      onChange={handleChange}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+                    >
+                      <option value="mifflin">Mifflin-St Jeor</option>
+                      <option value="katch">Katch-McArdle</option>
+                      <option value="harris">Harris-Benedict</option>
+                    </select>
+                  </div>
+                </div>
+                
+                {editedProfile.bmrFormula === 'katch' && 
+                  resolveBmrFormula({ bmrFormula: 'katch', bodyFat: parseFloat(editedProfile.bodyFat) }) !== 'katch' && (
+                  <p className="text-xs text-gray-500">
+                    Katch-McArdle needs your body fat percentage. Mifflin-St Jeor is used until you enter it.
+                  </p>
+                )}
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Macro Split
+                  </label>
+                  <select
+                    name="splitType"
+                    value={editedProfile.splitType}
+                    onChange={handleChange}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="goal">Based on my goal (g per kg)</option>
+                    <option value="percent">Custom percentages</option>
+                  </select>
+                </div>
+                
+                {editedProfile.splitType === 'percent' && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      ['proteinPercent', 'Protein %'],
+                      ['carbPercent', 'Carbs %'],
+                      ['fatPercent', 'Fat %']
+                    ] as const).map(([name, label]) => (
+                      <div key={name}>
+                        <label className="block text-xs text-gray-600 mb-1">{label}</label>
+                        <input
+                          type="number"
+                          name={name}
+                          value={editedProfile[name]}
+                          onChange={handleChange}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
+                {macroSplitError && (
+                  <p className="text-xs text-red-600">{macroSplitError}</p>
+                )}
+                
+                <button
+                  type="button"
+                  onClick={handleCalculateTargets}
+                  disabled={!!macroSplitError}
+                  className="w-full py-2 border border-primary-500 text-primary-600 rounded-lg flex items-center justify-center disabled:opacity-50"
+                >
+                  <FiRefreshCw className="mr-2" /> Calculate Targets
+                </button>
+              </div>
+            </div>
+            
             <div className="pt-4 border-t border-gray-200">
               <h3 className="font-medium mb-3">Nutrition Targets</h3>
               
@@ -305,16 +445,7 @@ const Profile: React.FC = () => {
                   
                   // Reset to original values
                   if (profile) {
-                    setEditedProfile({
-                      displayName: profile.displayName || '',
-                      weight: profile.weight || '',
-                      height: profile.height || '',
-                      goal: profile.goal || 'maintain',
-                      calorieTarget: profile.calorieTarget || 2000,
-                      proteinTarget: profile.proteinTarget || 120,
-                      carbTarget: profile.carbTarget || 200,
-                      fatTarget: profile.fatTarget || 65
-                    });
+                    setEditedProfile(toEditedProfile(profile));
                   }
                 }}
                 className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700"
@@ -323,9 +454,9 @@ const Profile: React.FC = () => {
               </button>
               <button
                 onClick={handleSubmit}
-                disabled={!isDirty || isSubmitting}
+                disabled={!isDirty || isSubmitting || !!macroSplitError}
                 className={`px-4 py-2 rounded-lg flex items-center ${
-                  !isDirty || isSubmitting
+                  !isDirty || isSubmitting || macroSplitError
                     ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                     : 'bg-primary-500 text-white'
                 }`}
@@ -355,6 +486,10 @@ const Profile: React.FC = () => {
                 <div className="text-sm text-gray-600 mb-1">Height</div>
                 <div>{profile.height || '-'} cm</div>
               </div>
+              <div>
+                <div className="text-sm text-gray-600 mb-1">Body Fat</div>
+                <div>{profile.bodyFat || '-'} %</div>
+              </div>
             </div>
             
             <div>
@@ -371,13 +506,18 @@ const Profile: React.FC = () => {
               </div>
             </div>
             
+            <div>
+              <div className="text-sm text-gray-600 mb-1">Time Zone</div>
+              <div>{getUserTimeZone(profile).replace(/_/g, ' ')}</div>
+            </div>
+            
             <div className="pt-4 border-t border-gray-200">
               <h3 className="font-medium mb-3">Nutrition Targets</h3>
               
               <div>
                 <div className="flex justify-between text-sm mb-1">
                   <span>Daily Calories</span>
-                  <span>{profile.calorieTarget || 2000} kcal</span>
+                  <span>{targets.calorieTarget} kcal</span>
                 </div>
               </div>
               
@@ -387,11 +527,11 @@ const Profile: React.FC = () => {
                   <div className="flex justify-between text-sm mb-1">
                     <span>Protein</span>
                     <div>
-                      <span>{profile.proteinTarget || 120}g</span>
+                      <span>{targets.proteinTarget}g</span>
                       <span className="text-gray-500 ml-1">
                         ({formatMacroPercent(
-                          profile.proteinTarget || 120, 
-                          (profile.proteinTarget || 120) * 4
+                          targets.proteinTarget, 
+                          targets.proteinTarget * 4
                         )}%)
                       </span>
                     </div>
@@ -401,8 +541,8 @@ const Profile: React.FC = () => {
                       className="bg-blue-500 h-2 rounded-full" 
                       style={{ 
                         width: `${formatMacroPercent(
-                          profile.proteinTarget || 120, 
-                          (profile.proteinTarget || 120) * 4
+                          targets.proteinTarget, 
+                          targets.proteinTarget * 4
                         )}%` 
                       }}
                     ></div>
@@ -414,11 +554,11 @@ const Profile: React.FC = () => {
                   <div className="flex justify-between text-sm mb-1">
                     <span>Carbs</span>
                     <div>
-                      <span>{profile.carbTarget || 200}g</span>
+                      <span>{targets.carbTarget}g</span>
                       <span className="text-gray-500 ml-1">
                         ({formatMacroPercent(
-                          profile.carbTarget || 200, 
-                          (profile.carbTarget || 200) * 4
+                          targets.carbTarget, 
+                          targets.carbTarget * 4
                         )}%)
                       </span>
                     </div>
@@ -428,8 +568,8 @@ const Profile: React.FC = () => {
                       className="bg-green-500 h-2 rounded-full" 
                       style={{ 
                         width: `${formatMacroPercent(
-                          profile.carbTarget || 200, 
-                          (profile.carbTarget || 200) * 4
+                          targets.carbTarget, 
+                          targets.carbTarget * 4
                         )}%` 
                       }}
                     ></div>
@@ -441,11 +581,11 @@ const Profile: React.FC = () => {
                   <div className="flex justify-between text-sm mb-1">
                     <span>Fat</span>
                     <div>
-                      <span>{profile.fatTarget || 65}g</span>
+                      <span>{targets.fatTarget}g</span>
                       <span className="text-gray-500 ml-1">
                         ({formatMacroPercent(
-                          profile.fatTarget || 65, 
-                          (profile.fatTarget || 65) * 9
+                          targets.fatTarget, 
+                          targets.fatTarget * 9
                         )}%)
                       </span>
                     </div>
@@ -455,8 +595,8 @@ const Profile: React.FC = () => {
                       className="bg-yellow-500 h-2 rounded-full" 
                       style={{ 
                         width: `${formatMacroPercent(
-                          profile.fatTarget || 65, 
-                          (profile.fatTarget || 65) * 9
+                          targets.fatTarget, 
+                          targets.fatTarget * 9
                         )}%` 
                       }}
                     ></div>
@@ -468,6 +608,12 @@ const Profile: React.FC = () => {
         )}
       </div>
       
+      {/* Training / rest day targets */}
+      <TargetScheduleSettings />
+      
+      {/* Meal slots */}
+      <MealSlotSettings />
+      
       {/* App section */}
       <div className="bg-white rounded-lg shadow p-5 mb-6">
         <div className="flex items-center mb-4">
@@ -533,3 +679,47 @@ const Profile: React.FC = () => {
 };
 
 export default Profile;
+
+// Fields of the edit form that hold whole numbers
+const NUMERIC_FIELDS = [
+  'calorieTarget',
+  'proteinTarget',
+  'carbTarget',
+  'fatTarget',
+  'proteinPercent',
+  'carbPercent',
+  'fatPercent'
+];
+
+// Helper function to build the edit form state from a profile
+function toEditedProfile(profile: UserProfile | null) {
+  const targets = getEffectiveTargets(profile);
+  const percentSplit = profile?.macroSplit?.type === 'percent' ? profile.macroSplit : null;
+  
+  return {
+    displayName: profile?.displayName || '',
+    weight: profile?.weight?.toString() || '',
+    height: profile?.height?.toString() || '',
+    bodyFat: profile?.bodyFat?.toString() || '',
+    goal: (profile?.goal || 'maintain') as 'burn' | 'maintain' | 'build' | '',
+    bmrFormula: (profile?.bmrFormula || 'mifflin') as BmrFormula,
+    splitType: (percentSplit ? 'percent' : 'goal') as 'goal' | 'percent',
+    proteinPercent: percentSplit?.protein ?? 30,
+    carbPercent: percentSplit?.carbs ?? 40,
+    fatPercent: percentSplit?.fat ?? 30,
+    timeZone: getUserTimeZone(profile),
+    ...targets
+  };
+}
+
+// Helper function to get the macro split chosen in the edit form (null for the goal's default)
+function getEditedMacroSplit(edited: EditedProfile): MacroSplit | null {
+  if (edited.splitType !== 'percent') return null;
+  
+  return {
+    type: 'percent',
+    protein: edited.proteinPercent,
+    carbs: edited.carbPercent,
+    fat: edited.fatPercent
+  };
+}
@@ -0,0 +1,403 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  FiArrowLeft,
+  FiSave,
+  FiSearch,
+  FiPlus,
+  FiTrash2,
+  FiAlertCircle
+} from 'react-icons/fi';
+import { useFoodLogStore, FoodData } from '../stores/foodLogStore';
+import {
+  useRecipeStore,
+  RecipeIngredient,
+  createIngredientFromFood
+} from '../stores/recipeStore';
+import { calculatePerServing } from '../utils/recipeNutrition';
+
+const RecipeBuilder: React.FC = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const isEdit = Boolean(id);
+  const { searchFood, searchResults, isLoading: isSearching } = useFoodLogStore();
+  const {
+    getRecipeById,
+    createRecipe,
+    updateRecipe,
+    deleteRecipe,
+    error
+  } = useRecipeStore();
+  
+  const [name, setName] = useState('');
+  const [servings, setServings] = useState(1);
+  const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  
+  // Load the recipe when editing
+  useEffect(() => {
+    const loadRecipe = async () => {
+      if (!id) return;
+      
+      const recipe = await getRecipeById(id);
+      
+      if (recipe) {
+        setName(recipe.name);
+        setServings(recipe.servings);
+        setIngredients(recipe.ingredients);
+      }
+    };
+    
+    loadRecipe();
+  }, [id, getRecipeById]);
+  
+  // Search for ingredients with debounce
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchQuery.trim().length >= 2) {
+        searchFood(searchQuery);
+      }
+    }, 500);
+    
+    return () => clearTimeout(timer);
+  }, [searchQuery, searchFood]);
+  
+  const perServing = calculatePerServing(ingredients, servings);
+  
+  // A recipe can't contain itself
+  const ingredientResults = searchResults.filter(food => food.id !== `recipe:${id}`);
+  
+  // Add a searched food to the ingredient list
+  const handleAddIngredient = (food: FoodData) => {
+    setIngredients(prev => {
+      const existing = prev.find(ingredient => ingredient.foodId === food.id);
+      
+      // Adding the same food again bumps its quantity instead of duplicating it
+      if (existing) {
+        return prev.map(ingredient =>
+          ingredient.foodId === food.id
+            ? { ...ingredient, quantity: ingredient.quantity + 1 }
+            : ingredient
+        );
+      }
+      
+      return [...prev, createIngredientFromFood(food)];
+    });
+    
+    setSearchQuery('');
+  };
+  
+  const handleQuantityChange = (foodId: string, value: string) => {
+    const quantity = parseFloat(value);
+    
+    setIngredients(prev => prev.map(ingredient =>
+      ingredient.foodId === foodId
+        ? { ...ingredient, quantity: isNaN(quantity) ? 0 : Math.max(quantity, 0) }
+        : ingredient
+    ));
+  };
+  
+  const handleRemoveIngredient = (foodId: string) => {
+    setIngredients(prev => prev.filter(ingredient => ingredient.foodId !== foodId));
+  };
+  
+  const canSave = name.trim().length > 0 && servings > 0 && ingredients.some(i => i.quantity > 0);
+  
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!canSave) return;
+    
+    setIsSubmitting(true);
+    
+    try {
+      const recipe = {
+        name,
+        servings,
+        ingredients: ingredients.filter(ingredient => ingredient.quantity > 0)
+      };
+      
+      if (isEdit && id) {
+        await updateRecipe(id, recipe);
+        
+        if (!useRecipeStore.getState().error) {
+          navigate(`/food/recipe:${id}`);
+        }
+      } else {
+        const recipeId = await createRecipe(recipe);
+        
+        if (recipeId) {
+          navigate(`/food/recipe:${recipeId}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  const handleDelete = async () => {
+    if (!id) return;
+    
+    await deleteRecipe(id);
+    setShowDeleteConfirm(false);
+    
+    if (!useRecipeStore.getState().error) {
+      navigate('/food-search');
+    }
+  };
+  
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-lg">
+      <div className="flex items-center mb-6">
+        <button
+          onClick={() => navigate(-1)}
+          className="mr-4 p-2 rounded-full hover:bg-gray-100"
+        >
+          <FiArrowLeft size={24} className="text-gray-600" />
+        </button>
+        <h1 className="text-2xl font-bold text-gray-800">
+          {isEdit ? 'Edit Recipe' : 'Create Recipe'}
+        </h1>
+      </div>
+      
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded flex items-start">
+          <FiAlertCircle className="mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+      
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+              Recipe Name *
+            </label>
+            <input
+              type="text"
+              id="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+              placeholder="e.g. Chicken Stir Fry"
+            />
+          </div>
+          
+          <div>
+            <label htmlFor="servings" className="block text-sm font-medium text-gray-700 mb-1">
+              Number of Servings *
+            </label>
+            <input
+              type="number"
+              id="servings"
+              value={servings}
+              onChange={(e) => setServings(parseFloat(e.target.value) || 0)}
+              required
+              min="0.5"
+              step="0.5"
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+          
+          {/* Ingredients */}
+          <div className="pt-4 border-t border-gray-200">
+            <h3 className="font-medium mb-3">Ingredients</h3>
+            
+            {ingredients.length === 0 ? (
+              <p className="text-gray-400 text-sm mb-3">No ingredients added yet</p>
+            ) : (
+              <div className="space-y-2 mb-3">
+                {ingredients.map(ingredient => (
+                  <div
+                    key={ingredient.foodId}
+                    className="flex items-center justify-between py-2 border-b border-gray-100 last:border-b-0"
+                  >
+                    <div className="flex-1 mr-2">
+                      <p className="font-medium">{ingredient.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {Math.round(ingredient.calories * ingredient.quantity)} kcal •
+                        {' '}{ingredient.servingSize} {ingredient.servingSizeUnit} per serving
+                      </p>
+                    </div>
+                    <input
+                      type="number"
+                      value={ingredient.quantity}
+                      onChange={(e) => handleQuantityChange(ingredient.foodId, e.target.value)}
+                      min="0"
+                      step="0.25"
+                      className="w-16 text-center border border-gray-300 rounded-lg py-1"
+                      aria-label={`Servings of ${ingredient.name}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveIngredient(ingredient.foodId)}
+                      className="ml-1 p-2 text-red-600 hover:bg-red-50 rounded-full"
+                    >
+                      <FiTrash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            
+            {/* Ingredient search */}
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <FiSearch className="text-gray-400" />
+              </div>
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="block w-full rounded-lg border border-gray-300 pl-10 pr-4 py-2 focus:ring-primary-500 focus:border-primary-500"
+                placeholder="Search for an ingredient..."
+              />
+            </div>
+            
+            {searchQuery.trim().length >= 2 && (
+              <div className="mt-2 border border-gray-200 rounded-lg max-h-60 overflow-y-auto">
+                {isSearching ? (
+                  <div className="flex justify-center py-4">
+                    <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary-500"></div>
+                  </div>
+                ) : ingredientResults.length === 0 ? (
+                  <p className="text-gray-500 text-sm p-3">No foods found</p>
+                ) : (
+                  ingredientResults.map(food => (
+                    <button
+                      type="button"
+                      key={food.id}
+                      onClick={() => handleAddIngredient(food)}
+                      className="w-full flex justify-between items-center p-3 text-left hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+                    >
+                      <div>
+                        <p className="font-medium text-sm">{food.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {food.servingSize} {food.servingSizeUnit} • {food.calories} kcal
+                        </p>
+                      </div>
+                      <FiPlus className="text-primary-600" />
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+          
+          {/* Nutrition per serving */}
+          <div className="pt-4 border-t border-gray-200">
+            <h3 className="font-medium mb-3">Nutrition Facts (per serving)</h3>
+            
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between py-1 border-b border-gray-100">
+                <span className="font-medium">Calories</span>
+                <span>{perServing.calories} kcal</span>
+              </div>
+              <div className="flex justify-between py-1 border-b border-gray-100">
+                <span>Protein</span>
+                <span>{perServing.protein}g</span>
+              </div>
+              <div className="flex justify-between py-1 border-b border-gray-100">
+                <span>Carbohydrates</span>
+                <span>{perServing.carbs}g</span>
+              </div>
+              <div className="flex justify-between py-1 border-b border-gray-100">
+                <span className="pl-4 text-gray-600">Fiber</span>
+                <span>{perServing.fiber}g</span>
+              </div>
+              <div className="flex justify-between py-1 border-b border-gray-100">
+                <span className="pl-4 text-gray-600">Sugar</span>
+                <span>{perServing.sugar}g</span>
+              </div>
+              <div className="flex justify-between py-1 border-b border-gray-100">
+                <span>Fat</span>
+                <span>{perServing.fat}g</span>
+              </div>
+              <div className="flex justify-between py-1">
+                <span>Sodium</span>
+                <span>{perServing.sodium}mg</span>
+              </div>
+            </div>
+          </div>
+          
+          <div className="flex justify-between pt-4">
+            {isEdit ? (
+              <button
+                type="button"
+                onClick={() => setShowDeleteConfirm(true)}
+                className="px-4 py-2 border border-red-500 text-red-500 rounded-lg flex items-center"
+              >
+                <FiTrash2 className="mr-2" /> Delete
+              </button>
+            ) : (
+              <div></div>
+            )}
+            <div className="flex">
+              <button
+                type="button"
+                onClick={() => navigate(-1)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 mr-2"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !canSave}
+                className={`px-4 py-2 rounded-lg flex items-center ${
+                  isSubmitting || !canSave
+                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    : 'bg-primary-500 text-white hover:bg-primary-600'
+                }`}
+              >
+                {isSubmitting ? (
+                  <>
+                    <div className="animate-spin mr-2 h-4 w-4 border-2 border-white border-t-transparent rounded-full"></div>
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <FiSave className="mr-2" /> Save Recipe
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      </form>
+      
+      {/* Delete confirmation modal */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-sm mx-4">
+            <h3 className="text-lg font-medium mb-4">Confirm Deletion</h3>
+            <p className="mb-6">
+              Are you sure you want to delete this recipe? Meals it was already logged to are not affected.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setShowDeleteConfirm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipeBuilder;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   FiArrowLeft,
@@ -7,32 +7,43 @@ import {
   FiTrendingUp,
   FiTarget,
   FiCheck,
-  FiX
+  FiX,
+  FiPlus,
+  FiActivity
 } from 'react-icons/fi';
-import { format, subDays, startOfWeek, startOfMonth, eachDayOfInterval, addDays } from 'date-fns';
+import { format, startOfWeek, startOfMonth, subDays, parseISO } from 'date-fns';
 import { useAuthStore } from '../stores/authStore';
-import { useFoodLogStore } from '../stores/foodLogStore';
+import { useFoodLogStore, DailyStats } from '../stores/foodLogStore';
 import { useGamificationStore } from '../stores/gamificationStore';
+import { useWeightLogStore } from '../stores/weightLogStore';
+import { calculateNutritionTargets, getEffectiveTargets, getTargetsForDay, NutritionTargets } from '../utils/nutritionTargets';
+import { getToday, getUserTimeZone, toDayKey } from '../utils/logDay';
+import { calculateWeightTrend } from '../utils/weightTrend';
+import WeightTrendChart from '../components/WeightTrendChart';
+import MaintenanceEstimateCard from '../components/MaintenanceEstimateCard';
 
-// Mock data for visualization (in a real app, this would come from the food log)
-interface DailyStats {
-  date: Date;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  targetMet: boolean;
-}
+// How far back the weight chart looks; the trend needs more than a week of data
+const WEIGHT_HISTORY_DAYS = 90;
 
 const Statistics: React.FC = () => {
   const navigate = useNavigate();
-  const { profile } = useAuthStore();
-  const { meals, fetchMealsForDate, dailyTotals } = useFoodLogStore();
+  const { profile, updateProfile } = useAuthStore();
+  const { fetchMealsForRange } = useFoodLogStore();
   const { profile: gamificationProfile, fetchProfile } = useGamificationStore();
+  const { weighIns, fetchWeighIns, addWeighIn, error: weightError } = useWeightLogStore();
   
   const [timeRange, setTimeRange] = useState<'week' | 'month'>('week');
   const [statsData, setStatsData] = useState<DailyStats[]>([]);
+  const [loggedDays, setLoggedDays] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [showWeighInForm, setShowWeighInForm] = useState(false);
+  const [weighInForm, setWeighInForm] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    weight: '',
+    waist: '',
+    bodyFat: ''
+  });
+  const [proposedTargets, setProposedTargets] = useState<NutritionTargets | null>(null);
   const [summaryStats, setSummaryStats] = useState({
     avgCalories: 0,
     avgProtein: 0,
@@ -44,83 +55,45 @@ const Statistics: React.FC = () => {
     worstDay: ''
   });
   
-  // Fetch data on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      setIsLoading(true);
-      try {
-        // In a real app, fetch historical data for the selected time range
-        // For this demo, we'll generate mock data
-        await fetchProfile();
-        const mockData = generateMockData(timeRange);
-        setStatsData(mockData);
-        calculateSummaryStats(mockData);
-      } catch (error) {
-        console.error('Error loading statistical data:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    loadData();
-  }, [timeRange, fetchProfile]);
-  
-  // Generate mock data for visualization
-  const generateMockData = (range: 'week' | 'month'): DailyStats[] => {
-    const today = new Date();
-    const startDate = range === 'week' 
-      ? startOfWeek(today) 
-      : startOfMonth(today);
-    
-    const dates = eachDayOfInterval({
-      start: startDate,
-      end: today
-    });
-    
-    // Generate random but realistic-looking data
-    return dates.map(date => {
-      const targetCalories = profile?.calorieTarget || 2000;
-      const baseCalories = targetCalories * (0.85 + Math.random() * 0.3); // Random between 85-115% of target
-      const calories = Math.round(baseCalories);
-      
-      // Calculate macros based on a somewhat realistic distribution
-      const protein = Math.round((calories * (0.25 + Math.random() * 0.1)) / 4); // ~25-35% protein
-      const fat = Math.round((calories * (0.25 + Math.random() * 0.1)) / 9); // ~25-35% fat
-      const carbs = Math.round((calories - (protein * 4) - (fat * 9)) / 4); // Remaining calories from carbs
-      
-      // Determine if targets were met
-      const targetMet = Math.abs(calories - targetCalories) / targetCalories < 0.1; // Within 10% of target
-      
-      return {
-        date,
-        calories,
-        protein,
-        carbs,
-        fat,
-        targetMet
-      };
-    });
-  };
+  const targets = getEffectiveTargets(profile);
+  const timeZone = getUserTimeZone(profile);
   
   // Calculate summary statistics
-  const calculateSummaryStats = (data: DailyStats[]) => {
-    if (data.length === 0) return;
+  const calculateSummaryStats = useCallback((data: DailyStats[]) => {
+    // Days without any logged food would drag the averages down, so skip them
+    const logged = data.filter(day => day.itemCount > 0);
+    setLoggedDays(logged.length);
+    
+    if (logged.length === 0) {
+      setSummaryStats({
+        avgCalories: 0,
+        avgProtein: 0,
+        avgCarbs: 0,
+        avgFat: 0,
+        daysOnTarget: 0,
+        streakDays: gamificationProfile?.streakDays || 0,
+        bestDay: '-',
+        worstDay: '-'
+      });
+      return;
+    }
     
-    const totalCalories = data.reduce((sum, day) => sum + day.calories, 0);
-    const totalProtein = data.reduce((sum, day) => sum + day.protein, 0);
-    const totalCarbs = data.reduce((sum, day) => sum + day.carbs, 0);
-    const totalFat = data.reduce((sum, day) => sum + day.fat, 0);
-    const daysOnTarget = data.filter(day => day.targetMet).length;
+    const totalCalories = logged.reduce((sum, day) => sum + day.calories, 0);
+    const totalProtein = logged.reduce((sum, day) => sum + day.protein, 0);
+    const totalCarbs = logged.reduce((sum, day) => sum + day.carbs, 0);
+    const totalFat = logged.reduce((sum, day) => sum + day.fat, 0);
+    const daysOnTarget = logged.filter(day => day.targetMet).length;
     
-    // Find best (closest to target) and worst days
-    const target = profile?.calorieTarget || 2000;
+    // Find best (closest to target) and worst days, against each day's own target
+    const getDiff = (day: DailyStats) =>
+      Math.abs(day.calories - getTargetsForDay(profile, toDayKey(day.date)).calorieTarget);
     let bestDayIndex = 0;
     let worstDayIndex = 0;
-    let bestDiff = Math.abs(data[0].calories - target);
+    let bestDiff = getDiff(logged[0]);
     let worstDiff = bestDiff;
     
-    data.forEach((day, index) => {
-      const diff = Math.abs(day.calories - target);
+    logged.forEach((day, index) => {
+      const diff = getDiff(day);
       if (diff < bestDiff) {
         bestDiff = diff;
         bestDayIndex = index;
@@ -132,17 +105,90 @@ const Statistics: React.FC = () => {
     });
     
     setSummaryStats({
-      avgCalories: Math.round(totalCalories / data.length),
-      avgProtein: Math.round(totalProtein / data.length),
-      avgCarbs: Math.round(totalCarbs / data.length),
-      avgFat: Math.round(totalFat / data.length),
+      avgCalories: Math.round(totalCalories / logged.length),
+      avgProtein: Math.round(totalProtein / logged.length),
+      avgCarbs: Math.round(totalCarbs / logged.length),
+      avgFat: Math.round(totalFat / logged.length),
       daysOnTarget,
       streakDays: gamificationProfile?.streakDays || 0,
-      bestDay: format(data[bestDayIndex].date, 'MMM d'),
-      worstDay: format(data[worstDayIndex].date, 'MMM d')
+      bestDay: format(logged[bestDayIndex].date, 'MMM d'),
+      worstDay: format(logged[worstDayIndex].date, 'MMM d')
+    });
+  }, [profile, gamificationProfile]);
+  
+  // Fetch historical data whenever the time range changes
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        await fetchProfile();
+        
+        const today = getToday(timeZone);
+        const startDate = timeRange === 'week' 
+          ? startOfWeek(today) 
+          : startOfMonth(today);
+        
+        const data = await fetchMealsForRange(startDate, today);
+        setStatsData(data);
+      } catch (error) {
+        console.error('Error loading statistical data:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    
+    loadData();
+  }, [timeRange, timeZone, fetchProfile, fetchMealsForRange]);
+  
+  // Weight history is independent of the selected time range
+  useEffect(() => {
+    fetchWeighIns(subDays(new Date(), WEIGHT_HISTORY_DAYS));
+  }, [fetchWeighIns]);
+  
+  const weightTrend = calculateWeightTrend(weighIns);
+  const latestTrend = weightTrend[weightTrend.length - 1];
+  const trendChange = latestTrend ? latestTrend.trend - weightTrend[0].trend : 0;
+  
+  // Save a new weigh-in from the form
+  const handleWeighInSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    const weighInId = await addWeighIn({
+      date: parseISO(weighInForm.date),
+      weight: parseFloat(weighInForm.weight),
+      waist: parseFloat(weighInForm.waist) || undefined,
+      bodyFat: parseFloat(weighInForm.bodyFat) || undefined
     });
+    
+    if (weighInId) {
+      setShowWeighInForm(false);
+      setWeighInForm(prev => ({ ...prev, weight: '', waist: '', bodyFat: '' }));
+    }
+  };
+  
+  // Work out targets for the latest weigh-in so they can be reviewed before saving
+  const proposeTargetsFromWeight = () => {
+    if (!profile || !latestTrend) return;
+    
+    // Keep the user's formula, body fat, macro split and estimated maintenance
+    setProposedTargets(calculateNutritionTargets(
+      { ...profile, weight: latestTrend.weight },
+      profile.estimatedMaintenance
+    ));
   };
   
+  const applyProposedTargets = async () => {
+    if (!proposedTargets) return;
+    
+    await updateProfile(proposedTargets);
+    setProposedTargets(null);
+  };
+  
+  // Recalculate the summary when the data or targets change
+  useEffect(() => {
+    calculateSummaryStats(statsData);
+  }, [statsData, calculateSummaryStats]);
+  
   // Calculate the height for bar visualization based on percentage of max value
   const getBarHeight = (value: number, maxValue: number) => {
     const percentage = Math.min(value / maxValue, 1);
@@ -214,7 +260,7 @@ const Statistics: React.FC = () => {
                 Calorie Trend
               </h2>
               <div className="text-sm text-gray-600">
-                Target: {profile?.calorieTarget || 2000} kcal
+                Target: {targets.calorieTarget} kcal
               </div>
             </div>
             
@@ -230,7 +276,7 @@ const Statistics: React.FC = () => {
                         day.targetMet ? 'bg-primary-500' : 'bg-gray-300'
                       }`}
                       style={{ 
-                        height: getBarHeight(day.calories, (profile?.calorieTarget || 2000) * 1.5)
+                        height: getBarHeight(day.calories, targets.calorieTarget * 1.5)
                       }}
                     ></div>
                     
@@ -239,7 +285,7 @@ const Statistics: React.FC = () => {
                       <div 
                         className="absolute border-t-2 border-dashed border-red-400 w-full left-0"
                         style={{ 
-                          bottom: getBarHeight(profile?.calorieTarget || 2000, (profile?.calorieTarget || 2000) * 1.5)
+                          bottom: getBarHeight(targets.calorieTarget, targets.calorieTarget * 1.5)
                         }}
                       ></div>
                     )}
@@ -255,7 +301,7 @@ const Statistics: React.FC = () => {
               <div className="flex justify-between text-sm">
                 <div>
                   <span className="text-gray-600">Average: </span>
-                  <span className={getComparisonColor(summaryStats.avgCalories, profile?.calorieTarget || 2000)}>
+                  <span className={getComparisonColor(summaryStats.avgCalories, targets.calorieTarget)}>
                     {summaryStats.avgCalories} kcal
                   </span>
                 </div>
@@ -284,18 +330,18 @@ const Statistics: React.FC = () => {
                 <div className="flex justify-between text-sm mb-1">
                   <span>Protein</span>
                   <div>
-                    <span className={getComparisonColor(summaryStats.avgProtein, profile?.proteinTarget || 120)}>
+                    <span className={getComparisonColor(summaryStats.avgProtein, targets.proteinTarget)}>
                       {summaryStats.avgProtein}g
                     </span>
                     <span className="text-gray-500 ml-1">
-                      / {profile?.proteinTarget || 120}g
+                      / {targets.proteinTarget}g
                     </span>
                   </div>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2.5">
                   <div 
                     className="bg-blue-500 h-2.5 rounded-full" 
-                    style={{ width: `${Math.min((summaryStats.avgProtein / (profile?.proteinTarget || 120)) * 100, 100)}%` }}
+                    style={{ width: `${Math.min((summaryStats.avgProtein / targets.proteinTarget) * 100, 100)}%` }}
                   ></div>
                 </div>
               </div>
@@ -305,18 +351,18 @@ const Statistics: React.FC = () => {
                 <div className="flex justify-between text-sm mb-1">
                   <span>Carbs</span>
                   <div>
-                    <span className={getComparisonColor(summaryStats.avgCarbs, profile?.carbTarget || 200)}>
+                    <span className={getComparisonColor(summaryStats.avgCarbs, targets.carbTarget)}>
                       {summaryStats.avgCarbs}g
                     </span>
                     <span className="text-gray-500 ml-1">
-                      / {profile?.carbTarget || 200}g
+                      / {targets.carbTarget}g
                     </span>
                   </div>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2.5">
                   <div 
                     className="bg-green-500 h-2.5 rounded-full" 
-                    style={{ width: `${Math.min((summaryStats.avgCarbs / (profile?.carbTarget || 200)) * 100, 100)}%` }}
+                    style={{ width: `${Math.min((summaryStats.avgCarbs / targets.carbTarget) * 100, 100)}%` }}
                   ></div>
                 </div>
               </div>
@@ -326,18 +372,18 @@ const Statistics: React.FC = () => {
                 <div className="flex justify-between text-sm mb-1">
                   <span>Fat</span>
                   <div>
-                    <span className={getComparisonColor(summaryStats.avgFat, profile?.fatTarget || 65)}>
+                    <span className={getComparisonColor(summaryStats.avgFat, targets.fatTarget)}>
                       {summaryStats.avgFat}g
                     </span>
                     <span className="text-gray-500 ml-1">
-                      / {profile?.fatTarget || 65}g
+                      / {targets.fatTarget}g
                     </span>
                   </div>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2.5">
                   <div 
                     className="bg-yellow-500 h-2.5 rounded-full" 
-                    style={{ width: `${Math.min((summaryStats.avgFat / (profile?.fatTarget || 65)) * 100, 100)}%` }}
+                    style={{ width: `${Math.min((summaryStats.avgFat / targets.fatTarget) * 100, 100)}%` }}
                   ></div>
                 </div>
               </div>
@@ -359,6 +405,98 @@ const Statistics: React.FC = () => {
             </div>
           </div>
           
+          {/* Weight trend */}
+          <div className="bg-white rounded-lg shadow p-5 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-medium flex items-center">
+                <FiActivity className="text-primary-600 mr-2" />
+                Weight
+              </h2>
+              <button
+                onClick={() => setShowWeighInForm(true)}
+                className="px-3 py-1 text-sm bg-primary-500 text-white rounded-lg flex items-center"
+              >
+                <FiPlus className="mr-1" /> Log Weight
+              </button>
+            </div>
+            
+            {weightTrend.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">
+                No weigh-ins in the last {WEIGHT_HISTORY_DAYS} days. Log your weight to see your trend.
+              </p>
+            ) : (
+              <>
+                <WeightTrendChart points={weightTrend} />
+                
+                <div className="mt-4 pt-4 border-t border-gray-100">
+                  <div className="flex justify-between text-sm">
+                    <div>
+                      <span className="text-gray-600">Trend: </span>
+                      <span className="font-medium">{latestTrend.trend.toFixed(1)} kg</span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Change: </span>
+                      <span className="font-medium">
+                        {trendChange > 0 ? '+' : ''}{trendChange.toFixed(1)} kg
+                      </span>
+                    </div>
+                  </div>
+                  
+                  {/* Feed the latest weight back into the targets */}
+                  {proposedTargets ? (
+                    <div className="mt-4 bg-primary-50 rounded-lg p-3 text-sm">
+                      <p className="font-medium mb-2">
+                        New targets for {latestTrend.weight} kg
+                      </p>
+                      <div className="grid grid-cols-4 gap-2 text-center mb-3">
+                        <div>
+                          <div className="font-medium">{proposedTargets.calorieTarget}</div>
+                          <div className="text-xs text-gray-500">was {profile?.calorieTarget || '-'} kcal</div>
+                        </div>
+                        <div>
+                          <div className="font-medium">{proposedTargets.proteinTarget}g</div>
+                          <div className="text-xs text-gray-500">was {profile?.proteinTarget || '-'}g P</div>
+                        </div>
+                        <div>
+                          <div className="font-medium">{proposedTargets.carbTarget}g</div>
+                          <div className="text-xs text-gray-500">was {profile?.carbTarget || '-'}g C</div>
+                        </div>
+                        <div>
+                          <div className="font-medium">{proposedTargets.fatTarget}g</div>
+                          <div className="text-xs text-gray-500">was {profile?.fatTarget || '-'}g F</div>
+                        </div>
+                      </div>
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => setProposedTargets(null)}
+                          className="px-3 py-1 border border-gray-300 rounded-lg text-gray-700 bg-white"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={applyProposedTargets}
+                          className="px-3 py-1 bg-primary-500 text-white rounded-lg"
+                        >
+                          Update Targets
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={proposeTargetsFromWeight}
+                      className="mt-3 text-sm text-primary-600 hover:underline"
+                    >
+                      Recalculate targets with my latest weight
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+          
+          {/* Adaptive maintenance estimate */}
+          <MaintenanceEstimateCard weightTrend={weightTrend} />
+          
           {/* Summary insights */}
           <div className="bg-white rounded-lg shadow p-5 mb-6">
             <h2 className="text-lg font-medium flex items-center mb-4">
@@ -410,31 +548,37 @@ const Statistics: React.FC = () => {
             <h2 className="text-lg font-medium mb-4">Recommendations</h2>
             
             <div className="space-y-3 text-sm text-gray-700">
-              {summaryStats.avgCalories < (profile?.calorieTarget || 2000) * 0.9 && (
+              {loggedDays === 0 && (
+                <p>
+                  No meals logged in this period yet. Start logging to get personalized recommendations.
+                </p>
+              )}
+              
+              {loggedDays > 0 && summaryStats.avgCalories < targets.calorieTarget * 0.9 && (
                 <p>
                   <span className="font-medium text-yellow-600">Increase your calorie intake:</span> You're consistently eating below your target. Try adding more nutrient-dense foods to your meals.
                 </p>
               )}
               
-              {summaryStats.avgCalories > (profile?.calorieTarget || 2000) * 1.1 && (
+              {summaryStats.avgCalories > targets.calorieTarget * 1.1 && (
                 <p>
                   <span className="font-medium text-yellow-600">Monitor your portions:</span> You're regularly exceeding your calorie target. Try measuring portion sizes more carefully.
                 </p>
               )}
               
-              {summaryStats.avgProtein < (profile?.proteinTarget || 120) * 0.9 && (
+              {loggedDays > 0 && summaryStats.avgProtein < targets.proteinTarget * 0.9 && (
                 <p>
                   <span className="font-medium text-blue-600">Increase protein intake:</span> Add more lean protein sources like chicken, fish, tofu, or legumes to your meals.
                 </p>
               )}
               
-              {summaryStats.daysOnTarget < statsData.length * 0.3 && (
+              {loggedDays > 0 && summaryStats.daysOnTarget < loggedDays * 0.3 && (
                 <p>
                   <span className="font-medium text-primary-600">Consistency is key:</span> Try to plan your meals ahead to hit your targets more consistently.
                 </p>
               )}
               
-              {summaryStats.daysOnTarget > statsData.length * 0.7 && (
+              {loggedDays > 0 && summaryStats.daysOnTarget > loggedDays * 0.7 && (
                 <p>
                   <span className="font-medium text-green-600">Great consistency!</span> You're doing an excellent job of hitting your targets regularly. Keep it up!
                 </p>
@@ -443,6 +587,99 @@ const Statistics: React.FC = () => {
           </div>
         </>
       )}
+      
+      {/* Log weight modal */}
+      {showWeighInForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <form onSubmit={handleWeighInSubmit} className="bg-white rounded-lg p-6 max-w-sm w-full mx-4">
+            <h3 className="text-lg font-medium mb-4">Log Weight</h3>
+            
+            {weightError && (
+              <p className="text-sm text-red-600 mb-4">{weightError}</p>
+            )}
+            
+            <div className="space-y-3 mb-6">
+              <div>
+                <label htmlFor="weighInDate" className="block text-sm font-medium text-gray-700 mb-1">
+                  Date
+                </label>
+                <input
+                  type="date"
+                  id="weighInDate"
+                  value={weighInForm.date}
+                  onChange={(e) => setWeighInForm(prev => ({ ...prev, date: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-md p-2"
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="weighInWeight" className="block text-sm font-medium text-gray-700 mb-1">
+                  Weight (kg) *
+                </label>
+                <input
+                  type="number"
+                  id="weighInWeight"
+                  value={weighInForm.weight}
+                  onChange={(e) => setWeighInForm(prev => ({ ...prev, weight: e.target.value }))}
+                  required
+                  min="0"
+                  step="0.1"
+                  className="w-full border border-gray-300 rounded-md p-2"
+                />
+              </div>
+              
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="weighInWaist" className="block text-sm font-medium text-gray-700 mb-1">
+                    Waist (cm)
+                  </label>
+                  <input
+                    type="number"
+                    id="weighInWaist"
+                    value={weighInForm.waist}
+                    onChange={(e) => setWeighInForm(prev => ({ ...prev, waist: e.target.value }))}
+                    min="0"
+                    step="0.1"
+                    className="w-full border border-gray-300 rounded-md p-2"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="weighInBodyFat" className="block text-sm font-medium text-gray-700 mb-1">
+                    Body fat (%)
+                  </label>
+                  <input
+                    type="number"
+                    id="weighInBodyFat"
+                    value={weighInForm.bodyFat}
+                    onChange={(e) => setWeighInForm(prev => ({ ...prev, bodyFat: e.target.value }))}
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    className="w-full border border-gray-300 rounded-md p-2"
+                  />
+                </div>
+              </div>
+            </div>
+            
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setShowWeighInForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-primary-500 text-white rounded-lg"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,159 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  limit,
+  getDoc,
+  getDocs
+} from 'firebase/firestore';
+import { db } from '../../firebase/config';
+import type { FoodData } from '../../stores/foodLogStore';
+import { getSearchQueryTokens, getTypoQueryTokens } from '../../utils/searchTokens';
+import { FoodProvider } from './types';
+
+// Most foods fetched per query. Firestore returns them in document id order
+// rather than by relevance, so the store ranks them afterwards.
+const MAX_SEARCH_RESULTS = 100;
+
+// Searches finding fewer foods than this by the words typed also look up the
+// words' first letters, in case of a typo. Those match a lot of unrelated
+// foods, so they're only used when needed and can't crowd out real matches.
+const MIN_RESULTS_BEFORE_TYPOS = 10;
+
+/**
+ * Foods stored in our own `foods` collection: the shared public database
+ * plus the current user's custom foods
+ */
+export const firestoreProvider: FoodProvider = {
+  id: 'firestore',
+  name: 'Macro Muncher',
+  
+  searchFoods: async (searchTerm, { userId }) => {
+    const searchTokens = getSearchQueryTokens(searchTerm);
+    
+    if (searchTokens.length === 0) {
+      return [];
+    }
+    
+    const results = await findFoodsByTokens(searchTokens, userId);
+    const typoTokens = getTypoQueryTokens(searchTerm);
+    
+    if (results.length >= MIN_RESULTS_BEFORE_TYPOS || typoTokens.length === 0) {
+      return results;
+    }
+    
+    const typoResults = await findFoodsByTokens(typoTokens, userId);
+    
+    return [
+      ...results,
+      ...typoResults.filter(food => !results.some(result => result.id === food.id))
+    ];
+  },
+  
+  getFoodById: async (foodId) => {
+    const foodDoc = await getDoc(doc(db, 'foods', foodId));
+    
+    if (!foodDoc.exists()) {
+      return null;
+    }
+    
+    return convertFoodDoc(foodDoc.id, foodDoc.data());
+  },
+  
+  findFoodByBarcode: async (barcodes, { userId }) => {
+    const foodsRef = collection(db, 'foods');
+    
+    const publicFoodsQuery = query(
+      foodsRef,
+      where('isUserCreated', '==', false),
+      where('barcode', 'in', barcodes)
+    );
+    
+    const userFoodsQuery = userId
+      ? query(
+          foodsRef,
+          where('userId', '==', userId),
+          where('barcode', 'in', barcodes)
+        )
+      : null;
+    
+    const [publicFoodsSnapshot, userFoodsSnapshot] = await Promise.all([
+      getDocs(publicFoodsQuery),
+      userFoodsQuery ? getDocs(userFoodsQuery) : Promise.resolve(null)
+    ]);
+    
+    // Prefer the user's own entry when both a public and a custom food match
+    const [userFood] = userFoodsSnapshot?.docs || [];
+    const [publicFood] = publicFoodsSnapshot.docs;
+    const foodDoc = userFood || publicFood;
+    
+    return foodDoc ? convertFoodDoc(foodDoc.id, foodDoc.data()) : null;
+  }
+};
+
+// Find public foods and the user's own foods with any of the search tokens
+async function findFoodsByTokens(searchTokens: string[], userId?: string): Promise<FoodData[]> {
+  const foodsRef = collection(db, 'foods');
+  
+  // Search in public food database. Security rules only allow reading
+  // public foods and the user's own, so the query has to say which it wants.
+  const publicFoodsQuery = query(
+    foodsRef,
+    where('isUserCreated', '==', false),
+    where('nameSearchTokens', 'array-contains-any', searchTokens),
+    limit(MAX_SEARCH_RESULTS)
+  );
+  
+  // Search in user's custom foods
+  const userFoodsQuery = userId
+    ? query(
+        foodsRef,
+        where('userId', '==', userId),
+        where('nameSearchTokens', 'array-contains-any', searchTokens),
+        limit(MAX_SEARCH_RESULTS)
+      )
+    : null;
+  
+  const [publicFoodsSnapshot, userFoodsSnapshot] = await Promise.all([
+    getDocs(publicFoodsQuery),
+    userFoodsQuery ? getDocs(userFoodsQuery) : Promise.resolve(null)
+  ]);
+  
+  const results: FoodData[] = [];
+  
+  publicFoodsSnapshot.forEach(foodDoc => {
+    results.push(convertFoodDoc(foodDoc.id, foodDoc.data()));
+  });
+  
+  userFoodsSnapshot?.forEach(foodDoc => {
+    results.push(convertFoodDoc(foodDoc.id, foodDoc.data()));
+  });
+  
+  return results;
+}
+
+// Convert a Firestore food document into FoodData
+export function convertFoodDoc(id: string, data: Record<string, any>): FoodData {
+  return {
+    id,
+    name: data.name,
+    brand: data.brand,
+    servingSizeUnit: data.servingSizeUnit,
+    servingSize: data.servingSize,
+    calories: data.calories,
+    protein: data.protein,
+    carbs: data.carbs,
+    fat: data.fat,
+    fiber: data.fiber,
+    sugar: data.sugar,
+    sodium: data.sodium,
+    nutrients: data.nutrients,
+    servings: data.servings,
+    barcode: data.barcode,
+    isUserCreated: data.userId ? true : false,
+    userId: data.userId,
+    source: 'firestore',
+    createdAt: data.createdAt.toDate()
+  };
+}
@@ -0,0 +1,69 @@
+import type { FoodData } from '../../stores/foodLogStore';
+import { FoodProvider, mergeProviderResults, resolveFoodId, setFoodProviders } from './index';
+import { createStubProvider, stubProvider } from './stubProvider';
+import stubFoods from './fixtures/stubFoods.json';
+
+// These read from Firebase, which isn't set up in unit tests
+jest.mock('./firestoreProvider', () => ({ firestoreProvider: { id: 'firestore' } }));
+jest.mock('./recipeProvider', () => ({ recipeProvider: { id: 'recipes', idPrefix: 'recipe' } }));
+
+// A provider without an id prefix, like Firestore
+const ownFoods: FoodProvider = {
+  id: 'own',
+  name: 'Own foods',
+  searchFoods: async () => [],
+  getFoodById: async () => null
+};
+
+describe('resolveFoodId', () => {
+  beforeEach(() => {
+    setFoodProviders([ownFoods, stubProvider]);
+  });
+  
+  it('routes prefixed ids to their provider', async () => {
+    const resolved = resolveFoodId('stub:banana');
+    
+    expect(resolved?.provider).toBe(stubProvider);
+    expect(resolved?.localId).toBe('banana');
+    expect(await resolved?.provider.getFoodById(resolved.localId, {})).toMatchObject({
+      id: 'stub:banana',
+      name: 'Banana',
+      source: 'stub'
+    });
+  });
+  
+  it('gives ids without a known prefix to the provider without one', () => {
+    expect(resolveFoodId('abc123')).toEqual({ provider: ownFoods, localId: 'abc123' });
+    expect(resolveFoodId('usda:170379')).toEqual({ provider: ownFoods, localId: 'usda:170379' });
+  });
+  
+  it('resolves nothing when no provider takes unprefixed ids', () => {
+    setFoodProviders([stubProvider]);
+    
+    expect(resolveFoodId('abc123')).toBeNull();
+  });
+});
+
+describe('mergeProviderResults', () => {
+  it('keeps the first provider\'s food for a product found twice', async () => {
+    const stubResults = await stubProvider.searchFoods('', {});
+    // The same oats under their EAN-13 barcode, as another database lists them
+    const otherResults = await createStubProvider([
+      { ...stubFoods[4], id: 'oats-ean', barcode: '0030000010204' },
+      { ...stubFoods[0], id: 'chicken-thigh', name: 'Chicken Thigh' }
+    ]).searchFoods('', {});
+    
+    const merged = mergeProviderResults([stubResults, otherResults]);
+    
+    expect(merged.map(food => food.id)).toEqual([
+      ...stubResults.map(food => food.id),
+      'stub:chicken-thigh'
+    ]);
+  });
+  
+  it('drops repeated ids', () => {
+    const banana = { id: 'stub:banana', name: 'Banana' } as FoodData;
+    
+    expect(mergeProviderResults([[banana], [banana]])).toEqual([banana]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { FoodData } from '../../stores/foodLogStore';
+import { FoodProvider } from './types';
+import { firestoreProvider } from './firestoreProvider';
+import { openFoodFactsProvider } from './openFoodFactsProvider';
+import { createUsdaProvider } from './usdaProvider';
+import { stubProvider } from './stubProvider';
+import { recipeProvider } from './recipeProvider';
+import { getBarcodeVariants } from '../../utils/barcodeDecoder';
+
+export type { FoodProvider, FoodProviderContext } from './types';
+
+// Providers enabled when REACT_APP_FOOD_PROVIDERS is not set
+const DEFAULT_PROVIDER_IDS = ['firestore', 'recipes', 'openfoodfacts', 'usda'];
+
+/**
+ * Build the provider list from the environment, in priority order.
+ * REACT_APP_FOOD_PROVIDERS is a comma-separated list of provider ids
+ * (firestore, recipes, openfoodfacts, usda, stub). USDA is skipped without
+ * REACT_APP_USDA_API_KEY.
+ */
+function createProvidersFromEnv(): FoodProvider[] {
+  const configured = process.env.REACT_APP_FOOD_PROVIDERS;
+  const ids = configured
+    ? configured.split(',').map(id => id.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_PROVIDER_IDS;
+  
+  const providers: FoodProvider[] = [];
+  
+  ids.forEach(id => {
+    switch (id) {
+      case 'firestore':
+        providers.push(firestoreProvider);
+        break;
+      case 'recipes':
+        providers.push(recipeProvider);
+        break;
+      case 'openfoodfacts':
+        providers.push(openFoodFactsProvider);
+        break;
+      case 'usda':
+        if (process.env.REACT_APP_USDA_API_KEY) {
+          providers.push(createUsdaProvider(process.env.REACT_APP_USDA_API_KEY));
+        }
+        break;
+      case 'stub':
+        providers.push(stubProvider);
+        break;
+      default:
+        console.warn(`Unknown food provider "${id}"`);
+    }
+  });
+  
+  return providers;
+}
+
+let activeProviders: FoodProvider[] | null = null;
+
+export function getFoodProviders(): FoodProvider[] {
+  if (!activeProviders) {
+    activeProviders = createProvidersFromEnv();
+  }
+  
+  return activeProviders;
+}
+
+// Replace the active providers (e.g. with the stub provider in tests)
+export function setFoodProviders(providers: FoodProvider[]): void {
+  activeProviders = providers;
+}
+
+/**
+ * Find the provider that owns a food id and strip its prefix.
+ * Ids without a known prefix belong to Firestore.
+ */
+export function resolveFoodId(foodId: string): { provider: FoodProvider; localId: string } | null {
+  const providers = getFoodProviders();
+  const separatorIndex = foodId.indexOf(':');
+  
+  if (separatorIndex > 0) {
+    const prefix = foodId.slice(0, separatorIndex);
+    const provider = providers.find(p => p.idPrefix === prefix);
+    
+    if (provider) {
+      return { provider, localId: foodId.slice(separatorIndex + 1) };
+    }
+  }
+  
+  const fallback = providers.find(p => !p.idPrefix);
+  return fallback ? { provider: fallback, localId: foodId } : null;
+}
+
+/**
+ * Combine results from several providers. Earlier providers win when
+ * the same product (by barcode) is returned more than once.
+ */
+export function mergeProviderResults(resultSets: FoodData[][]): FoodData[] {
+  const seenBarcodes = new Set<string>();
+  const seenIds = new Set<string>();
+  const merged: FoodData[] = [];
+  
+  resultSets.forEach(results => {
+    results.forEach(food => {
+      if (seenIds.has(food.id)) return;
+      
+      const variants = food.barcode ? getBarcodeVariants(food.barcode) : [];
+      if (variants.some(variant => seenBarcodes.has(variant))) return;
+      
+      seenIds.add(food.id);
+      variants.forEach(variant => seenBarcodes.add(variant));
+      merged.push(food);
+    });
+  });
+  
+  return merged;
+}
@@ -0,0 +1,74 @@
+import { normalizeProduct } from './openFoodFactsProvider';
+
+// Rolled oats from the stub fixtures, as Open Food Facts reports them
+const oats = {
+  code: '030000010204',
+  product_name: ' Rolled Oats ',
+  brands: 'Quaker, PepsiCo',
+  serving_size: '1/2 cup (40 g)',
+  serving_quantity: '40',
+  nutriments: {
+    'energy-kcal_100g': 375,
+    proteins_100g: 12.5,
+    carbohydrates_100g: 67.5,
+    fat_100g: 7.5,
+    fiber_100g: '10',
+    sugars_100g: 2.5,
+    sodium_100g: 0.01,
+    'saturated-fat_100g': 1.25,
+    'iron_100g': 0.0036
+  }
+};
+
+describe('normalizeProduct', () => {
+  it('converts a product to a 100 g food', () => {
+    const food = normalizeProduct(oats);
+    
+    expect(food).toMatchObject({
+      id: 'off:030000010204',
+      name: 'Rolled Oats',
+      brand: 'Quaker',
+      servingSize: 100,
+      servingSizeUnit: 'g',
+      calories: 375,
+      protein: 12.5,
+      carbs: 67.5,
+      fat: 7.5,
+      fiber: 10,
+      sodium: 10,
+      barcode: '030000010204',
+      source: 'openfoodfacts',
+      servings: [{ name: '1/2 cup', amount: 40, unit: 'g' }]
+    });
+    expect(food?.nutrients).toEqual({ saturatedFat: 1.25, iron: 3.6 });
+  });
+  
+  it('reads values reported as strings', () => {
+    const food = normalizeProduct({
+      ...oats,
+      nutriments: { 'energy-kcal_100g': '375', proteins_100g: '12.5', fat_100g: 'unknown' }
+    });
+    
+    expect(food).toMatchObject({ calories: 375, protein: 12.5, fat: 0 });
+  });
+  
+  it('leaves missing nutriments out or at zero', () => {
+    const food = normalizeProduct({ code: '1', product_name: 'Water', nutriments: { 'energy-kcal_100g': 0 } });
+    
+    expect(food).toMatchObject({ calories: 0, protein: 0, carbs: 0, fat: 0 });
+    expect(food?.fiber).toBeUndefined();
+    expect(food?.sodium).toBeUndefined();
+    expect(food?.servings).toBeUndefined();
+    expect(food?.nutrients).toEqual({});
+  });
+  
+  it('falls back to kilojoules for energy', () => {
+    expect(normalizeProduct({ ...oats, nutriments: { energy_100g: 1569 } })?.calories).toBe(375);
+  });
+  
+  it('skips products without a name or energy', () => {
+    expect(normalizeProduct({ ...oats, product_name: ' ' })).toBeNull();
+    expect(normalizeProduct({ ...oats, nutriments: { proteins_100g: 12.5 } })).toBeNull();
+    expect(normalizeProduct({ ...oats, nutriments: undefined })).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+import type { FoodData } from '../../stores/foodLogStore';
+import { FoodProvider } from './types';
+import { EXTRA_NUTRIENTS, NutrientKey, NutrientMap, gramsToUnit } from '../../utils/nutrients';
+import { FoodServing, cleanServingName } from '../../utils/servings';
+
+const OFF_BASE_URL = 'https://world.openfoodfacts.org';
+const OFF_FIELDS = 'code,product_name,brands,nutriments,serving_size,serving_quantity,serving_quantity_unit';
+const OFF_PAGE_SIZE = 20;
+
+// Open Food Facts nutriment names for the nutrients kept in FoodData.nutrients
+const OFF_NUTRIENT_NAMES: Partial<Record<NutrientKey, string>> = {
+  saturatedFat: 'saturated-fat',
+  transFat: 'trans-fat',
+  cholesterol: 'cholesterol',
+  potassium: 'potassium',
+  calcium: 'calcium',
+  iron: 'iron',
+  magnesium: 'magnesium',
+  zinc: 'zinc',
+  vitaminA: 'vitamin-a',
+  vitaminC: 'vitamin-c',
+  vitaminD: 'vitamin-d',
+  vitaminB12: 'vitamin-b12'
+};
+
+interface OffProduct {
+  code?: string;
+  product_name?: string;
+  brands?: string;
+  nutriments?: Record<string, number | string | undefined>;
+  serving_size?: string; // as printed on the package, e.g. "1 slice (28 g)"
+  serving_quantity?: number | string;
+  serving_quantity_unit?: string;
+}
+
+interface OffSearchResponse {
+  products?: OffProduct[];
+}
+
+interface OffProductResponse {
+  status?: number; // 1 when found, 0 for an unknown barcode
+  product?: OffProduct;
+}
+
+/**
+ * Open Food Facts (https://world.openfoodfacts.org), a free crowd-sourced
+ * database of packaged foods. Values are normalized to 100 g servings.
+ */
+export const openFoodFactsProvider: FoodProvider = {
+  id: 'openfoodfacts',
+  name: 'Open Food Facts',
+  idPrefix: 'off',
+  
+  searchFoods: async (searchTerm) => {
+    const params = new URLSearchParams({
+      search_terms: searchTerm,
+      search_simple: '1',
+      action: 'process',
+      json: '1',
+      page_size: String(OFF_PAGE_SIZE),
+      fields: OFF_FIELDS
+    });
+    
+    const data = await fetchJson<OffSearchResponse>(`${OFF_BASE_URL}/cgi/search.pl?${params.toString()}`);
+    
+    return (data.products || [])
+      .map(normalizeProduct)
+      .filter((food): food is FoodData => food !== null);
+  },
+  
+  getFoodById: async (code) => {
+    return fetchProduct(code);
+  },
+  
+  findFoodByBarcode: async (barcodes) => {
+    for (const barcode of barcodes) {
+      const food = await fetchProduct(barcode);
+      if (food) return food;
+    }
+    
+    return null;
+  }
+};
+
+// Fetch a single product by barcode
+async function fetchProduct(code: string): Promise<FoodData | null> {
+  const data = await fetchJson<OffProductResponse>(
+    `${OFF_BASE_URL}/api/v2/product/${encodeURIComponent(code)}.json?fields=${OFF_FIELDS}`
+  );
+  
+  if (data.status !== 1 || !data.product) {
+    return null;
+  }
+  
+  return normalizeProduct({ code, ...data.product });
+}
+
+// Unknown products come back as a 404 with a status 0 body, not as an error
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Open Food Facts request failed (${response.status})`);
+  }
+  
+  return response.json();
+}
+
+// Convert an Open Food Facts product into FoodData (per 100 g)
+export function normalizeProduct(product: OffProduct): FoodData | null {
+  const nutriments = product.nutriments || {};
+  const name = product.product_name?.trim();
+  const calories = readNutriment(nutriments, 'energy-kcal_100g')
+    ?? kilojoulesToKcal(readNutriment(nutriments, 'energy_100g'));
+  
+  // Skip products without a name or basic nutrition data
+  if (!product.code || !name || calories === undefined) {
+    return null;
+  }
+  
+  const sodiumGrams = readNutriment(nutriments, 'sodium_100g');
+  
+  return {
+    id: `off:${product.code}`,
+    name,
+    brand: product.brands?.split(',')[0].trim() || undefined,
+    servingSizeUnit: 'g',
+    servingSize: 100,
+    calories: Math.round(calories),
+    protein: roundNutrient(readNutriment(nutriments, 'proteins_100g') || 0),
+    carbs: roundNutrient(readNutriment(nutriments, 'carbohydrates_100g') || 0),
+    fat: roundNutrient(readNutriment(nutriments, 'fat_100g') || 0),
+    fiber: optionalNutrient(readNutriment(nutriments, 'fiber_100g')),
+    sugar: optionalNutrient(readNutriment(nutriments, 'sugars_100g')),
+    // Open Food Facts reports sodium in grams
+    sodium: sodiumGrams !== undefined ? Math.round(sodiumGrams * 1000) : undefined,
+    nutrients: readExtraNutrients(nutriments),
+    servings: readServings(product),
+    barcode: product.code,
+    isUserCreated: false,
+    source: 'openfoodfacts',
+    createdAt: new Date()
+  };
+}
+
+// The package's serving, in grams (or milliliters for drinks)
+function readServings(product: OffProduct): FoodServing[] | undefined {
+  const quantity = product.serving_quantity;
+  const amount = typeof quantity === 'string' ? parseFloat(quantity) : quantity;
+  
+  if (!amount || isNaN(amount) || amount <= 0) {
+    return undefined;
+  }
+  
+  return [{
+    name: cleanServingName(product.serving_size || '') || 'serving',
+    amount: roundNutrient(amount),
+    unit: product.serving_quantity_unit === 'ml' ? 'ml' : 'g'
+  }];
+}
+
+function readNutriment(nutriments: Record<string, number | string | undefined>, key: string): number | undefined {
+  const value = nutriments[key];
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  
+  return parsed === undefined || isNaN(parsed) ? undefined : parsed;
+}
+
+// Open Food Facts reports every nutrient per 100 g in grams
+function readExtraNutrients(nutriments: Record<string, number | string | undefined>): NutrientMap {
+  const nutrients: NutrientMap = {};
+  
+  EXTRA_NUTRIENTS.forEach(({ key, unit }) => {
+    const name = OFF_NUTRIENT_NAMES[key];
+    const grams = name ? readNutriment(nutriments, `${name}_100g`) : undefined;
+    
+    if (grams !== undefined) {
+      nutrients[key] = gramsToUnit(grams, unit);
+    }
+  });
+  
+  return nutrients;
+}
+
+function kilojoulesToKcal(kilojoules: number | undefined): number | undefined {
+  return kilojoules === undefined ? undefined : kilojoules / 4.184;
+}
+
+function roundNutrient(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function optionalNutrient(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : roundNutrient(value);
+}
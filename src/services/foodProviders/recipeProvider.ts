@@ -0,0 +1,49 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  getDoc,
+  getDocs
+} from 'firebase/firestore';
+import { db } from '../../firebase/config';
+import { convertRecipeDoc, recipeToFoodData } from '../../stores/recipeStore';
+import { FoodProvider } from './types';
+
+/**
+ * The current user's saved recipes, exposed as foods with a single
+ * "serving" unit so they can be logged through addFoodItem
+ */
+export const recipeProvider: FoodProvider = {
+  id: 'recipes',
+  name: 'My Recipes',
+  idPrefix: 'recipe',
+  
+  searchFoods: async (searchTerm, { userId }) => {
+    if (!userId) return [];
+    
+    // Users only have a handful of recipes, so match names client-side
+    const recipesQuery = query(
+      collection(db, 'recipes'),
+      where('userId', '==', userId)
+    );
+    
+    const snapshot = await getDocs(recipesQuery);
+    const termLower = searchTerm.toLowerCase();
+    
+    return snapshot.docs
+      .map(recipeDoc => convertRecipeDoc(recipeDoc.id, recipeDoc.data()))
+      .filter(recipe => recipe.name.toLowerCase().includes(termLower))
+      .map(recipeToFoodData);
+  },
+  
+  getFoodById: async (recipeId) => {
+    const recipeDoc = await getDoc(doc(db, 'recipes', recipeId));
+    
+    if (!recipeDoc.exists()) {
+      return null;
+    }
+    
+    return recipeToFoodData(convertRecipeDoc(recipeDoc.id, recipeDoc.data()));
+  }
+};
@@ -0,0 +1,48 @@
+import type { FoodData } from '../../stores/foodLogStore';
+import { FoodProvider } from './types';
+import stubFoods from './fixtures/stubFoods.json';
+
+type StubFood = Omit<FoodData, 'id' | 'isUserCreated' | 'createdAt'> & { id: string };
+
+/**
+ * Fixture-backed provider for tests and offline development.
+ * Enable it with REACT_APP_FOOD_PROVIDERS=stub.
+ */
+export const createStubProvider = (foods: StubFood[] = stubFoods): FoodProvider => {
+  const toFoodData = (food: StubFood): FoodData => ({
+    ...food,
+    id: `stub:${food.id}`,
+    isUserCreated: false,
+    source: 'stub',
+    createdAt: new Date(0)
+  });
+  
+  return {
+    id: 'stub',
+    name: 'Sample foods',
+    idPrefix: 'stub',
+    
+    searchFoods: async (searchTerm) => {
+      const termLower = searchTerm.toLowerCase();
+      
+      return foods
+        .filter(food =>
+          food.name.toLowerCase().includes(termLower) ||
+          (food.brand || '').toLowerCase().includes(termLower)
+        )
+        .map(toFoodData);
+    },
+    
+    getFoodById: async (foodId) => {
+      const food = foods.find(f => f.id === foodId);
+      return food ? toFoodData(food) : null;
+    },
+    
+    findFoodByBarcode: async (barcodes) => {
+      const food = foods.find(f => f.barcode && barcodes.includes(f.barcode));
+      return food ? toFoodData(food) : null;
+    }
+  };
+};
+
+export const stubProvider = createStubProvider();
@@ -0,0 +1,23 @@
+import type { FoodData } from '../../stores/foodLogStore';
+
+// Information about the current user that providers may need
+export interface FoodProviderContext {
+  userId?: string;
+}
+
+/**
+ * A source of food data (our own Firestore collection, an external
+ * nutrition database, or local fixtures) normalized into FoodData.
+ *
+ * Foods from every provider except Firestore carry ids of the form
+ * `${idPrefix}:${externalId}` so getFoodById can be routed back to them.
+ */
+export interface FoodProvider {
+  id: string;
+  name: string;
+  idPrefix?: string;
+  
+  searchFoods: (searchTerm: string, context: FoodProviderContext) => Promise<FoodData[]>;
+  getFoodById: (foodId: string, context: FoodProviderContext) => Promise<FoodData | null>;
+  findFoodByBarcode?: (barcodes: string[], context: FoodProviderContext) => Promise<FoodData | null>;
+}
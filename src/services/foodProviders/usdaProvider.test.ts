@@ -0,0 +1,82 @@
+import { normalizeFdcFood } from './usdaProvider';
+
+// Broccoli from the stub fixtures, as a FoodData Central food detail
+const broccoli = {
+  fdcId: 170379,
+  description: 'BROCCOLI, COOKED, BOILED, DRAINED, WITHOUT SALT',
+  foodNutrients: [
+    { nutrient: { id: 1008 }, amount: 35 },
+    { nutrient: { id: 1003 }, amount: 2.38 },
+    { nutrient: { id: 1005 }, amount: 7.18 },
+    { nutrient: { id: 1004 }, amount: 0.41 },
+    { nutrient: { id: 1079 }, amount: 3.3 },
+    { nutrient: { id: 1093 }, amount: 41 },
+    { nutrient: { id: 1162 }, amount: 64.9 }
+  ],
+  foodPortions: [
+    { gramWeight: 78, portionDescription: '1/2 cup, chopped' },
+    { gramWeight: 37, measureUnit: { name: 'spear' }, modifier: 'about 5" long' }
+  ]
+};
+
+describe('normalizeFdcFood', () => {
+  it('converts a food to a 100 g food', () => {
+    const food = normalizeFdcFood(broccoli);
+    
+    expect(food).toMatchObject({
+      id: 'usda:170379',
+      name: 'Broccoli, Cooked, Boiled, Drained, Without Salt',
+      servingSize: 100,
+      servingSizeUnit: 'g',
+      calories: 35,
+      protein: 2.4,
+      carbs: 7.2,
+      fat: 0.4,
+      fiber: 3.3,
+      sodium: 41,
+      source: 'usda',
+      servings: [
+        { name: '1/2 cup, chopped', amount: 78, unit: 'g' },
+        { name: 'spear, about 5" long', amount: 37, unit: 'g' }
+      ]
+    });
+    expect(food?.nutrients).toEqual({ vitaminC: 64.9 });
+  });
+  
+  it('reads search results and branded label servings', () => {
+    const food = normalizeFdcFood({
+      fdcId: 2,
+      description: 'Greek Yogurt, Plain, Nonfat',
+      brandOwner: 'Fage',
+      gtinUpc: '689544080008',
+      foodNutrients: [{ nutrientId: 2047, value: 53 }, { nutrientId: 1003, value: 10.6 }],
+      servingSize: 170,
+      servingSizeUnit: 'GRM',
+      householdServingFullText: '1 container'
+    });
+    
+    expect(food).toMatchObject({
+      name: 'Greek Yogurt, Plain, Nonfat',
+      brand: 'Fage',
+      barcode: '689544080008',
+      calories: 53,
+      protein: 10.6,
+      servings: [{ name: 'container', amount: 170, unit: 'g' }]
+    });
+  });
+  
+  it('leaves missing nutrients out or at zero', () => {
+    const food = normalizeFdcFood({ fdcId: 3, description: 'Water', foodNutrients: [{ nutrientId: 1008, value: 0 }] });
+    
+    expect(food).toMatchObject({ calories: 0, protein: 0, carbs: 0, fat: 0 });
+    expect(food?.fiber).toBeUndefined();
+    expect(food?.sodium).toBeUndefined();
+    expect(food?.servings).toBeUndefined();
+    expect(food?.nutrients).toEqual({});
+  });
+  
+  it('skips foods without energy', () => {
+    expect(normalizeFdcFood({ ...broccoli, foodNutrients: [{ nutrientId: 1003, value: 2.4 }] })).toBeNull();
+    expect(normalizeFdcFood({ fdcId: 4, description: 'Mystery' })).toBeNull();
+  });
+});
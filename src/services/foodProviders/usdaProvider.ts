@@ -0,0 +1,202 @@
+import type { FoodData } from '../../stores/foodLogStore';
+import { FoodProvider } from './types';
+import { EXTRA_NUTRIENTS, NutrientKey, NutrientMap } from '../../utils/nutrients';
+import { FoodServing, MAX_FOOD_SERVINGS, cleanServingName } from '../../utils/servings';
+
+const FDC_BASE_URL = 'https://api.nal.usda.gov/fdc/v1';
+const FDC_PAGE_SIZE = 20;
+
+// FoodData Central nutrient ids
+const NUTRIENT_IDS = {
+  energy: 1008,
+  energyAtwater: 2047,
+  protein: 1003,
+  fat: 1004,
+  carbs: 1005,
+  fiber: 1079,
+  sugar: 2000,
+  sodium: 1093
+};
+
+// FoodData Central nutrient ids for the nutrients kept in FoodData.nutrients.
+// FDC already reports these in the units used by NUTRIENTS.
+const EXTRA_NUTRIENT_IDS: Partial<Record<NutrientKey, number>> = {
+  saturatedFat: 1258,
+  transFat: 1257,
+  cholesterol: 1253,
+  potassium: 1092,
+  calcium: 1087,
+  iron: 1089,
+  magnesium: 1090,
+  zinc: 1095,
+  vitaminA: 1106,
+  vitaminC: 1162,
+  vitaminD: 1114,
+  vitaminB12: 1178
+};
+
+// Search results and food details report nutrients in slightly different shapes
+interface FdcNutrient {
+  nutrientId?: number;
+  value?: number;
+  nutrient?: { id: number };
+  amount?: number;
+}
+
+// Household measures of generic foods, e.g. "1 cup, chopped" = 91 g
+interface FdcPortion {
+  gramWeight?: number;
+  portionDescription?: string;
+  modifier?: string;
+  measureUnit?: { name?: string };
+}
+
+interface FdcFood {
+  fdcId: number;
+  description: string;
+  brandOwner?: string;
+  brandName?: string;
+  gtinUpc?: string;
+  foodNutrients?: FdcNutrient[];
+  // Branded foods: the label serving
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+  foodPortions?: FdcPortion[];
+}
+
+/**
+ * USDA FoodData Central (https://fdc.nal.usda.gov), covering generic and
+ * branded foods. Requires an API key; values are normalized to 100 g servings.
+ */
+export const createUsdaProvider = (apiKey: string): FoodProvider => {
+  const fetchJson = async (path: string, params: Record<string, string> = {}) => {
+    const searchParams = new URLSearchParams({ ...params, api_key: apiKey });
+    const response = await fetch(`${FDC_BASE_URL}${path}?${searchParams.toString()}`);
+    
+    if (response.status === 404) {
+      return null;
+    }
+    
+    if (!response.ok) {
+      throw new Error(`FoodData Central request failed (${response.status})`);
+    }
+    
+    return response.json();
+  };
+  
+  return {
+    id: 'usda',
+    name: 'USDA FoodData Central',
+    idPrefix: 'usda',
+    
+    searchFoods: async (searchTerm) => {
+      const data = await fetchJson('/foods/search', {
+        query: searchTerm,
+        pageSize: String(FDC_PAGE_SIZE),
+        dataType: 'Foundation,SR Legacy,Branded'
+      });
+      const foods: FdcFood[] = data?.foods || [];
+      
+      return foods
+        .map(normalizeFdcFood)
+        .filter((food): food is FoodData => food !== null);
+    },
+    
+    getFoodById: async (fdcId) => {
+      const data: FdcFood | null = await fetchJson(`/food/${encodeURIComponent(fdcId)}`);
+      return data ? normalizeFdcFood(data) : null;
+    }
+  };
+};
+
+// Convert a FoodData Central food into FoodData (per 100 g)
+export function normalizeFdcFood(food: FdcFood): FoodData | null {
+  const nutrients: Record<number, number> = {};
+  
+  (food.foodNutrients || []).forEach(entry => {
+    const id = entry.nutrientId ?? entry.nutrient?.id;
+    const value = entry.value ?? entry.amount;
+    
+    if (id !== undefined && value !== undefined) {
+      nutrients[id] = value;
+    }
+  });
+  
+  const calories = nutrients[NUTRIENT_IDS.energy] ?? nutrients[NUTRIENT_IDS.energyAtwater];
+  
+  // Skip foods without basic nutrition data
+  if (!food.description || calories === undefined) {
+    return null;
+  }
+  
+  const optional = (id: number) => nutrients[id] === undefined ? undefined : round(nutrients[id]);
+  
+  const extraNutrients: NutrientMap = {};
+  EXTRA_NUTRIENTS.forEach(({ key }) => {
+    const id = EXTRA_NUTRIENT_IDS[key];
+    const value = id !== undefined ? optional(id) : undefined;
+    
+    if (value !== undefined) {
+      extraNutrients[key] = value;
+    }
+  });
+  
+  return {
+    id: `usda:${food.fdcId}`,
+    name: toTitleCase(food.description),
+    brand: food.brandName || food.brandOwner || undefined,
+    servingSizeUnit: 'g',
+    servingSize: 100,
+    calories: Math.round(calories),
+    protein: round(nutrients[NUTRIENT_IDS.protein] || 0),
+    carbs: round(nutrients[NUTRIENT_IDS.carbs] || 0),
+    fat: round(nutrients[NUTRIENT_IDS.fat] || 0),
+    fiber: optional(NUTRIENT_IDS.fiber),
+    sugar: optional(NUTRIENT_IDS.sugar),
+    sodium: nutrients[NUTRIENT_IDS.sodium] === undefined ? undefined : Math.round(nutrients[NUTRIENT_IDS.sodium]),
+    nutrients: extraNutrients,
+    servings: readServings(food),
+    barcode: food.gtinUpc || undefined,
+    isUserCreated: false,
+    source: 'usda',
+    createdAt: new Date()
+  };
+}
+
+// Label servings of branded foods and household measures of generic ones
+function readServings(food: FdcFood): FoodServing[] | undefined {
+  const servings: FoodServing[] = [];
+  const labelUnit = (food.servingSizeUnit || '').toLowerCase();
+  
+  // FDC spells grams and milliliters either way
+  if (food.servingSize && food.servingSize > 0 && ['g', 'grm', 'ml', 'mlt'].includes(labelUnit)) {
+    servings.push({
+      name: cleanServingName(food.householdServingFullText || '') || 'serving',
+      amount: round(food.servingSize),
+      unit: labelUnit.startsWith('m') ? 'ml' : 'g'
+    });
+  }
+  
+  (food.foodPortions || []).forEach(portion => {
+    const unitName = portion.measureUnit?.name === 'undetermined' ? '' : portion.measureUnit?.name;
+    const name = cleanServingName(portion.portionDescription || [unitName, portion.modifier].filter(Boolean).join(', '));
+    
+    if (!name || !portion.gramWeight || servings.some(serving => serving.name === name)) return;
+    
+    servings.push({ name, amount: round(portion.gramWeight), unit: 'g' });
+  });
+  
+  return servings.length > 0 ? servings.slice(0, MAX_FOOD_SERVINGS) : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// FDC descriptions are often upper case ("CHICKEN BREAST, RAW")
+function toTitleCase(text: string): string {
+  if (text !== text.toUpperCase()) return text;
+  
+  return text.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
@@ -8,6 +8,18 @@ import {
 } from 'firebase/auth';
 import { doc, setDoc, getDoc } from 'firebase/firestore';
 import { auth, db } from '../firebase/config';
+import {
+  ActivityLevel,
+  BmrFormula,
+  Gender,
+  Goal,
+  MacroSplit,
+  TargetOverride,
+  TargetSchedule
+} from '../utils/nutritionTargets';
+import { getDeviceTimeZone } from '../utils/logDay';
+import type { MealSlot } from '../utils/mealSlots';
+import type { FavoriteFood } from '../utils/recentFoods';
 
 interface UserProfile {
   uid: string;
@@ -15,11 +27,25 @@ interface UserProfile {
   displayName?: string;
   photoURL?: string;
   onboarded: boolean;
-  goal?: 'maintain' | 'burn' | 'build';
+  goal?: Goal;
+  age?: number;
+  gender?: Gender;
+  weight?: number; // kg, kept in sync with the latest weigh-in
+  height?: number; // cm
+  bodyFat?: number; // %, enables the Katch-McArdle formula
+  activityLevel?: ActivityLevel;
+  bmrFormula?: BmrFormula;
+  macroSplit?: MacroSplit | null;
+  estimatedMaintenance?: number; // kcal, from the adaptive expenditure estimate
   calorieTarget?: number;
   proteinTarget?: number;
   carbTarget?: number;
   fatTarget?: number;
+  targetSchedule?: TargetSchedule | null; // training / rest day cycle, off when unset
+  targetOverrides?: TargetOverride[];
+  timeZone?: string; // IANA zone days are counted in, e.g. 'Europe/London'
+  mealSlots?: MealSlot[]; // the default breakfast, lunch, dinner and snacks when unset
+  favoriteFoods?: FavoriteFood[]; // starred foods, newest first
   createdAt: Date;
 }
 
@@ -57,6 +83,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         uid: user.uid,
         email: user.email || '',
         onboarded: false,
+        timeZone: getDeviceTimeZone(),
         createdAt: new Date(),
       };
       
@@ -95,6 +122,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
           uid: user.uid,
           email: user.email || '',
           onboarded: false,
+          timeZone: getDeviceTimeZone(),
           createdAt: new Date(),
         };
         
@@ -146,6 +174,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
                 uid: user.uid,
                 email: user.email || '',
                 onboarded: false,
+                timeZone: getDeviceTimeZone(),
                 createdAt: new Date(),
               };
               
@@ -13,11 +13,25 @@ import {
   arrayRemove,
   getDoc,
   setDoc,
+  deleteField,
   serverTimestamp
 } from 'firebase/firestore';
 import { db } from '../firebase/config';
 import { useAuthStore } from './authStore';
-import { format } from 'date-fns';
+import { useSyncStore } from './syncStore';
+import { eachDayOfInterval, isSameDay } from 'date-fns';
+import { getBarcodeVariants } from '../utils/barcodeDecoder';
+import { NutrientMap, getNutrients, sumNutrients } from '../utils/nutrients';
+import { getTargetsForDay } from '../utils/nutritionTargets';
+import { LogDay, addLogDays, getUserTimeZone, logDayToDate, toDayKey, toLogDay } from '../utils/logDay';
+import { getMealSlots, sortMealsBySlot } from '../utils/mealSlots';
+import { LoggedFood, summarizeLoggedFoods } from '../utils/recentFoods';
+import { generateSearchTokens } from '../utils/searchTokens';
+import { FoodServing } from '../utils/servings';
+import { QUICK_ADD_FOOD_ID, QUICK_ADD_NAME, QuickAddEntry, checkQuickAddEntry } from '../utils/quickAdd';
+import { rankFoodResults } from '../utils/foodSearchRanking';
+import { rebuildLoggedFood } from '../utils/deletedFoods';
+import { getFoodProviders, resolveFoodId, mergeProviderResults } from '../services/foodProviders';
 
 // Types
 export interface FoodItem {
@@ -26,7 +40,9 @@ export interface FoodItem {
   name: string;
   servingSize: string;
   servingSizeUnit: string;
-  servingQty: number;
+  servingQty: number; // base servings of the food, which nutrition was scaled by
+  servingUnit?: string; // the serving option it was entered in, e.g. 'g'
+  quickAdd?: boolean; // calories and macros entered directly, without a food
   calories: number;
   protein: number;
   carbs: number;
@@ -34,6 +50,8 @@ export interface FoodItem {
   fiber?: number;
   sugar?: number;
   sodium?: number;
+  nutrients?: NutrientMap;
+  barcode?: string;
   addedAt: Date;
 }
 
@@ -41,12 +59,14 @@ export interface Meal {
   id: string;
   userId: string;
   date: Date;
+  logDay: LogDay; // the calendar day in the user's time zone the meal belongs to
   mealType: string;
   foodItems: FoodItem[];
   totalCalories: number;
   totalProtein: number;
   totalCarbs: number;
   totalFat: number;
+  totalNutrients: NutrientMap;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -64,17 +84,34 @@ export interface FoodData {
   fiber?: number;
   sugar?: number;
   sodium?: number;
+  nutrients?: NutrientMap;
+  servings?: FoodServing[]; // other ways to measure it, e.g. "1 slice = 28 g"
   barcode?: string;
   isUserCreated: boolean;
   userId?: string;
+  source?: string;
   createdAt: Date;
 }
 
+// The fields of a custom food the user fills in
+export type CustomFoodInput = Omit<FoodData, 'id' | 'isUserCreated' | 'userId' | 'createdAt'>;
+
 interface NutritionTotals {
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
+  nutrients: NutrientMap;
+}
+
+export interface DailyStats {
+  date: Date;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  itemCount: number;
+  targetMet: boolean;
 }
 
 interface FoodLogState {
@@ -83,24 +120,38 @@ interface FoodLogState {
   selectedFood: FoodData | null;
   searchResults: FoodData[];
   dailyTotals: NutritionTotals;
+  recentFoods: LoggedFood<FoodItem>[];
   isLoading: boolean;
   error: string | null;
   
   // Actions
   fetchMealsForDate: (date: Date) => Promise<void>;
+  fetchMealsForRange: (start: Date, end: Date) => Promise<DailyStats[]>;
+  fetchRecentFoods: () => Promise<LoggedFood<FoodItem>[]>;
   addMeal: (mealType: string, date: Date) => Promise<string>;
+  getOrCreateMeal: (date: Date, mealType: string) => Promise<string>;
   updateMeal: (mealId: string, updates: Partial<Meal>) => Promise<void>;
   deleteMeal: (mealId: string) => Promise<void>;
   addFoodItem: (mealId: string, item: Omit<FoodItem, 'id' | 'addedAt'>) => Promise<void>;
+  addQuickAddItem: (mealId: string, entry: QuickAddEntry) => Promise<void>;
+  copyMeal: (mealId: string, targetDate: Date, targetMealType: string) => Promise<void>;
+  copyDay: (sourceDate: Date, targetDate: Date) => Promise<void>;
   updateFoodItem: (mealId: string, itemId: string, updates: Partial<FoodItem>) => Promise<void>;
+  updateQuickAddItem: (mealId: string, itemId: string, entry: QuickAddEntry) => Promise<void>;
   deleteFoodItem: (itemId: string) => Promise<void>;
-  searchFood: (query: string) => Promise<void>;
+  searchFood: (searchTerm: string) => Promise<void>;
   getFoodById: (foodId: string) => Promise<void>;
-  createCustomFood: (foodData: Omit<FoodData, 'id' | 'isUserCreated' | 'userId' | 'createdAt'>) => Promise<string>;
+  findFoodByBarcode: (barcode: string) => Promise<FoodData | null>;
+  createCustomFood: (foodData: CustomFoodInput) => Promise<string>;
+  updateCustomFood: (foodId: string, foodData: CustomFoodInput) => Promise<void>;
+  deleteCustomFood: (foodId: string) => Promise<void>;
   calculateDailyTotals: (meals: Meal[]) => void;
   clearError: () => void;
 }
 
+// How far back logged foods count as recent
+const RECENT_FOOD_DAYS = 30;
+
 export const useFoodLogStore = create<FoodLogState>((set, get) => ({
   meals: [],
   foodItems: [],
@@ -110,14 +161,16 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
     calories: 0,
     protein: 0,
     carbs: 0,
-    fat: 0
+    fat: 0,
+    nutrients: {}
   },
+  recentFoods: [],
   isLoading: false,
   error: null,
   
   fetchMealsForDate: async (date: Date) => {
     try {
-      const { user } = useAuthStore.getState();
+      const { user, profile } = useAuthStore.getState();
       
       if (!user) {
         throw new Error('User not authenticated');
@@ -125,30 +178,14 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
       
       set({ isLoading: true, error: null });
       
-      // Convert to start and end of day for query
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
+      const meals = await queryMealsForDate(user.uid, date);
+      const mealSlots = getMealSlots(profile);
       
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
-      
-      // Query meals for this date range
-      const mealsRef = collection(db, 'meals');
-      const mealsQuery = query(
-        mealsRef,
-        where('userId', '==', user.uid),
-        where('date', '>=', Timestamp.fromDate(startOfDay)),
-        where('date', '<=', Timestamp.fromDate(endOfDay))
-      );
-      
-      const mealsSnapshot = await getDocs(mealsQuery);
-      
-      if (mealsSnapshot.empty) {
-        // Create default meals if none exist for this date
-        const defaultMealTypes = ['breakfast', 'lunch', 'dinner', 'snacks'];
+      if (meals.length === 0) {
+        // Create the user's meal slots if no meals exist for this date
         const newMeals: Meal[] = [];
         
-        for (const mealType of defaultMealTypes) {
+        for (const { id: mealType } of mealSlots) {
           const mealId = await get().addMeal(mealType, date);
           
           // Create meal object for local state
@@ -156,12 +193,14 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
             id: mealId,
             userId: user.uid,
             date: date,
+            logDay: toDayKey(date),
             mealType: mealType,
             foodItems: [],
             totalCalories: 0,
             totalProtein: 0,
             totalCarbs: 0,
             totalFat: 0,
+            totalNutrients: {},
             createdAt: new Date(),
             updatedAt: new Date()
           });
@@ -178,56 +217,104 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
         return;
       }
       
-      // Process meals with their food items
-      const meals: Meal[] = [];
+      set({ 
+        meals: sortMealsBySlot(meals, mealSlots),
+        isLoading: false 
+      });
       
-      for (const mealDoc of mealsSnapshot.docs) {
-        const mealData = mealDoc.data();
+      // Calculate daily totals
+      get().calculateDailyTotals(meals);
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+    }
+  },
+  
+  // Range loads run alongside the day view, so they leave isLoading and error
+  // alone and reject for the caller to handle instead
+  fetchMealsForRange: async (start, end) => {
+    const { user, profile } = useAuthStore.getState();
+    
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+    
+    const meals = await queryMealsForDays(user.uid, toDayKey(start), toDayKey(end));
+    
+    // Start every day in the range at zero so days without meals still show up
+    const statsByDay: Record<LogDay, DailyStats> = {};
+    
+    eachDayOfInterval({ start: logDayToDate(toDayKey(start)), end: logDayToDate(toDayKey(end)) }).forEach(day => {
+      statsByDay[toDayKey(day)] = {
+        date: day,
+        calories: 0,
+        protein: 0,
+        carbs: 0,
+        fat: 0,
+        itemCount: 0,
+        targetMet: false
+      };
+    });
+    
+    meals.forEach(meal => {
+      const dayStats = statsByDay[meal.logDay];
+      
+      if (!dayStats) return;
+      
+      dayStats.calories += meal.totalCalories;
+      dayStats.protein += meal.totalProtein;
+      dayStats.carbs += meal.totalCarbs;
+      dayStats.fat += meal.totalFat;
+      dayStats.itemCount += meal.foodItems.length;
+    });
+    
+    // A day is on target when calories land within 10% of that day's target
+    return Object.values(statsByDay)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map(day => {
+        const { calorieTarget } = getTargetsForDay(profile, toDayKey(day.date));
         
-        // Convert Firestore timestamp to Date
-        const meal: Meal = {
-          id: mealDoc.id,
-          userId: mealData.userId,
-          date: mealData.date.toDate(),
-          mealType: mealData.mealType,
-          foodItems: mealData.foodItems.map((item: any) => ({
-            ...item,
-            addedAt: item.addedAt.toDate()
-          })),
-          totalCalories: mealData.totalCalories,
-          totalProtein: mealData.totalProtein,
-          totalCarbs: mealData.totalCarbs,
-          totalFat: mealData.totalFat,
-          createdAt: mealData.createdAt.toDate(),
-          updatedAt: mealData.updatedAt.toDate()
+        return {
+          ...day,
+          calories: Math.round(day.calories),
+          protein: Math.round(day.protein * 10) / 10,
+          carbs: Math.round(day.carbs * 10) / 10,
+          fat: Math.round(day.fat * 10) / 10,
+          targetMet: day.itemCount > 0 && Math.abs(day.calories - calorieTarget) / calorieTarget < 0.1
         };
-        
-        meals.push(meal);
+      });
+  },
+  
+  fetchRecentFoods: async () => {
+    try {
+      const { user, profile } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
       }
       
+      set({ isLoading: true, error: null });
+      
+      const today = toLogDay(new Date(), getUserTimeZone(profile));
+      const meals = await queryMealsForDays(user.uid, addLogDays(today, -RECENT_FOOD_DAYS), today);
+      const recentFoods = summarizeLoggedFoods(meals);
+      
       set({ 
-        meals: meals.sort((a, b) => {
-          // Custom sort order: breakfast, lunch, dinner, snacks
-          const mealOrder: Record<string, number> = {
-            breakfast: 1,
-            lunch: 2, 
-            dinner: 3,
-            snacks: 4
-          };
-          
-          return (mealOrder[a.mealType] || 99) - (mealOrder[b.mealType] || 99);
-        }),
+        recentFoods,
         isLoading: false 
       });
       
-      // Calculate daily totals
-      get().calculateDailyTotals(meals);
+      return recentFoods;
       
     } catch (error) {
       set({ 
         error: (error as Error).message,
         isLoading: false 
       });
+      return [];
     }
   },
   
@@ -243,17 +330,22 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
       const newMeal = {
         userId: user.uid,
         date: Timestamp.fromDate(date),
+        logDay: toDayKey(date),
         mealType: mealType.toLowerCase(),
         foodItems: [],
         totalCalories: 0,
         totalProtein: 0,
         totalCarbs: 0,
         totalFat: 0,
+        totalNutrients: {},
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
       };
       
-      const mealRef = await addDoc(collection(db, 'meals'), newMeal);
+      // Generate the id locally so the meal can be used before the server confirms it
+      const mealRef = doc(collection(db, 'meals'));
+      useSyncStore.getState().trackMutation(`Create ${newMeal.mealType}`, setDoc(mealRef, newMeal));
+      
       return mealRef.id;
       
     } catch (error) {
@@ -262,6 +354,25 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
     }
   },
   
+  getOrCreateMeal: async (date, mealType) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      // The day on screen is already loaded
+      const loaded = get().meals.find(m => m.logDay === toDayKey(date) && m.mealType === mealType.toLowerCase());
+      
+      return loaded ? loaded.id : await findOrCreateMeal(user.uid, date, mealType);
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+      return '';
+    }
+  },
+  
   updateMeal: async (mealId, updates) => {
     try {
       const { user } = useAuthStore.getState();
@@ -341,35 +452,23 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
         addedAt: new Date()
       };
       
-      // Get current meal data
-      const meal = get().meals.find(m => m.id === mealId);
+      // Get current meal data (meals on other days aren't in local state)
+      const meal = get().meals.find(m => m.id === mealId) || await fetchMealById(mealId);
       
       if (!meal) {
         throw new Error('Meal not found');
       }
       
-      // Calculate new meal totals
-      const newTotalCalories = meal.totalCalories + foodItem.calories;
-      const newTotalProtein = meal.totalProtein + foodItem.protein;
-      const newTotalCarbs = meal.totalCarbs + foodItem.carbs;
-      const newTotalFat = meal.totalFat + foodItem.fat;
-      
-      // Update Firestore - convert Date to Firestore Timestamp
-      const firestoreItem = {
-        ...foodItem,
-        addedAt: Timestamp.fromDate(foodItem.addedAt)
-      };
-      
-      await updateDoc(doc(db, 'meals', mealId), {
-        foodItems: arrayUnion(firestoreItem),
+      // Recalculate meal totals from all of its items
+      const {
         totalCalories: newTotalCalories,
         totalProtein: newTotalProtein,
         totalCarbs: newTotalCarbs,
         totalFat: newTotalFat,
-        updatedAt: serverTimestamp()
-      });
+        totalNutrients: newTotalNutrients
+      } = calculateMealTotals([...meal.foodItems, foodItem]);
       
-      // Update local state
+      // Update local state first so the item shows up even while offline
       set(state => ({
         meals: state.meals.map(m => 
           m.id === mealId 
@@ -380,6 +479,7 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
                 totalProtein: newTotalProtein,
                 totalCarbs: newTotalCarbs,
                 totalFat: newTotalFat,
+                totalNutrients: newTotalNutrients,
                 updatedAt: new Date()
               } 
             : m
@@ -396,17 +496,119 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
               totalProtein: newTotalProtein,
               totalCarbs: newTotalCarbs,
               totalFat: newTotalFat,
+              totalNutrients: newTotalNutrients,
               updatedAt: new Date()
             } 
           : m
       );
       get().calculateDailyTotals(updatedMeals);
       
+      // Queue the Firestore write - convert Date to Firestore Timestamp
+      const firestoreItem = {
+        ...foodItem,
+        addedAt: Timestamp.fromDate(foodItem.addedAt)
+      };
+      
+      useSyncStore.getState().trackMutation(
+        `Add ${foodItem.name}`,
+        updateDoc(doc(db, 'meals', mealId), {
+          foodItems: arrayUnion(firestoreItem),
+          totalCalories: newTotalCalories,
+          totalProtein: newTotalProtein,
+          totalCarbs: newTotalCarbs,
+          totalFat: newTotalFat,
+          totalNutrients: newTotalNutrients,
+          updatedAt: serverTimestamp()
+        }),
+        reloadDisplayedMeals
+      );
+      
     } catch (error) {
       set({ error: (error as Error).message });
     }
   },
   
+  addQuickAddItem: async (mealId, entry) => {
+    try {
+      const problem = checkQuickAddEntry(entry);
+      
+      if (problem) {
+        throw new Error(problem);
+      }
+      
+      await get().addFoodItem(mealId, toQuickAddItem(entry));
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+  
+  copyMeal: async (mealId, targetDate, targetMealType) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      set({ isLoading: true, error: null });
+      
+      const meal = get().meals.find(m => m.id === mealId) || await fetchMealById(mealId);
+      
+      if (!meal) {
+        throw new Error('Meal not found');
+      }
+      
+      await copyMealItems(meal, targetDate, targetMealType);
+      await refreshIfShowing(targetDate);
+      
+      set({ isLoading: false });
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+    }
+  },
+  
+  copyDay: async (sourceDate, targetDate) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      if (isSameDay(sourceDate, targetDate)) {
+        throw new Error('Choose a different day to copy to');
+      }
+      
+      set({ isLoading: true, error: null });
+      
+      const sourceMeals = await queryMealsForDate(user.uid, sourceDate);
+      const mealsWithItems = sourceMeals.filter(meal => meal.foodItems.length > 0);
+      
+      if (mealsWithItems.length === 0) {
+        throw new Error('There is nothing logged on this day to copy');
+      }
+      
+      for (const meal of mealsWithItems) {
+        await copyMealItems(meal, targetDate, meal.mealType);
+      }
+      
+      await refreshIfShowing(targetDate);
+      
+      set({ isLoading: false });
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+    }
+  },
+  
   updateFoodItem: async (mealId, itemId, updates) => {
     try {
       const { user } = useAuthStore.getState();
@@ -432,40 +634,27 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
       // Create the updated food item
       const updatedItem = { ...foodItem, ...updates };
       
-      // Calculate the differences in nutrition values
-      const caloriesDiff = updatedItem.calories - foodItem.calories;
-      const proteinDiff = updatedItem.protein - foodItem.protein;
-      const carbsDiff = updatedItem.carbs - foodItem.carbs;
-      const fatDiff = updatedItem.fat - foodItem.fat;
-      
-      // Calculate new meal totals
-      const newTotalCalories = meal.totalCalories + caloriesDiff;
-      const newTotalProtein = meal.totalProtein + proteinDiff;
-      const newTotalCarbs = meal.totalCarbs + carbsDiff;
-      const newTotalFat = meal.totalFat + fatDiff;
-      
       // Need to update the entire foodItems array since arrayRemove/arrayUnion doesn't work well for updates
       const updatedFoodItems = meal.foodItems.map(f => 
         f.id === itemId ? updatedItem : f
       );
       
+      // Recalculate meal totals from all of its items
+      const {
+        totalCalories: newTotalCalories,
+        totalProtein: newTotalProtein,
+        totalCarbs: newTotalCarbs,
+        totalFat: newTotalFat,
+        totalNutrients: newTotalNutrients
+      } = calculateMealTotals(updatedFoodItems);
+      
       // Convert to Firestore format
       const firestoreFoodItems = updatedFoodItems.map(f => ({
         ...f,
         addedAt: Timestamp.fromDate(f.addedAt)
       }));
       
-      // Update in Firestore
-      await updateDoc(doc(db, 'meals', mealId), {
-        foodItems: firestoreFoodItems,
-        totalCalories: newTotalCalories,
-        totalProtein: newTotalProtein,
-        totalCarbs: newTotalCarbs,
-        totalFat: newTotalFat,
-        updatedAt: serverTimestamp()
-      });
-      
-      // Update local state
+      // Update local state first so the change shows up even while offline
       set(state => ({
         meals: state.meals.map(m => 
           m.id === mealId 
@@ -476,6 +665,7 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
                 totalProtein: newTotalProtein,
                 totalCarbs: newTotalCarbs,
                 totalFat: newTotalFat,
+                totalNutrients: newTotalNutrients,
                 updatedAt: new Date()
               } 
             : m
@@ -492,12 +682,43 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
               totalProtein: newTotalProtein,
               totalCarbs: newTotalCarbs,
               totalFat: newTotalFat,
+              totalNutrients: newTotalNutrients,
               updatedAt: new Date()
             } 
           : m
       );
       get().calculateDailyTotals(updatedMeals);
       
+      // Queue the Firestore write
+      useSyncStore.getState().trackMutation(
+        `Update ${updatedItem.name}`,
+        updateDoc(doc(db, 'meals', mealId), {
+          foodItems: firestoreFoodItems,
+          totalCalories: newTotalCalories,
+          totalProtein: newTotalProtein,
+          totalCarbs: newTotalCarbs,
+          totalFat: newTotalFat,
+          totalNutrients: newTotalNutrients,
+          updatedAt: serverTimestamp()
+        }),
+        reloadDisplayedMeals
+      );
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+  
+  updateQuickAddItem: async (mealId, itemId, entry) => {
+    try {
+      const problem = checkQuickAddEntry(entry);
+      
+      if (problem) {
+        throw new Error(problem);
+      }
+      
+      await get().updateFoodItem(mealId, itemId, toQuickAddItem(entry));
+      
     } catch (error) {
       set({ error: (error as Error).message });
     }
@@ -527,12 +748,6 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
         throw new Error('Food item not found');
       }
       
-      // Calculate new meal totals
-      const newTotalCalories = meal.totalCalories - foodItem.calories;
-      const newTotalProtein = meal.totalProtein - foodItem.protein;
-      const newTotalCarbs = meal.totalCarbs - foodItem.carbs;
-      const newTotalFat = meal.totalFat - foodItem.fat;
-      
       // Convert to Firestore format for arrayRemove
       const firestoreItem = {
         ...foodItem,
@@ -542,23 +757,22 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
       // Need to update the entire foodItems array since arrayRemove has limitations with complex objects
       const updatedFoodItems = meal.foodItems.filter(f => f.id !== itemId);
       
+      // Recalculate meal totals from the remaining items
+      const {
+        totalCalories: newTotalCalories,
+        totalProtein: newTotalProtein,
+        totalCarbs: newTotalCarbs,
+        totalFat: newTotalFat,
+        totalNutrients: newTotalNutrients
+      } = calculateMealTotals(updatedFoodItems);
+      
       // Convert to Firestore format
       const firestoreFoodItems = updatedFoodItems.map(f => ({
         ...f,
         addedAt: Timestamp.fromDate(f.addedAt)
       }));
       
-      // Update in Firestore
-      await updateDoc(doc(db, 'meals', meal.id), {
-        foodItems: firestoreFoodItems,
-        totalCalories: newTotalCalories,
-        totalProtein: newTotalProtein,
-        totalCarbs: newTotalCarbs,
-        totalFat: newTotalFat,
-        updatedAt: serverTimestamp()
-      });
-      
-      // Update local state
+      // Update local state first so the change shows up even while offline
       set(state => ({
         meals: state.meals.map(m => 
           m.id === meal.id 
@@ -569,6 +783,7 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
                 totalProtein: newTotalProtein,
                 totalCarbs: newTotalCarbs,
                 totalFat: newTotalFat,
+                totalNutrients: newTotalNutrients,
                 updatedAt: new Date()
               } 
             : m
@@ -585,20 +800,36 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
               totalProtein: newTotalProtein,
               totalCarbs: newTotalCarbs,
               totalFat: newTotalFat,
+              totalNutrients: newTotalNutrients,
               updatedAt: new Date()
             } 
           : m
       );
       get().calculateDailyTotals(updatedMeals);
       
+      // Queue the Firestore write
+      useSyncStore.getState().trackMutation(
+        `Remove ${foodItem.name}`,
+        updateDoc(doc(db, 'meals', meal.id), {
+          foodItems: firestoreFoodItems,
+          totalCalories: newTotalCalories,
+          totalProtein: newTotalProtein,
+          totalCarbs: newTotalCarbs,
+          totalFat: newTotalFat,
+          totalNutrients: newTotalNutrients,
+          updatedAt: serverTimestamp()
+        }),
+        reloadDisplayedMeals
+      );
+      
     } catch (error) {
       set({ error: (error as Error).message });
     }
   },
   
-  searchFood: async (query) => {
+  searchFood: async (searchTerm) => {
     try {
-      if (!query || query.length < 2) {
+      if (!searchTerm || searchTerm.length < 2) {
         set({ searchResults: [] });
         return;
       }
@@ -611,77 +842,36 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
       
       set({ isLoading: true, error: null });
       
-      // Query for foods that match the search term
-      const foodsRef = collection(db, 'foods');
-      const queryLower = query.toLowerCase();
-      
-      // Search in public food database
-      const publicFoodsQuery = query(
-        foodsRef,
-        where('nameSearchTokens', 'array-contains', queryLower)
+      // Query every provider in parallel; one failing source shouldn't hide the others
+      const providers = getFoodProviders();
+      const settled = await Promise.allSettled(
+        providers.map(provider => provider.searchFoods(searchTerm, { userId: user.uid }))
       );
       
-      // Search in user's custom foods
-      const userFoodsQuery = query(
-        foodsRef,
-        where('userId', '==', user.uid),
-        where('nameSearchTokens', 'array-contains', queryLower)
-      );
+      const resultSets: FoodData[][] = [];
       
-      const [publicFoodsSnapshot, userFoodsSnapshot] = await Promise.all([
-        getDocs(publicFoodsQuery),
-        getDocs(userFoodsQuery)
-      ]);
-      
-      const results: FoodData[] = [];
-      
-      // Process public foods
-      publicFoodsSnapshot.forEach(doc => {
-        const data = doc.data();
-        results.push({
-          id: doc.id,
-          name: data.name,
-          brand: data.brand,
-          servingSizeUnit: data.servingSizeUnit,
-          servingSize: data.servingSize,
-          calories: data.calories,
-          protein: data.protein,
-          carbs: data.carbs,
-          fat: data.fat,
-          fiber: data.fiber,
-          sugar: data.sugar,
-          sodium: data.sodium,
-          barcode: data.barcode,
-          isUserCreated: false,
-          createdAt: data.createdAt.toDate()
-        });
+      settled.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          resultSets.push(result.value);
+        } else {
+          console.error(`Food search failed for ${providers[index].name}:`, result.reason);
+        }
       });
       
-      // Process user's custom foods
-      userFoodsSnapshot.forEach(doc => {
-        const data = doc.data();
-        results.push({
-          id: doc.id,
-          name: data.name,
-          brand: data.brand,
-          servingSizeUnit: data.servingSizeUnit,
-          servingSize: data.servingSize,
-          calories: data.calories,
-          protein: data.protein,
-          carbs: data.carbs,
-          fat: data.fat,
-          fiber: data.fiber,
-          sugar: data.sugar,
-          sodium: data.sodium,
-          barcode: data.barcode,
-          isUserCreated: true,
-          userId: data.userId,
-          createdAt: data.createdAt.toDate()
-        });
+      if (providers.length > 0 && resultSets.length === 0) {
+        throw new Error('Food search is unavailable. Please try again later.');
+      }
+      
+      // Best matches first, boosting the user's own foods and what they log often
+      const logCounts: Record<string, number> = {};
+      get().recentFoods.forEach(({ foodId, count }) => {
+        logCounts[foodId] = count;
       });
       
-      // Sort results by name
-      results.sort((a, b) => a.name.localeCompare(b.name));
+      const results = rankFoodResults(searchTerm, mergeProviderResults(resultSets), {
+        userId: user.uid,
+        logCounts
+      });
       
       set({ 
         searchResults: results,
@@ -700,32 +890,20 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
     try {
       set({ isLoading: true, error: null });
       
-      const foodDoc = await getDoc(doc(db, 'foods', foodId));
+      const resolved = resolveFoodId(foodId);
       
-      if (!foodDoc.exists()) {
+      if (!resolved) {
         throw new Error('Food not found');
       }
       
-      const data = foodDoc.data();
-      
-      const food: FoodData = {
-        id: foodDoc.id,
-        name: data.name,
-        brand: data.brand,
-        servingSizeUnit: data.servingSizeUnit,
-        servingSize: data.servingSize,
-        calories: data.calories,
-        protein: data.protein,
-        carbs: data.carbs,
-        fat: data.fat,
-        fiber: data.fiber,
-        sugar: data.sugar,
-        sodium: data.sodium,
-        barcode: data.barcode,
-        isUserCreated: data.userId ? true : false,
-        userId: data.userId,
-        createdAt: data.createdAt.toDate()
-      };
+      const { user } = useAuthStore.getState();
+      // A deleted food can still be looked at (and logged again) as it was last logged
+      const food = await resolved.provider.getFoodById(resolved.localId, { userId: user?.uid })
+        || findLoggedFood(foodId);
+      
+      if (!food) {
+        throw new Error('Food not found');
+      }
       
       set({ 
         selectedFood: food,
@@ -740,7 +918,7 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
     }
   },
   
-  createCustomFood: async (foodData) => {
+  findFoodByBarcode: async (barcode) => {
     try {
       const { user } = useAuthStore.getState();
       
@@ -748,23 +926,61 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
         throw new Error('User not authenticated');
       }
       
+      // UPC-A codes may be stored with or without the leading EAN-13 zero
+      const variants = getBarcodeVariants(barcode);
+      
+      if (variants.length === 0) {
+        throw new Error('Invalid barcode');
+      }
+      
       set({ isLoading: true, error: null });
       
-      // Generate search tokens for the food name (for easier searching)
-      const nameSearchTokens = generateSearchTokens(foodData.name);
-      if (foodData.brand) {
-        generateSearchTokens(foodData.brand).forEach(token => {
-          if (!nameSearchTokens.includes(token)) {
-            nameSearchTokens.push(token);
-          }
-        });
+      // Ask providers in priority order and stop at the first match
+      let food: FoodData | null = null;
+      
+      for (const provider of getFoodProviders()) {
+        if (!provider.findFoodByBarcode) continue;
+        
+        try {
+          food = await provider.findFoodByBarcode(variants, { userId: user.uid });
+        } catch (providerError) {
+          console.error(`Barcode lookup failed for ${provider.name}:`, providerError);
+        }
+        
+        if (food) break;
+      }
+      
+      set({ 
+        selectedFood: food,
+        isLoading: false 
+      });
+      
+      return food;
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+      return null;
+    }
+  },
+  
+  createCustomFood: async (foodData) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
       }
       
-      // Create the new food
+      set({ isLoading: true, error: null });
+      
+      // Create the new food, with prefix tokens of its name and brand for searching
       const newFood = {
         ...foodData,
         userId: user.uid,
-        nameSearchTokens,
+        nameSearchTokens: generateSearchTokens(foodData.name, foodData.brand),
         isUserCreated: true,
         createdAt: serverTimestamp()
       };
@@ -784,6 +1000,69 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
     }
   },
   
+  updateCustomFood: async (foodId, foodData) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      set({ isLoading: true, error: null });
+      
+      // A cleared barcode has to be removed rather than left as it was
+      const { barcode, ...food } = foodData;
+      
+      await updateDoc(doc(db, 'foods', foodId), {
+        ...food,
+        barcode: barcode || deleteField(),
+        nameSearchTokens: generateSearchTokens(food.name, food.brand),
+        updatedAt: serverTimestamp()
+      });
+      
+      // Meals it was already logged to keep the nutrition they were logged with
+      const updateFood = (existing: FoodData) => (existing.id === foodId ? { ...existing, ...foodData } : existing);
+      
+      set(state => ({
+        selectedFood: state.selectedFood && updateFood(state.selectedFood),
+        searchResults: state.searchResults.map(updateFood),
+        isLoading: false
+      }));
+      
+      await updateFavoriteFood(foodId, foodData);
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+    }
+  },
+  
+  deleteCustomFood: async (foodId) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      set({ error: null });
+      
+      await deleteDoc(doc(db, 'foods', foodId));
+      
+      set(state => ({
+        selectedFood: state.selectedFood?.id === foodId ? null : state.selectedFood,
+        searchResults: state.searchResults.filter(food => food.id !== foodId)
+      }));
+      
+      await updateFavoriteFood(foodId, null);
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+  
   calculateDailyTotals: (meals) => {
     const totals = {
       calories: 0,
@@ -805,31 +1084,223 @@ export const useFoodLogStore = create<FoodLogState>((set, get) => ({
     totals.carbs = Math.round(totals.carbs * 10) / 10;
     totals.fat = Math.round(totals.fat * 10) / 10;
     
-    set({ dailyTotals: totals });
+    set({
+      dailyTotals: {
+        ...totals,
+        nutrients: sumNutrients(meals.map(meal => meal.totalNutrients))
+      }
+    });
   },
   
   clearError: () => set({ error: null })
 }));
 
-// Helper function to generate search tokens from a food name
-function generateSearchTokens(text: string): string[] {
-  if (!text) return [];
+// Helper function to keep a starred food's saved name and calories current,
+// or unstar it once the food is deleted
+async function updateFavoriteFood(foodId: string, food: CustomFoodInput | null) {
+  const { profile, updateProfile } = useAuthStore.getState();
+  const favoriteFoods = profile?.favoriteFoods || [];
   
-  // Lowercase and remove special characters
-  const normalizedText = text.toLowerCase().replace(/[^a-z0-9 ]/g, '');
+  if (!favoriteFoods.some(favorite => favorite.foodId === foodId)) return;
   
-  // Split by spaces and filter out empty strings and words shorter than 2 chars
-  const words = normalizedText.split(' ').filter(word => word.length >= 2);
+  if (!food) {
+    await updateProfile({ favoriteFoods: favoriteFoods.filter(favorite => favorite.foodId !== foodId) });
+    return;
+  }
   
-  // Add the full text as a token
-  const tokens = [normalizedText];
+  const updated = {
+    foodId,
+    name: food.name,
+    ...(food.brand ? { brand: food.brand } : {}),
+    calories: food.calories,
+    servingSizeUnit: food.servingSizeUnit
+  };
   
-  // Add individual words as tokens
-  words.forEach(word => {
-    if (!tokens.includes(word)) {
-      tokens.push(word);
-    }
+  await updateProfile({
+    favoriteFoods: favoriteFoods.map(favorite => (favorite.foodId === foodId ? updated : favorite))
   });
+}
+
+// Helper function to rebuild one serving of a food from the last time it was
+// logged, for foods that have since been deleted
+function findLoggedFood(foodId: string): FoodData | null {
+  const { meals, recentFoods } = useFoodLogStore.getState();
+  
+  return rebuildLoggedFood(foodId, [
+    ...meals.flatMap(meal => meal.foodItems),
+    ...recentFoods.map(recentFood => recentFood.latest)
+  ]);
+}
+
+// Helper function to build the food item for a quick-add entry
+function toQuickAddItem(entry: QuickAddEntry): Omit<FoodItem, 'id' | 'addedAt'> {
+  const round = (value = 0) => Math.round(value * 10) / 10;
+  
+  return {
+    foodId: QUICK_ADD_FOOD_ID,
+    name: entry.label?.trim() || QUICK_ADD_NAME,
+    servingSize: '1 serving',
+    servingSizeUnit: 'serving',
+    servingQty: 1,
+    calories: Math.round(entry.calories),
+    protein: round(entry.protein),
+    carbs: round(entry.carbs),
+    fat: round(entry.fat),
+    quickAdd: true
+  };
+}
+
+// Helper function to convert a Firestore meal document into a Meal
+function convertMealDoc(id: string, mealData: Record<string, any>): Meal {
+  return {
+    id,
+    userId: mealData.userId,
+    date: mealData.date.toDate(),
+    // Meals logged before log days belong to the local day of their date
+    logDay: mealData.logDay || toDayKey(mealData.date.toDate()),
+    mealType: mealData.mealType,
+    foodItems: mealData.foodItems.map((item: any) => ({
+      ...item,
+      addedAt: item.addedAt.toDate()
+    })),
+    totalCalories: mealData.totalCalories,
+    totalProtein: mealData.totalProtein,
+    totalCarbs: mealData.totalCarbs,
+    totalFat: mealData.totalFat,
+    // Meals logged before nutrient totals existed are summed from their items
+    totalNutrients: mealData.totalNutrients || sumNutrients(mealData.foodItems.map(getNutrients)),
+    createdAt: mealData.createdAt.toDate(),
+    updatedAt: mealData.updatedAt.toDate()
+  };
+}
+
+// Helper function to load a user's meals for one day from Firestore
+async function queryMealsForDate(userId: string, date: Date): Promise<Meal[]> {
+  const logDay = toDayKey(date);
+  return queryMealsForDays(userId, logDay, logDay);
+}
+
+// Helper function to load a user's meals for a range of log days. Meals
+// logged before log days existed are found by their date instead.
+async function queryMealsForDays(userId: string, firstDay: LogDay, lastDay: LogDay): Promise<Meal[]> {
+  const mealsRef = collection(db, 'meals');
+  
+  const [mealsSnapshot, legacySnapshot] = await Promise.all([
+    getDocs(query(
+      mealsRef,
+      where('userId', '==', userId),
+      where('logDay', '>=', firstDay),
+      where('logDay', '<=', lastDay)
+    )),
+    getDocs(query(
+      mealsRef,
+      where('userId', '==', userId),
+      where('date', '>=', Timestamp.fromDate(logDayToDate(firstDay))),
+      where('date', '<', Timestamp.fromDate(logDayToDate(addLogDays(lastDay, 1))))
+    ))
+  ]);
+  
+  return [
+    ...mealsSnapshot.docs.map(mealDoc => convertMealDoc(mealDoc.id, mealDoc.data())),
+    ...legacySnapshot.docs
+      .filter(mealDoc => !mealDoc.data().logDay)
+      .map(mealDoc => convertMealDoc(mealDoc.id, mealDoc.data()))
+  ];
+}
+
+// Helper function to load a single meal that isn't in local state
+async function fetchMealById(mealId: string): Promise<Meal | null> {
+  const mealDoc = await getDoc(doc(db, 'meals', mealId));
+  return mealDoc.exists() ? convertMealDoc(mealDoc.id, mealDoc.data()) : null;
+}
+
+// Helper function to sum a meal's totals from its food items
+function calculateMealTotals(foodItems: FoodItem[]) {
+  const totals = foodItems.reduce((sum, item) => ({
+    totalCalories: sum.totalCalories + item.calories,
+    totalProtein: sum.totalProtein + item.protein,
+    totalCarbs: sum.totalCarbs + item.carbs,
+    totalFat: sum.totalFat + item.fat
+  }), { totalCalories: 0, totalProtein: 0, totalCarbs: 0, totalFat: 0 });
+  
+  // Round to 1 decimal place to avoid floating point drift
+  return {
+    totalCalories: Math.round(totals.totalCalories * 10) / 10,
+    totalProtein: Math.round(totals.totalProtein * 10) / 10,
+    totalCarbs: Math.round(totals.totalCarbs * 10) / 10,
+    totalFat: Math.round(totals.totalFat * 10) / 10,
+    totalNutrients: sumNutrients(foodItems.map(getNutrients))
+  };
+}
+
+// Helper function to find the meal of a type on a day, creating it if needed
+async function findOrCreateMeal(userId: string, date: Date, targetMealType: string): Promise<string> {
+  const { addMeal } = useFoodLogStore.getState();
+  
+  const mealType = targetMealType.toLowerCase();
+  const dayMeals = await queryMealsForDate(userId, date);
+  let mealId = dayMeals.find(m => m.mealType === mealType)?.id;
+  
+  if (!mealId) {
+    // Set up the user's meal slots first so the day looks like any other
+    if (dayMeals.length === 0) {
+      for (const slot of getMealSlots(useAuthStore.getState().profile)) {
+        const newMealId = await addMeal(slot.id, date);
+        
+        if (slot.id === mealType) {
+          mealId = newMealId;
+        }
+      }
+    }
+    
+    if (!mealId) {
+      mealId = await addMeal(mealType, date);
+    }
+  }
+  
+  return mealId;
+}
+
+// Helper function to copy every item of a meal into a meal on another day
+async function copyMealItems(sourceMeal: Meal, targetDate: Date, targetMealType: string) {
+  const { user } = useAuthStore.getState();
+  const { addFoodItem } = useFoodLogStore.getState();
+  
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  
+  const targetMealId = await findOrCreateMeal(user.uid, targetDate, targetMealType);
+  
+  if (!targetMealId) {
+    throw new Error('Could not create the target meal');
+  }
+  
+  for (const item of sourceMeal.foodItems) {
+    const { id, addedAt, ...itemData } = item;
+    await addFoodItem(targetMealId, itemData);
+    
+    // addFoodItem records failures in state rather than throwing
+    const { error } = useFoodLogStore.getState();
+    if (error) throw new Error(error);
+  }
+}
+
+// Helper function to reload the displayed day from Firestore, e.g. after a
+// queued write was rejected and the optimistic update has to be undone
+function reloadDisplayedMeals() {
+  const { meals, fetchMealsForDate } = useFoodLogStore.getState();
+  
+  if (meals.length > 0) {
+    fetchMealsForDate(meals[0].date);
+  }
+}
+
+// Helper function to reload the displayed day when a copy landed on it
+async function refreshIfShowing(date: Date) {
+  const { meals, fetchMealsForDate } = useFoodLogStore.getState();
   
-  return tokens;
+  if (meals.some(meal => isSameDay(meal.date, date))) {
+    await fetchMealsForDate(meals[0].date);
+  }
 }
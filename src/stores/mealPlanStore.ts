@@ -0,0 +1,437 @@
+import { create } from 'zustand';
+import {
+  collection,
+  doc,
+  deleteDoc,
+  query,
+  where,
+  getDocs,
+  setDoc,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { useAuthStore } from './authStore';
+import { useFoodLogStore, FoodData, FoodItem } from './foodLogStore';
+import { useSyncStore } from './syncStore';
+import { useRecipeStore, recipeToFoodData } from './recipeStore';
+import { LogDay, logDayToDate } from '../utils/logDay';
+import { getMealSlots } from '../utils/mealSlots';
+import { scaleNutrients } from '../utils/nutrients';
+import { BASE_SERVING_ID, BASE_SERVING_NAME } from '../utils/servings';
+import { GeneratedPlan, PlanCandidate } from '../utils/mealPlanGenerator';
+import { getUsualMealType } from '../utils/recentFoods';
+import { resolveFoodId } from '../services/foodProviders';
+
+// Types
+export type PlannedFood = Omit<FoodItem, 'id' | 'addedAt'>;
+
+export interface PlannedItem extends PlannedFood {
+  id: string;
+  userId: string;
+  logDay: LogDay; // the day the food is planned for
+  mealType: string;
+  createdAt: Date;
+}
+
+// A food or recipe the plan generator can pick, with one serving of it
+export interface PlanFood extends PlanCandidate {
+  food: PlannedFood;
+  mealType?: string; // the meal it's most often logged at
+}
+
+export interface PlannedTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+interface MealPlanState {
+  plannedItems: PlannedItem[];
+  planCandidates: PlanFood[];
+  isLoading: boolean;
+  error: string | null;
+  
+  // Actions
+  fetchPlannedItems: (firstDay: LogDay, lastDay: LogDay) => Promise<void>;
+  addPlannedItem: (logDay: LogDay, mealType: string, food: PlannedFood) => Promise<string>;
+  deletePlannedItem: (itemId: string) => Promise<void>;
+  logPlannedItems: (itemIds: string[]) => Promise<void>;
+  fetchPlanCandidates: () => Promise<PlanFood[]>;
+  addGeneratedPlan: (logDay: LogDay, plan: GeneratedPlan<PlanFood>) => Promise<void>;
+  clearError: () => void;
+}
+
+// Most foods the generator picks from
+const MAX_PLAN_CANDIDATES = 20;
+
+export const useMealPlanStore = create<MealPlanState>((set, get) => ({
+  plannedItems: [],
+  planCandidates: [],
+  isLoading: false,
+  error: null,
+  
+  fetchPlannedItems: async (firstDay, lastDay) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      set({ isLoading: true, error: null });
+      
+      const snapshot = await getDocs(query(
+        collection(db, 'mealPlans'),
+        where('userId', '==', user.uid),
+        where('logDay', '>=', firstDay),
+        where('logDay', '<=', lastDay)
+      ));
+      
+      const plannedItems = snapshot.docs
+        .map(itemDoc => convertPlannedItemDoc(itemDoc.id, itemDoc.data()))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      
+      set({
+        plannedItems,
+        isLoading: false
+      });
+      
+    } catch (error) {
+      set({
+        error: (error as Error).message,
+        isLoading: false
+      });
+    }
+  },
+  
+  addPlannedItem: async (logDay, mealType, food) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      const plannedItem: PlannedItem = {
+        ...food,
+        id: '',
+        userId: user.uid,
+        logDay,
+        mealType: mealType.toLowerCase(),
+        createdAt: new Date()
+      };
+      
+      // Generate the id locally so the item shows up before the server confirms it
+      const itemRef = doc(collection(db, 'mealPlans'));
+      const { id, createdAt, ...itemData } = plannedItem;
+      
+      set(state => ({
+        plannedItems: [...state.plannedItems, { ...plannedItem, id: itemRef.id }]
+      }));
+      
+      useSyncStore.getState().trackMutation(
+        `Plan ${food.name}`,
+        setDoc(itemRef, { ...itemData, createdAt: serverTimestamp() }),
+        () => set(state => ({ plannedItems: state.plannedItems.filter(i => i.id !== itemRef.id) }))
+      );
+      
+      return itemRef.id;
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+      return '';
+    }
+  },
+  
+  deletePlannedItem: async (itemId) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      const item = get().plannedItems.find(i => i.id === itemId);
+      
+      if (!item) {
+        throw new Error('Planned item not found');
+      }
+      
+      set(state => ({
+        plannedItems: state.plannedItems.filter(i => i.id !== itemId)
+      }));
+      
+      useSyncStore.getState().trackMutation(
+        `Remove planned ${item.name}`,
+        deleteDoc(doc(db, 'mealPlans', itemId)),
+        () => set(state => ({ plannedItems: [...state.plannedItems, item] }))
+      );
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+  
+  logPlannedItems: async (itemIds) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      set({ error: null });
+      
+      const items = get().plannedItems.filter(i => itemIds.includes(i.id));
+      
+      for (const item of items) {
+        await logPlannedItem(item);
+        
+        // Drop each item from the plan as soon as it's logged, so a failure
+        // part way through doesn't log the rest twice on a retry
+        await get().deletePlannedItem(item.id);
+      }
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+  
+  fetchPlanCandidates: async () => {
+    try {
+      const { user, profile } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      set({ isLoading: true, error: null });
+      
+      const favoriteIds = new Set((profile?.favoriteFoods || []).map(favorite => favorite.foodId));
+      
+      const [recentFoods] = await Promise.all([
+        useFoodLogStore.getState().fetchRecentFoods(),
+        useRecipeStore.getState().fetchRecipes()
+      ]);
+      
+      // One serving of each recently logged food
+      const candidates: Array<PlanFood & { count: number }> = recentFoods.map(recentFood => {
+        const { id, addedAt, ...item } = recentFood.latest;
+      
+        return {
+          ...toPlanFood(scalePlannedFood(item, 1 / (item.servingQty || 1))),
+          mealType: getUsualMealType(recentFood),
+          count: recentFood.count
+        };
+      });
+      
+      // Favorites only keep their calories, so the ones not logged recently
+      // are looked up for their macros. Deleted ones are left out.
+      const unloggedFavorites = await Promise.all(
+        Array.from(favoriteIds)
+          .filter(foodId => !candidates.some(candidate => candidate.id === foodId))
+          .map(foodId => findFood(foodId, user.uid))
+      );
+      
+      unloggedFavorites.forEach(food => {
+        if (food) {
+          candidates.push({ ...toPlanFood(toPlannedFood(food)), count: 0 });
+        }
+      });
+      
+      // Recipes use their current nutrition, even when logged before a change
+      useRecipeStore.getState().recipes.forEach(recipe => {
+        const recipeFood = recipeToFoodData(recipe);
+        const index = candidates.findIndex(candidate => candidate.id === recipeFood.id);
+        const candidate = {
+          ...toPlanFood(toPlannedFood(recipeFood)),
+          mealType: index === -1 ? undefined : candidates[index].mealType,
+          count: index === -1 ? 0 : candidates[index].count
+        };
+        
+        if (index === -1) {
+          candidates.push(candidate);
+        } else {
+          candidates[index] = candidate;
+        }
+      });
+      
+      // Favorites first, then the foods logged most
+      const planCandidates = candidates
+        .sort((a, b) => Number(favoriteIds.has(b.id)) - Number(favoriteIds.has(a.id)) || b.count - a.count)
+        .slice(0, MAX_PLAN_CANDIDATES)
+        .map(({ count, ...candidate }) => candidate);
+      
+      set({
+        planCandidates,
+        isLoading: false
+      });
+      
+      return planCandidates;
+      
+    } catch (error) {
+      set({
+        error: (error as Error).message,
+        isLoading: false
+      });
+      return [];
+    }
+  },
+  
+  addGeneratedPlan: async (logDay, plan) => {
+    try {
+      const { user, profile } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      // Foods without a usual meal go to whichever meal has the least planned so far
+      const mealSlots = getMealSlots(profile);
+      const mealCalories: Record<string, number> = {};
+      
+      mealSlots.forEach(slot => {
+        mealCalories[slot.id] = sumPlannedItems(
+          get().plannedItems.filter(item => item.logDay === logDay && item.mealType === slot.id)
+        ).calories;
+      });
+      
+      for (const { candidate, servings } of plan.entries) {
+        const mealType = candidate.mealType && mealSlots.some(slot => slot.id === candidate.mealType)
+          ? candidate.mealType
+          : mealSlots.reduce((lightest, slot) => (mealCalories[slot.id] < mealCalories[lightest.id] ? slot : lightest)).id;
+        const food = scalePlannedFood(candidate.food, servings);
+        
+        mealCalories[mealType] += food.calories;
+        
+        await get().addPlannedItem(logDay, mealType, food);
+      }
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+  
+  clearError: () => set({ error: null })
+}));
+
+/**
+ * Sum the macros of planned items
+ */
+export function sumPlannedItems(items: PlannedItem[]): PlannedTotals {
+  const totals = items.reduce((sum, item) => ({
+    calories: sum.calories + item.calories,
+    protein: sum.protein + item.protein,
+    carbs: sum.carbs + item.carbs,
+    fat: sum.fat + item.fat
+  }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
+  
+  return {
+    calories: Math.round(totals.calories),
+    protein: Math.round(totals.protein * 10) / 10,
+    carbs: Math.round(totals.carbs * 10) / 10,
+    fat: Math.round(totals.fat * 10) / 10
+  };
+}
+
+// Helper function to scale a food's nutrition to a number of its servings.
+// The result is always measured in base servings, whatever it was entered in.
+function scalePlannedFood(food: PlannedFood, factor: number): PlannedFood {
+  const round = (value: number) => Math.round(value * factor * 10) / 10;
+  const servingQty = Math.round(food.servingQty * factor * 100) / 100;
+  
+  return {
+    ...food,
+    servingQty,
+    servingSize: `${servingQty} ${BASE_SERVING_NAME}`,
+    servingUnit: BASE_SERVING_ID,
+    calories: round(food.calories),
+    protein: round(food.protein),
+    carbs: round(food.carbs),
+    fat: round(food.fat),
+    fiber: food.fiber !== undefined ? round(food.fiber) : undefined,
+    sugar: food.sugar !== undefined ? round(food.sugar) : undefined,
+    sodium: food.sodium !== undefined ? round(food.sodium) : undefined,
+    nutrients: scaleNutrients(food.nutrients, factor)
+  };
+}
+
+// Helper function to plan one serving of a food
+function toPlannedFood(food: FoodData): PlannedFood {
+  return {
+    foodId: food.id,
+    name: food.name,
+    servingSize: `1 ${BASE_SERVING_NAME}`,
+    servingSizeUnit: food.servingSizeUnit,
+    servingQty: 1,
+    servingUnit: BASE_SERVING_ID,
+    calories: food.calories,
+    protein: food.protein,
+    carbs: food.carbs,
+    fat: food.fat,
+    fiber: food.fiber,
+    sugar: food.sugar,
+    sodium: food.sodium,
+    nutrients: food.nutrients,
+    barcode: food.barcode
+  };
+}
+
+// Helper function to look up a food's current nutrition, or null when it can't be found
+async function findFood(foodId: string, userId: string): Promise<FoodData | null> {
+  const resolved = resolveFoodId(foodId);
+  
+  try {
+    return resolved ? await resolved.provider.getFoodById(resolved.localId, { userId }) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to describe one serving of a food for the plan generator
+function toPlanFood(food: PlannedFood): PlanFood {
+  return {
+    id: food.foodId,
+    name: food.name,
+    calories: food.calories,
+    protein: food.protein,
+    carbs: food.carbs,
+    fat: food.fat,
+    food
+  };
+}
+
+// Helper function to add a planned item to the food log on its day
+async function logPlannedItem(item: PlannedItem) {
+  const { getOrCreateMeal, addFoodItem, clearError } = useFoodLogStore.getState();
+  const { id, userId, logDay, mealType, createdAt, ...food } = item;
+  
+  // addFoodItem records failures in state rather than throwing, so an error
+  // left over from an earlier food log action mustn't count as this one's
+  clearError();
+  
+  const mealId = await getOrCreateMeal(logDayToDate(logDay), mealType);
+  
+  if (!mealId) {
+    throw new Error('Could not create the meal to log into');
+  }
+  
+  await addFoodItem(mealId, food);
+  
+  const { error } = useFoodLogStore.getState();
+  if (error) throw new Error(error);
+}
+
+// Helper function to convert a Firestore planned item document into a PlannedItem
+function convertPlannedItemDoc(id: string, data: Record<string, any>): PlannedItem {
+  return {
+    ...(data as PlannedFood),
+    id,
+    userId: data.userId,
+    logDay: data.logDay,
+    mealType: data.mealType,
+    // Items saved offline don't have a server timestamp yet
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+}
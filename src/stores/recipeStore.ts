@@ -0,0 +1,334 @@
+import { create } from 'zustand';
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  getDoc,
+  getDocs,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { useAuthStore } from './authStore';
+import { FoodData } from './foodLogStore';
+import { NutrientMap } from '../utils/nutrients';
+import { calculatePerServing } from '../utils/recipeNutrition';
+
+// Types
+export interface RecipeNutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+  nutrients?: NutrientMap;
+}
+
+export interface RecipeIngredient {
+  foodId: string;
+  name: string;
+  brand?: string;
+  servingSize: number;
+  servingSizeUnit: string;
+  // Number of the food's servings used in the whole recipe
+  quantity: number;
+  // Nutrition for one serving of the food
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+  nutrients?: NutrientMap;
+}
+
+export interface Recipe {
+  id: string;
+  userId: string;
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  perServing: RecipeNutrition;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RecipeInput = Pick<Recipe, 'name' | 'servings' | 'ingredients'>;
+
+interface RecipeState {
+  recipes: Recipe[];
+  selectedRecipe: Recipe | null;
+  isLoading: boolean;
+  error: string | null;
+  
+  // Actions
+  fetchRecipes: () => Promise<void>;
+  getRecipeById: (recipeId: string) => Promise<Recipe | null>;
+  createRecipe: (recipe: RecipeInput) => Promise<string>;
+  updateRecipe: (recipeId: string, recipe: RecipeInput) => Promise<void>;
+  deleteRecipe: (recipeId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useRecipeStore = create<RecipeState>((set, get) => ({
+  recipes: [],
+  selectedRecipe: null,
+  isLoading: false,
+  error: null,
+  
+  fetchRecipes: async () => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      set({ isLoading: true, error: null });
+      
+      const recipesQuery = query(
+        collection(db, 'recipes'),
+        where('userId', '==', user.uid)
+      );
+      
+      const snapshot = await getDocs(recipesQuery);
+      const recipes = snapshot.docs
+        .map(recipeDoc => convertRecipeDoc(recipeDoc.id, recipeDoc.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      
+      set({ 
+        recipes,
+        isLoading: false 
+      });
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+    }
+  },
+  
+  getRecipeById: async (recipeId) => {
+    try {
+      set({ isLoading: true, error: null });
+      
+      const recipeDoc = await getDoc(doc(db, 'recipes', recipeId));
+      
+      if (!recipeDoc.exists()) {
+        throw new Error('Recipe not found');
+      }
+      
+      const recipe = convertRecipeDoc(recipeDoc.id, recipeDoc.data());
+      
+      set({ 
+        selectedRecipe: recipe,
+        isLoading: false 
+      });
+      
+      return recipe;
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+      return null;
+    }
+  },
+  
+  createRecipe: async (recipe) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      validateRecipe(recipe);
+      
+      set({ isLoading: true, error: null });
+      
+      const newRecipe = {
+        ...toFirestoreRecipe(recipe),
+        userId: user.uid,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      };
+      
+      const recipeRef = await addDoc(collection(db, 'recipes'), newRecipe);
+      
+      set({ isLoading: false });
+      
+      return recipeRef.id;
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+      return '';
+    }
+  },
+  
+  updateRecipe: async (recipeId, recipe) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      validateRecipe(recipe);
+      
+      set({ isLoading: true, error: null });
+      
+      const updates = toFirestoreRecipe(recipe);
+      
+      await updateDoc(doc(db, 'recipes', recipeId), {
+        ...updates,
+        updatedAt: serverTimestamp()
+      });
+      
+      // Update local state
+      set(state => ({
+        recipes: state.recipes.map(r => 
+          r.id === recipeId ? { ...r, ...updates, updatedAt: new Date() } : r
+        ),
+        selectedRecipe: state.selectedRecipe?.id === recipeId
+          ? { ...state.selectedRecipe, ...updates, updatedAt: new Date() }
+          : state.selectedRecipe,
+        isLoading: false
+      }));
+      
+    } catch (error) {
+      set({ 
+        error: (error as Error).message,
+        isLoading: false 
+      });
+    }
+  },
+  
+  deleteRecipe: async (recipeId) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      await deleteDoc(doc(db, 'recipes', recipeId));
+      
+      set({ 
+        recipes: get().recipes.filter(r => r.id !== recipeId),
+        selectedRecipe: get().selectedRecipe?.id === recipeId ? null : get().selectedRecipe
+      });
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+  
+  clearError: () => set({ error: null })
+}));
+
+/**
+ * Snapshot a food's per-serving nutrition as a recipe ingredient
+ */
+export function createIngredientFromFood(food: FoodData, quantity = 1): RecipeIngredient {
+  return {
+    foodId: food.id,
+    name: food.name,
+    brand: food.brand,
+    servingSize: food.servingSize,
+    servingSizeUnit: food.servingSizeUnit,
+    quantity,
+    calories: food.calories,
+    protein: food.protein,
+    carbs: food.carbs,
+    fat: food.fat,
+    fiber: food.fiber,
+    sugar: food.sugar,
+    sodium: food.sodium,
+    nutrients: food.nutrients
+  };
+}
+
+/**
+ * Present a recipe as a food so it can be searched, viewed and logged
+ * like any other food (one serving of the recipe)
+ */
+export function recipeToFoodData(recipe: Recipe): FoodData {
+  return {
+    id: `recipe:${recipe.id}`,
+    name: recipe.name,
+    servingSizeUnit: 'serving',
+    servingSize: 1,
+    calories: recipe.perServing.calories,
+    protein: recipe.perServing.protein,
+    carbs: recipe.perServing.carbs,
+    fat: recipe.perServing.fat,
+    fiber: recipe.perServing.fiber,
+    sugar: recipe.perServing.sugar,
+    sodium: recipe.perServing.sodium,
+    nutrients: recipe.perServing.nutrients,
+    isUserCreated: true,
+    userId: recipe.userId,
+    source: 'recipe',
+    createdAt: recipe.createdAt
+  };
+}
+
+function validateRecipe(recipe: RecipeInput) {
+  if (!recipe.name.trim()) {
+    throw new Error('Recipe name is required');
+  }
+  
+  if (recipe.ingredients.length === 0) {
+    throw new Error('Add at least one ingredient');
+  }
+  
+  if (!(recipe.servings > 0)) {
+    throw new Error('Servings must be greater than zero');
+  }
+}
+
+// Firestore rejects undefined values, so optional ingredient fields are dropped
+function toFirestoreRecipe(recipe: RecipeInput) {
+  return {
+    name: recipe.name.trim(),
+    servings: recipe.servings,
+    ingredients: recipe.ingredients.map(ingredient => {
+      const cleaned: Record<string, unknown> = {};
+      
+      Object.entries(ingredient).forEach(([key, value]) => {
+        if (value !== undefined) {
+          cleaned[key] = value;
+        }
+      });
+      
+      return cleaned as unknown as RecipeIngredient;
+    }),
+    perServing: calculatePerServing(recipe.ingredients, recipe.servings)
+  };
+}
+
+// Helper function to convert a Firestore recipe document into a Recipe
+export function convertRecipeDoc(id: string, data: Record<string, any>): Recipe {
+  return {
+    id,
+    userId: data.userId,
+    name: data.name,
+    servings: data.servings,
+    ingredients: data.ingredients || [],
+    perServing: data.perServing,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+}
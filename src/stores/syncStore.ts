@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+
+// Types
+export interface PendingMutation {
+  id: string;
+  description: string;
+  createdAt: Date;
+}
+
+interface SyncState {
+  isOnline: boolean;
+  pendingMutations: PendingMutation[];
+  syncError: string | null;
+  
+  // Actions
+  trackMutation: (description: string, write: Promise<unknown>, onFailure?: () => void) => void;
+  setOnline: (isOnline: boolean) => void;
+  clearSyncError: () => void;
+}
+
+/**
+ * Tracks Firestore writes that have been applied locally but not yet
+ * acknowledged by the server. With offline persistence enabled a write
+ * promise only settles once the server has accepted or rejected it, so
+ * stores apply their changes optimistically and hand the promise here
+ * instead of awaiting it.
+ */
+export const useSyncStore = create<SyncState>((set) => ({
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pendingMutations: [],
+  syncError: null,
+  
+  trackMutation: (description, write, onFailure) => {
+    const mutation: PendingMutation = {
+      id: `${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+      description,
+      createdAt: new Date()
+    };
+    
+    set(state => ({
+      pendingMutations: [...state.pendingMutations, mutation]
+    }));
+    
+    const removeMutation = () => {
+      set(state => ({
+        pendingMutations: state.pendingMutations.filter(m => m.id !== mutation.id)
+      }));
+    };
+    
+    write
+      .then(removeMutation)
+      .catch(error => {
+        console.error(`Error syncing "${description}":`, error);
+        removeMutation();
+        set({ syncError: `Failed to sync "${description}": ${(error as Error).message}` });
+        
+        // Let the caller roll back its optimistic update
+        if (onFailure) onFailure();
+      });
+  },
+  
+  setOnline: (isOnline) => set({ isOnline }),
+  
+  clearSyncError: () => set({ syncError: null })
+}));
+
+// Keep connectivity in sync with the browser
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => useSyncStore.getState().setOnline(true));
+  window.addEventListener('offline', () => useSyncStore.getState().setOnline(false));
+}
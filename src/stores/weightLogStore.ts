@@ -0,0 +1,179 @@
+import { create } from 'zustand';
+import {
+  collection,
+  doc,
+  addDoc,
+  deleteDoc,
+  query,
+  where,
+  getDocs,
+  Timestamp,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { useAuthStore } from './authStore';
+
+// Types
+export interface WeighIn {
+  id: string;
+  userId: string;
+  date: Date;
+  weight: number; // kg
+  waist?: number; // cm
+  bodyFat?: number; // %
+  createdAt: Date;
+}
+
+export type WeighInInput = Pick<WeighIn, 'date' | 'weight' | 'waist' | 'bodyFat'>;
+
+interface WeightLogState {
+  weighIns: WeighIn[];
+  isLoading: boolean;
+  error: string | null;
+  
+  // Actions
+  fetchWeighIns: (start?: Date) => Promise<void>;
+  addWeighIn: (input: WeighInInput) => Promise<string>;
+  deleteWeighIn: (weighInId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useWeightLogStore = create<WeightLogState>((set, get) => ({
+  weighIns: [],
+  isLoading: false,
+  error: null,
+  
+  fetchWeighIns: async (start) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      set({ isLoading: true, error: null });
+      
+      const constraints = [where('userId', '==', user.uid)];
+      if (start) {
+        constraints.push(where('date', '>=', Timestamp.fromDate(start)));
+      }
+      
+      const snapshot = await getDocs(query(collection(db, 'weightLog'), ...constraints));
+      const weighIns = snapshot.docs
+        .map(weighInDoc => convertWeighInDoc(weighInDoc.id, weighInDoc.data()))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+        
+      set({
+        weighIns,
+        isLoading: false
+      });
+      
+    } catch (error) {
+      set({
+        error: (error as Error).message,
+        isLoading: false
+      });
+    }
+  },
+  
+  addWeighIn: async (input) => {
+    try {
+      const { user, profile, updateProfile } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      validateWeighIn(input);
+      
+      set({ isLoading: true, error: null });
+      
+      const newWeighIn: Record<string, unknown> = {
+        userId: user.uid,
+        date: Timestamp.fromDate(input.date),
+        weight: input.weight,
+        createdAt: serverTimestamp()
+      };
+      
+      // Optional measurements are only stored when entered
+      if (input.waist) newWeighIn.waist = input.waist;
+      if (input.bodyFat) newWeighIn.bodyFat = input.bodyFat;
+      
+      const weighInRef = await addDoc(collection(db, 'weightLog'), newWeighIn);
+      
+      const weighIn: WeighIn = {
+        ...input,
+        id: weighInRef.id,
+        userId: user.uid,
+        createdAt: new Date()
+      };
+      
+      const weighIns = [...get().weighIns, weighIn]
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+        
+      set({
+        weighIns,
+        isLoading: false
+      });
+      
+      // Keep the profile weight current so target calculations use it
+      const isLatest = weighIns[weighIns.length - 1].id === weighIn.id;
+      if (isLatest && profile?.weight !== input.weight) {
+        await updateProfile({ weight: input.weight });
+      }
+      
+      return weighIn.id;
+      
+    } catch (error) {
+      set({
+        error: (error as Error).message,
+        isLoading: false
+      });
+      return '';
+    }
+  },
+  
+  deleteWeighIn: async (weighInId) => {
+    try {
+      const { user } = useAuthStore.getState();
+      
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      
+      await deleteDoc(doc(db, 'weightLog', weighInId));
+      
+      set(state => ({
+        weighIns: state.weighIns.filter(w => w.id !== weighInId)
+      }));
+      
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+  
+  clearError: () => set({ error: null })
+}));
+
+function validateWeighIn(input: WeighInInput) {
+  if (!(input.weight > 0)) {
+    throw new Error('Weight must be greater than zero');
+  }
+  
+  if (input.bodyFat !== undefined && (input.bodyFat < 0 || input.bodyFat > 100)) {
+    throw new Error('Body fat must be between 0 and 100%');
+  }
+}
+
+// Helper function to convert a Firestore weigh-in document into a WeighIn
+function convertWeighInDoc(id: string, data: Record<string, any>): WeighIn {
+  return {
+    id,
+    userId: data.userId,
+    date: data.date.toDate(),
+    weight: data.weight,
+    waist: data.waist,
+    bodyFat: data.bodyFat,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+}
@@ -0,0 +1,133 @@
+import type { Achievement } from './gamification';
+import type { AppEvent } from './appEvents';
+import {
+  ACHIEVEMENT_DEFINITIONS,
+  AchievementDefinition,
+  createAchievement,
+  evaluateAchievements,
+  matchesRule,
+  syncAchievements
+} from './achievements';
+
+const foodLogged = (barcode?: string, foodId = 'oats'): AppEvent => ({
+  type: 'food_logged',
+  foodId,
+  name: foodId,
+  barcode,
+  mealType: 'breakfast',
+  logDay: '2026-01-05',
+  loggedAt: new Date(2026, 0, 5, 8)
+});
+
+const targetHit = (target: 'protein' | 'all'): AppEvent => ({ type: 'target_hit', target, logDay: '2026-01-05' });
+
+const starting = () => syncAchievements([]);
+
+// Run events through the rules in order
+function evaluate(events: AppEvent[], achievements: Achievement[] = starting()): Achievement[] {
+  return events.reduce((current, event) => evaluateAchievements(current, event).achievements, achievements);
+}
+
+function find(achievements: Achievement[], id: string): Achievement {
+  return achievements.find(achievement => achievement.id === id)!;
+}
+
+describe('matchesRule', () => {
+  const scanRule = ACHIEVEMENT_DEFINITIONS.find(definition => definition.id === 'scan-10')!.rule;
+  
+  it('needs the event type and every condition to match', () => {
+    expect(matchesRule(scanRule, foodLogged('5000112637922'))).toBe(true);
+    expect(matchesRule(scanRule, foodLogged())).toBe(false);
+    expect(matchesRule(scanRule, { type: 'weigh_in', weight: 80, date: new Date() })).toBe(false);
+  });
+  
+  it('compares numbers', () => {
+    const rule = { event: 'weigh_in' as const, conditions: [{ field: 'weight', op: '<=' as const, value: 80 }], target: 1 };
+    
+    expect(matchesRule(rule, { type: 'weigh_in', weight: 79.5, date: new Date() })).toBe(true);
+    expect(matchesRule(rule, { type: 'weigh_in', weight: 81, date: new Date() })).toBe(false);
+  });
+});
+
+describe('evaluateAchievements', () => {
+  it('unlocks a count achievement on its first event', () => {
+    const { achievements, unlocked } = evaluateAchievements(starting(), foodLogged());
+    
+    expect(unlocked.map(achievement => achievement.id)).toEqual(['first-log']);
+    expect(find(achievements, 'first-log')).toMatchObject({ progress: 1, isCompleted: true });
+  });
+  
+  it('counts scans of different barcodes only', () => {
+    const achievements = evaluate([
+      foodLogged('5000112637922', 'cola'),
+      foodLogged('5000112637922', 'cola'),
+      foodLogged('0012000001086', 'soda'),
+      foodLogged(undefined, 'apple')
+    ]);
+    
+    expect(find(achievements, 'scan-10')).toMatchObject({
+      progress: 2,
+      progressKeys: ['5000112637922', '0012000001086'],
+      isCompleted: false
+    });
+  });
+  
+  it('completes the scan achievement at ten barcodes', () => {
+    const scans = Array.from({ length: 10 }, (_, index) => foodLogged(`00000000000${index}`, `food-${index}`));
+    
+    expect(find(evaluate(scans), 'scan-10')).toMatchObject({ progress: 10, isCompleted: true });
+  });
+  
+  it('only counts hitting all targets for macro balance', () => {
+    expect(find(evaluate([targetHit('protein')]), 'macro-balance').progress).toBe(0);
+    expect(find(evaluate([targetHit('protein'), targetHit('all')]), 'macro-balance').isCompleted).toBe(true);
+  });
+  
+  it('tracks the longest streak seen', () => {
+    const achievements = evaluate([
+      { type: 'streak_updated', streakDays: 5 },
+      { type: 'streak_updated', streakDays: 1 }
+    ]);
+    
+    expect(find(achievements, 'week-streak').progress).toBe(5);
+    expect(find(evaluate([{ type: 'streak_updated', streakDays: 7 }], achievements), 'week-streak').isCompleted).toBe(true);
+  });
+  
+  it('returns the same list when nothing changed', () => {
+    const achievements = evaluate([foodLogged()]);
+    
+    expect(evaluateAchievements(achievements, foodLogged()).achievements).toBe(achievements);
+    expect(evaluateAchievements(achievements, foodLogged()).unlocked).toEqual([]);
+  });
+});
+
+describe('syncAchievements', () => {
+  it('keeps progress and completed state of stored achievements', () => {
+    const completedAt = new Date(2026, 0, 5);
+    const stored = evaluate([foodLogged('5000112637922', 'cola')]).map(achievement =>
+      achievement.id === 'first-log' ? { ...achievement, title: 'Old title', completedAt } : achievement
+    );
+    const synced = syncAchievements(stored);
+    
+    expect(find(synced, 'first-log')).toMatchObject({ title: 'First Bite', isCompleted: true, completedAt });
+    expect(find(synced, 'scan-10')).toMatchObject({ progress: 1, progressKeys: ['5000112637922'] });
+  });
+  
+  it('adds new definitions and keeps achievements that lost theirs', () => {
+    const retired = { ...createAchievement(ACHIEVEMENT_DEFINITIONS[0]), id: 'retired', isCompleted: true };
+    const added: AchievementDefinition = {
+      id: 'weigh-in-10',
+      title: 'Regular',
+      description: 'Log 10 weigh-ins',
+      iconName: 'FiTrendingUp',
+      category: 'logging',
+      points: 10,
+      rule: { event: 'weigh_in', target: 10 }
+    };
+    const synced = syncAchievements([retired], [...ACHIEVEMENT_DEFINITIONS, added]);
+    
+    expect(find(synced, 'weigh-in-10')).toMatchObject({ progress: 0, targetValue: 10 });
+    expect(find(synced, 'retired')).toBe(retired);
+    expect(synced).toHaveLength(ACHIEVEMENT_DEFINITIONS.length + 2);
+  });
+});
@@ -0,0 +1,292 @@
+import type { Achievement } from './gamification';
+import type { AppEvent, AppEventType } from './appEvents';
+
+/**
+ * Declarative achievements. Each definition says which app event moves it
+ * forward, which of those events count and how progress is measured, so a
+ * new achievement is a new entry in ACHIEVEMENT_DEFINITIONS rather than
+ * checks spread across pages.
+ */
+
+// Compares a field of the event payload with a value
+export interface EventCondition {
+  field: string;
+  op: '==' | '!=' | '>=' | '<=' | 'exists';
+  value?: string | number | boolean;
+}
+
+export type ProgressMeasure =
+  // One step per matching event
+  | { type: 'count' }
+  // One step per new value of the field (e.g. different foods)
+  | { type: 'distinct'; field: string }
+  // Progress is the largest value of the field seen (e.g. streak length)
+  | { type: 'max'; field: string };
+
+export interface AchievementRule {
+  event: AppEventType;
+  conditions?: EventCondition[];
+  measure?: ProgressMeasure; // defaults to count
+  target: number;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  iconName: string;
+  category: Achievement['category'];
+  points: number;
+  rule: AchievementRule;
+}
+
+export interface AchievementEvaluation {
+  achievements: Achievement[];
+  unlocked: Achievement[];
+}
+
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  {
+    id: 'first-log',
+    title: 'First Bite',
+    description: 'Log your first food item',
+    iconName: 'FiBookOpen',
+    category: 'logging',
+    points: 10,
+    rule: { event: 'food_logged', target: 1 }
+  },
+  {
+    id: 'week-streak',
+    title: 'Week Warrior',
+    description: 'Log food for 7 consecutive days',
+    iconName: 'FiCalendar',
+    category: 'consistency',
+    points: 25,
+    rule: { event: 'streak_updated', measure: { type: 'max', field: 'streakDays' }, target: 7 }
+  },
+  {
+    id: 'month-streak',
+    title: 'Monthly Master',
+    description: 'Log food for 30 consecutive days',
+    iconName: 'FiCalendar',
+    category: 'consistency',
+    points: 100,
+    rule: { event: 'streak_updated', measure: { type: 'max', field: 'streakDays' }, target: 30 }
+  },
+  {
+    id: 'macro-balance',
+    title: 'Macro Maestro',
+    description: 'Hit your macro targets perfectly for a day',
+    iconName: 'FiTarget',
+    category: 'nutrition',
+    points: 20,
+    rule: {
+      event: 'target_hit',
+      conditions: [{ field: 'target', op: '==', value: 'all' }],
+      target: 1
+    }
+  },
+  {
+    id: 'scan-10',
+    title: 'Barcode Buff',
+    description: 'Scan 10 different food items',
+    iconName: 'FiCamera',
+    category: 'logging',
+    points: 15,
+    rule: {
+      event: 'food_logged',
+      conditions: [{ field: 'barcode', op: 'exists' }],
+      measure: { type: 'distinct', field: 'barcode' },
+      target: 10
+    }
+  },
+  {
+    id: 'complete-profile',
+    title: 'Identity Established',
+    description: 'Complete your user profile',
+    iconName: 'FiUser',
+    category: 'special',
+    points: 5,
+    rule: { event: 'profile_completed', target: 1 }
+  },
+  {
+    id: 'on-target-week',
+    title: 'Bullseye Week',
+    description: 'Finish 7 days within 10% of your calorie target',
+    iconName: 'FiTarget',
+    category: 'nutrition',
+    points: 30,
+    rule: {
+      event: 'day_closed',
+      conditions: [{ field: 'targetMet', op: '==', value: true }],
+      target: 7
+    }
+  },
+  {
+    id: 'first-weigh-in',
+    title: 'Stepping On',
+    description: 'Log your first weigh-in',
+    iconName: 'FiTrendingUp',
+    category: 'logging',
+    points: 10,
+    rule: { event: 'weigh_in', target: 1 }
+  }
+];
+
+/**
+ * A fresh, not yet started achievement for a definition
+ */
+export function createAchievement(definition: AchievementDefinition): Achievement {
+  const { rule, ...details } = definition;
+  
+  return {
+    ...details,
+    progress: 0,
+    targetValue: rule.target,
+    isCompleted: false
+  };
+}
+
+/**
+ * Bring a stored achievement list in line with the definitions: new
+ * definitions are added, details of existing ones are refreshed and
+ * progress is kept. Stored achievements without a definition are kept as
+ * they are so earned ones don't disappear.
+ */
+export function syncAchievements(
+  stored: Achievement[],
+  definitions: AchievementDefinition[] = ACHIEVEMENT_DEFINITIONS
+): Achievement[] {
+  const storedById = new Map(stored.map(achievement => [achievement.id, achievement]));
+  
+  const synced = definitions.map(definition => {
+    const existing = storedById.get(definition.id);
+    const fresh = createAchievement(definition);
+    
+    return existing
+      ? {
+          ...fresh,
+          progress: existing.progress,
+          progressKeys: existing.progressKeys,
+          isCompleted: existing.isCompleted,
+          completedAt: existing.completedAt
+        }
+      : fresh;
+  });
+  
+  const definedIds = new Set(definitions.map(definition => definition.id));
+  
+  return [...synced, ...stored.filter(achievement => !definedIds.has(achievement.id))];
+}
+
+/**
+ * Apply an app event to the user's achievements. Returns the updated list
+ * (the same array when nothing changed) and any achievements it unlocked.
+ */
+export function evaluateAchievements(
+  achievements: Achievement[],
+  event: AppEvent,
+  definitions: AchievementDefinition[] = ACHIEVEMENT_DEFINITIONS
+): AchievementEvaluation {
+  const definitionsById = new Map(definitions.map(definition => [definition.id, definition]));
+  const unlocked: Achievement[] = [];
+  let changed = false;
+  
+  const updated = achievements.map(achievement => {
+    const definition = definitionsById.get(achievement.id);
+    
+    if (!definition || achievement.isCompleted || !matchesRule(definition.rule, event)) {
+      return achievement;
+    }
+    
+    const next = applyProgress(achievement, definition.rule, event);
+    
+    if (next === achievement) {
+      return achievement;
+    }
+    
+    changed = true;
+    
+    if (next.isCompleted) {
+      unlocked.push(next);
+    }
+    
+    return next;
+  });
+  
+  return {
+    achievements: changed ? updated : achievements,
+    unlocked
+  };
+}
+
+/**
+ * Whether an event counts towards a rule
+ */
+export function matchesRule(rule: AchievementRule, event: AppEvent): boolean {
+  if (rule.event !== event.type) {
+    return false;
+  }
+  
+  return (rule.conditions || []).every(condition => matchesCondition(condition, event));
+}
+
+function matchesCondition(condition: EventCondition, event: AppEvent): boolean {
+  const actual = getEventField(event, condition.field);
+  
+  switch (condition.op) {
+    case 'exists':
+      return actual !== undefined && actual !== null && actual !== '';
+    case '==':
+      return actual === condition.value;
+    case '!=':
+      return actual !== condition.value;
+    case '>=':
+      return typeof actual === 'number' && actual >= (condition.value as number);
+    case '<=':
+      return typeof actual === 'number' && actual <= (condition.value as number);
+    default:
+      return false;
+  }
+}
+
+function applyProgress(achievement: Achievement, rule: AchievementRule, event: AppEvent): Achievement {
+  const measure = rule.measure || { type: 'count' };
+  let progress = achievement.progress;
+  let progressKeys = achievement.progressKeys;
+  
+  if (measure.type === 'count') {
+    progress += 1;
+  } else if (measure.type === 'distinct') {
+    const key = String(getEventField(event, measure.field));
+    
+    if (progressKeys?.includes(key)) {
+      return achievement;
+    }
+    
+    progressKeys = [...(progressKeys || []), key];
+    progress = progressKeys.length;
+  } else {
+    const value = getEventField(event, measure.field);
+    
+    if (typeof value !== 'number' || value <= progress) {
+      return achievement;
+    }
+    
+    progress = value;
+  }
+  
+  const isCompleted = progress >= rule.target;
+  
+  return {
+    ...achievement,
+    progress: Math.min(progress, rule.target),
+    progressKeys,
+    isCompleted,
+    completedAt: isCompleted ? new Date() : undefined
+  };
+}
+
+function getEventField(event: AppEvent, field: string): unknown {
+  return (event as unknown as Record<string, unknown>)[field];
+}
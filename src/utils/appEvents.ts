@@ -0,0 +1,50 @@
+import type { LogDay } from './logDay';
+
+/**
+ * Events that move achievements. Cloud Functions derive them from Firestore
+ * writes (meals, weigh-ins, the user profile) and evaluate them against the
+ * achievement rules, so the client can't claim events it didn't earn.
+ */
+
+export type MacroTarget = 'calories' | 'protein' | 'carbs' | 'fat' | 'all';
+
+export type AppEvent =
+  | {
+      type: 'food_logged';
+      foodId: string;
+      name: string;
+      barcode?: string;
+      mealType: string;
+      logDay: LogDay; // day the food was logged to
+      loggedAt: Date;
+    }
+  | {
+      // A logged day is over; derived once the user logs on a later day
+      type: 'day_closed';
+      logDay: LogDay;
+      calories: number;
+      protein: number;
+      carbs: number;
+      fat: number;
+      itemCount: number;
+      targetMet: boolean;
+    }
+  | {
+      type: 'target_hit';
+      target: MacroTarget;
+      logDay: LogDay;
+    }
+  | {
+      type: 'weigh_in';
+      weight: number;
+      date: Date;
+    }
+  | {
+      type: 'streak_updated';
+      streakDays: number;
+    }
+  | {
+      type: 'profile_completed';
+    };
+
+export type AppEventType = AppEvent['type'];
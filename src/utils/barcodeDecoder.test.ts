@@ -0,0 +1,107 @@
+import {
+  PixelData,
+  calculateCheckDigit,
+  decodeBarcode,
+  decodeRow,
+  getBarcodeVariants,
+  isValidBarcode
+} from './barcodeDecoder';
+
+// Module widths of each digit in the L code, as in the decoder
+const DIGIT_WIDTHS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2]
+];
+
+const FIRST_DIGIT_PARITY = ['000000', '001011', '001101', '001110', '010011', '011001', '011100', '010101', '010110', '011010'];
+
+const QUIET_ZONE = 10; // light modules on either side of the symbol
+
+/**
+ * Draw a 13 digit code (UPC-A codes with a leading zero) as a scan line of
+ * luminance values, with each module `moduleWidth` pixels wide. The code is
+ * drawn as given, so an invalid check digit is drawn too.
+ */
+function drawRow(code: string, moduleWidth = 2): number[] {
+  const digits = code.split('').map(Number);
+  const parity = FIRST_DIGIT_PARITY[digits[0]];
+  
+  // Alternating runs in modules, starting with a light one
+  const runs: number[] = [QUIET_ZONE, 1, 1, 1];
+  
+  digits.slice(1, 7).forEach((digit, i) => {
+    const widths = DIGIT_WIDTHS[digit];
+    runs.push(...(parity[i] === '1' ? [...widths].reverse() : widths));
+  });
+  
+  runs.push(1, 1, 1, 1, 1);
+  
+  digits.slice(7).forEach(digit => {
+    runs.push(...DIGIT_WIDTHS[digit]);
+  });
+  
+  runs.push(1, 1, 1, QUIET_ZONE);
+  
+  return runs.flatMap((modules, i) => Array(modules * moduleWidth).fill(i % 2 === 0 ? 255 : 0));
+}
+
+// A still image of the scan line repeated down every row
+function drawImage(row: number[], height = 20): PixelData {
+  const data: number[] = [];
+  
+  for (let y = 0; y < height; y++) {
+    row.forEach(value => data.push(value, value, value, 255));
+  }
+  
+  return { width: row.length, height, data };
+}
+
+describe('calculateCheckDigit', () => {
+  it('calculates EAN-13 and UPC-A check digits', () => {
+    expect(calculateCheckDigit('400638133393')).toBe(1);
+    expect(calculateCheckDigit('03600029145')).toBe(2);
+    expect(isValidBarcode('4006381333931')).toBe(true);
+    expect(isValidBarcode('4006381333932')).toBe(false);
+  });
+});
+
+describe('decodeBarcode', () => {
+  it('decodes an EAN-13 code from a still image', () => {
+    expect(decodeBarcode(drawImage(drawRow('4006381333931')))).toEqual({
+      text: '4006381333931',
+      format: 'EAN_13'
+    });
+  });
+  
+  it('decodes a UPC-A code and lists its EAN-13 form', () => {
+    const result = decodeBarcode(drawImage(drawRow('0036000291452', 3)));
+    
+    expect(result).toEqual({ text: '036000291452', format: 'UPC_A' });
+    expect(getBarcodeVariants(result!.text)).toEqual(['036000291452', '0036000291452']);
+    expect(getBarcodeVariants('0036000291452')).toEqual(['0036000291452', '036000291452']);
+  });
+  
+  it('decodes a code read right to left', () => {
+    expect(decodeRow(drawRow('4006381333931').reverse())).toEqual({
+      text: '4006381333931',
+      format: 'EAN_13'
+    });
+  });
+  
+  it('rejects a code with a bad check digit', () => {
+    expect(decodeRow(drawRow('4006381333932'))).toBeNull();
+    expect(decodeBarcode(drawImage(drawRow('4006381333932')))).toBeNull();
+  });
+  
+  it('finds nothing in a blank image', () => {
+    expect(decodeBarcode(drawImage(Array(200).fill(255)))).toBeNull();
+  });
+});
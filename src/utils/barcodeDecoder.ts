@@ -0,0 +1,279 @@
+/**
+ * Minimal EAN-13 / UPC-A decoder that works on raw image pixels.
+ * It has no DOM or camera dependencies, so it can decode a frame grabbed
+ * from a <video> element as well as a still image loaded in a test.
+ */
+
+// Anything with the shape of the browser's ImageData (RGBA, row-major)
+export interface PixelData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | number[];
+}
+
+export interface BarcodeResult {
+  text: string;
+  format: 'EAN_13' | 'UPC_A';
+}
+
+// Module widths of each digit, read space-bar-space-bar (L code) or
+// bar-space-bar-space (R code). G codes are the L widths reversed.
+const DIGIT_WIDTHS: number[][] = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2]
+];
+
+// Parity of the six left-hand digits (L = 0, G = 1) encodes the first digit
+const FIRST_DIGIT_PARITY = [
+  '000000',
+  '001011',
+  '001101',
+  '001110',
+  '010011',
+  '011001',
+  '011100',
+  '010101',
+  '010110',
+  '011010'
+];
+
+// start guard (3) + 6 digits (24) + middle guard (5) + 6 digits (24) + end guard (3)
+const RUNS_PER_SYMBOL = 59;
+const MODULES_PER_SYMBOL = 95;
+
+// Summed deviation (in modules) above which a digit match is rejected
+const MAX_DIGIT_ERROR = 1.5;
+const MAX_GUARD_ERROR = 0.7;
+
+// Number of rows sampled across the image when looking for a barcode
+const SCAN_LINES = 15;
+
+/**
+ * Calculate the EAN/UPC check digit for the given digits (without check digit)
+ */
+export function calculateCheckDigit(digits: string): number {
+  let sum = 0;
+  
+  // Weights alternate 3, 1, 3... starting from the rightmost digit
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += parseInt(digits[i], 10) * weight;
+  }
+  
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Check that a UPC-A (12 digit) or EAN-13 code has a valid check digit
+ */
+export function isValidBarcode(code: string): boolean {
+  if (!/^(\d{12}|\d{13})$/.test(code)) return false;
+  
+  const body = code.slice(0, -1);
+  return calculateCheckDigit(body) === parseInt(code[code.length - 1], 10);
+}
+
+/**
+ * Return every representation a barcode may be stored under.
+ * A UPC-A code is an EAN-13 code with a leading zero, so "012345678905"
+ * and "0012345678905" refer to the same product.
+ */
+export function getBarcodeVariants(code: string): string[] {
+  const digits = code.replace(/\D/g, '');
+  
+  if (digits.length === 12) {
+    return [digits, `0${digits}`];
+  }
+  
+  if (digits.length === 13 && digits.startsWith('0')) {
+    return [digits, digits.slice(1)];
+  }
+  
+  return digits ? [digits] : [];
+}
+
+/**
+ * Decode the first EAN-13 / UPC-A barcode found in the image
+ */
+export function decodeBarcode(image: PixelData): BarcodeResult | null {
+  const { width, height } = image;
+  
+  if (width === 0 || height === 0) return null;
+  
+  // Sample rows starting from the middle, where the barcode is most likely framed
+  const rows: number[] = [];
+  const step = Math.max(Math.floor(height / (SCAN_LINES + 1)), 1);
+  const middle = Math.floor(height / 2);
+  
+  for (let offset = 0; rows.length < SCAN_LINES && offset <= middle; offset += step) {
+    if (middle - offset >= 0) rows.push(middle - offset);
+    if (offset > 0 && middle + offset < height) rows.push(middle + offset);
+  }
+  
+  for (const y of rows) {
+    const result = decodeRow(getRowLuminance(image, y));
+    if (result) return result;
+  }
+  
+  return null;
+}
+
+/**
+ * Decode a single scan line given as luminance values (0 = black, 255 = white)
+ */
+export function decodeRow(luminance: number[]): BarcodeResult | null {
+  const runs = getRuns(luminance);
+  
+  if (!runs) return null;
+  
+  return decodeRuns(runs.widths, runs.firstIsDark);
+}
+
+// Convert one row of RGBA pixels to luminance values
+function getRowLuminance(image: PixelData, y: number): number[] {
+  const values: number[] = [];
+  const rowStart = y * image.width * 4;
+  
+  for (let x = 0; x < image.width; x++) {
+    const i = rowStart + x * 4;
+    values.push(0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2]);
+  }
+  
+  return values;
+}
+
+// Binarize a scan line and collapse it into alternating dark/light run widths
+function getRuns(luminance: number[]): { widths: number[]; firstIsDark: boolean } | null {
+  if (luminance.length === 0) return null;
+  
+  let min = 255;
+  let max = 0;
+  
+  luminance.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  
+  // Not enough contrast to contain a barcode
+  if (max - min < 40) return null;
+  
+  const threshold = (min + max) / 2;
+  const widths: number[] = [];
+  const firstIsDark = luminance[0] < threshold;
+  let currentIsDark = firstIsDark;
+  let currentWidth = 0;
+  
+  luminance.forEach(value => {
+    const isDark = value < threshold;
+    
+    if (isDark === currentIsDark) {
+      currentWidth++;
+    } else {
+      widths.push(currentWidth);
+      currentIsDark = isDark;
+      currentWidth = 1;
+    }
+  });
+  
+  widths.push(currentWidth);
+  
+  return widths.length >= RUNS_PER_SYMBOL ? { widths, firstIsDark } : null;
+}
+
+// Look for a complete symbol starting at every dark run
+function decodeRuns(widths: number[], firstIsDark: boolean): BarcodeResult | null {
+  const firstDarkIndex = firstIsDark ? 0 : 1;
+  
+  for (let start = firstDarkIndex; start + RUNS_PER_SYMBOL <= widths.length; start += 2) {
+    const symbolRuns = widths.slice(start, start + RUNS_PER_SYMBOL);
+    
+    // Try both directions so upside-down barcodes are still read
+    const result = decodeSymbol(symbolRuns) || decodeSymbol([...symbolRuns].reverse());
+    if (result) return result;
+  }
+  
+  return null;
+}
+
+// Decode exactly 59 runs starting with the first bar of the start guard
+function decodeSymbol(runs: number[]): BarcodeResult | null {
+  const totalWidth = runs.reduce((sum, width) => sum + width, 0);
+  const moduleWidth = totalWidth / MODULES_PER_SYMBOL;
+  
+  const guardMatches = (offset: number, count: number) => {
+    for (let i = offset; i < offset + count; i++) {
+      if (Math.abs(runs[i] / moduleWidth - 1) > MAX_GUARD_ERROR) return false;
+    }
+    return true;
+  };
+  
+  if (!guardMatches(0, 3) || !guardMatches(27, 5) || !guardMatches(56, 3)) {
+    return null;
+  }
+  
+  let digits = '';
+  let parity = '';
+  
+  // Left half: L or G codes
+  for (let d = 0; d < 6; d++) {
+    const match = matchDigit(runs.slice(3 + d * 4, 7 + d * 4), true);
+    if (!match) return null;
+    
+    digits += match.digit;
+    parity += match.isEven ? '1' : '0';
+  }
+  
+  // Right half: R codes only
+  for (let d = 0; d < 6; d++) {
+    const match = matchDigit(runs.slice(32 + d * 4, 36 + d * 4), false);
+    if (!match) return null;
+    
+    digits += match.digit;
+  }
+  
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+  
+  if (firstDigit === -1) return null;
+  
+  const code = `${firstDigit}${digits}`;
+  
+  if (!isValidBarcode(code)) return null;
+  
+  return firstDigit === 0
+    ? { text: code.slice(1), format: 'UPC_A' }
+    : { text: code, format: 'EAN_13' };
+}
+
+// Find the digit whose module widths best match four measured runs
+function matchDigit(runs: number[], allowEvenParity: boolean): { digit: number; isEven: boolean } | null {
+  const unit = runs.reduce((sum, width) => sum + width, 0) / 7;
+  const modules = runs.map(width => width / unit);
+  
+  let best: { digit: number; isEven: boolean } | null = null;
+  let bestError = MAX_DIGIT_ERROR;
+  
+  for (let digit = 0; digit < DIGIT_WIDTHS.length; digit++) {
+    const pattern = DIGIT_WIDTHS[digit];
+    const candidates = allowEvenParity
+      ? [{ pattern, isEven: false }, { pattern: [...pattern].reverse(), isEven: true }]
+      : [{ pattern, isEven: false }];
+      
+    for (const candidate of candidates) {
+      const error = candidate.pattern.reduce((sum, expected, i) => sum + Math.abs(modules[i] - expected), 0);
+      
+      if (error < bestError) {
+        bestError = error;
+        best = { digit, isEven: candidate.isEven };
+      }
+    }
+  }
+  
+  return best;
+}
@@ -0,0 +1,120 @@
+import { Challenge, createGamificationProfile, expireChallenges } from './gamification';
+import {
+  ChallengeDay,
+  ChallengeMeal,
+  applyChallengeDay,
+  createChallenge,
+  getChallengeDefinition,
+  isQualifyingDay
+} from './challenges';
+
+const timeZone = 'UTC';
+const targets = { calorieTarget: 2000, proteinTarget: 150, carbTarget: 200, fatTarget: 60 };
+
+const at = (logDay: string, hour: number) => new Date(`${logDay}T${String(hour).padStart(2, '0')}:00:00Z`);
+
+const meal = (overrides: Partial<ChallengeMeal> = {}): ChallengeMeal => ({
+  mealType: 'lunch',
+  foodItems: [{ addedAt: at('2026-01-05', 12) }],
+  totalCalories: 2000,
+  totalProtein: 150,
+  totalCarbs: 200,
+  totalFat: 60,
+  ...overrides
+});
+
+const day = (logDay: string, meals: ChallengeMeal[]): ChallengeDay => ({ logDay, timeZone, meals, targets });
+
+function joined(challengeId: string, now = at('2026-01-05', 7)): Challenge {
+  return {
+    ...createChallenge(getChallengeDefinition(challengeId)!, now, timeZone),
+    currentProgress: 0,
+    isCompleted: false
+  };
+}
+
+describe('isQualifyingDay', () => {
+  const rule = (challengeId: string) => getChallengeDefinition(challengeId)!.rule;
+  
+  it('counts protein within 5% of the target', () => {
+    expect(isQualifyingDay(rule('protein-week'), day('2026-01-05', [meal({ totalProtein: 144 })]))).toBe(true);
+    expect(isQualifyingDay(rule('protein-week'), day('2026-01-05', [meal({ totalProtein: 138 })]))).toBe(false);
+    expect(isQualifyingDay(rule('protein-week'), day('2026-01-05', []))).toBe(false);
+  });
+  
+  it('needs every macro on target for a balanced day', () => {
+    const balanced = rule('balanced-three');
+    
+    expect(isQualifyingDay(balanced, day('2026-01-05', [meal({ totalCalories: 1500 })]))).toBe(true);
+    expect(isQualifyingDay(balanced, day('2026-01-05', [meal({ totalFat: 80 })]))).toBe(false);
+  });
+  
+  it('counts breakfast added on the day before 9am', () => {
+    const morning = rule('morning-entries');
+    const breakfast = (addedAt: Date) => meal({ mealType: 'breakfast', foodItems: [{ addedAt }] });
+    
+    expect(isQualifyingDay(morning, day('2026-01-05', [breakfast(at('2026-01-05', 8))]))).toBe(true);
+    expect(isQualifyingDay(morning, day('2026-01-05', [breakfast(at('2026-01-05', 10))]))).toBe(false);
+    expect(isQualifyingDay(morning, day('2026-01-05', [breakfast(at('2026-01-04', 8))]))).toBe(false);
+    expect(isQualifyingDay(morning, day('2026-01-05', [meal({ foodItems: [{ addedAt: at('2026-01-05', 8) }] })]))).toBe(false);
+  });
+});
+
+describe('applyChallengeDay', () => {
+  const definition = getChallengeDefinition('protein-week')!;
+  
+  it('counts each qualifying day once', () => {
+    const once = applyChallengeDay(joined('protein-week'), definition, day('2026-01-05', [meal()]));
+    const twice = applyChallengeDay(once, definition, day('2026-01-05', [meal()]));
+    
+    expect(once.currentProgress).toBe(1);
+    expect(twice).toBe(once);
+  });
+  
+  it('starts a consecutive challenge over after a missed day', () => {
+    let challenge = applyChallengeDay(joined('protein-week'), definition, day('2026-01-05', [meal()]));
+    challenge = applyChallengeDay(challenge, definition, day('2026-01-06', [meal({ totalProtein: 50 })]), true);
+    
+    expect(challenge.currentProgress).toBe(0);
+    expect(challenge.countedDays).toEqual([]);
+  });
+  
+  it('completes once the target is reached', () => {
+    const balanced = getChallengeDefinition('balanced-three')!;
+    const challenge = ['2026-01-05', '2026-01-07', '2026-01-09'].reduce(
+      (current, logDay) => applyChallengeDay(current, balanced, day(logDay, [meal()])),
+      joined('balanced-three')
+    );
+    
+    expect(challenge.currentProgress).toBe(3);
+    expect(challenge.isCompleted).toBe(true);
+  });
+  
+  it('ignores days outside the challenge', () => {
+    const challenge = joined('protein-week');
+    
+    expect(applyChallengeDay(challenge, definition, day('2026-01-04', [meal()]))).toBe(challenge);
+    expect(applyChallengeDay(challenge, definition, day('2026-01-12', [meal()]))).toBe(challenge);
+  });
+});
+
+describe('expireChallenges', () => {
+  it('moves challenges past their end date to the failed ones', () => {
+    const challenge = joined('protein-week');
+    const profile = { ...createGamificationProfile('alice'), activeChallenges: [challenge] };
+    
+    expect(expireChallenges(profile, at('2026-01-11', 23))).toBe(profile);
+    
+    const expired = expireChallenges(profile, at('2026-01-12', 0));
+    
+    expect(expired.activeChallenges).toEqual([]);
+    expect(expired.failedChallenges).toEqual([{ ...challenge, failedAt: at('2026-01-12', 0) }]);
+  });
+  
+  it('keeps completed challenges', () => {
+    const challenge = { ...joined('protein-week'), isCompleted: true };
+    const profile = { ...createGamificationProfile('alice'), activeChallenges: [challenge] };
+    
+    expect(expireChallenges(profile, at('2026-02-01', 0))).toBe(profile);
+  });
+});
@@ -0,0 +1,219 @@
+import type { Challenge } from './gamification';
+import { NutritionTargets, TARGET_HIT_TOLERANCE } from './nutritionTargets';
+import { LogDay, addLogDays, getZonedHour, startOfLogDay, toLogDay } from './logDay';
+
+/**
+ * Challenge definitions and the rules that decide whether a day counts
+ * towards them. Progress is counted once per day; for consecutive
+ * challenges a day that doesn't qualify starts the count over.
+ */
+
+export type ChallengeMacro = 'calories' | 'protein' | 'carbs' | 'fat';
+
+export type ChallengeRule =
+  // Intake within tolerance of every listed target
+  | { type: 'targets_hit'; targets: ChallengeMacro[] }
+  // Anything logged at all
+  | { type: 'food_logged' }
+  // A food added to the meal on the day itself, before the given hour
+  | { type: 'meal_logged_before'; mealType: string; hour: number };
+
+export interface ChallengeDefinition {
+  id: string;
+  title: string;
+  description: string;
+  iconName: string;
+  durationDays: number;
+  targetValue: number;
+  points: number;
+  rule: ChallengeRule;
+  consecutive?: boolean; // a day that doesn't qualify resets progress
+}
+
+// The parts of a logged meal that rules look at
+export interface ChallengeMeal {
+  mealType: string;
+  foodItems: { addedAt: Date }[];
+  totalCalories: number;
+  totalProtein: number;
+  totalCarbs: number;
+  totalFat: number;
+}
+
+// Everything a rule needs to know about one day
+export interface ChallengeDay {
+  logDay: LogDay;
+  timeZone: string; // the user's, for times of day
+  meals: ChallengeMeal[];
+  targets: NutritionTargets;
+}
+
+export const CHALLENGE_DEFINITIONS: ChallengeDefinition[] = [
+  {
+    id: 'protein-week',
+    title: 'Protein Powerhouse',
+    description: 'Hit your protein target every day for 7 days straight',
+    iconName: 'nutrition',
+    durationDays: 7,
+    targetValue: 7,
+    points: 50,
+    rule: { type: 'targets_hit', targets: ['protein'] },
+    consecutive: true
+  },
+  {
+    id: 'balanced-three',
+    title: 'Perfect Balance',
+    description: 'Hit all three macro targets on the same day, 3 times',
+    iconName: 'nutrition',
+    durationDays: 14,
+    targetValue: 3,
+    points: 75,
+    rule: { type: 'targets_hit', targets: ['protein', 'carbs', 'fat'] }
+  },
+  {
+    id: 'log-streak-14',
+    title: 'Two-Week Warrior',
+    description: 'Log your food every day for 14 days in a row',
+    iconName: 'streak',
+    durationDays: 14,
+    targetValue: 14,
+    points: 100,
+    rule: { type: 'food_logged' },
+    consecutive: true
+  },
+  {
+    id: 'morning-entries',
+    title: 'Early Bird',
+    description: 'Log breakfast before 9am for 5 days',
+    iconName: 'consistency',
+    durationDays: 10,
+    targetValue: 5,
+    points: 40,
+    rule: { type: 'meal_logged_before', mealType: 'breakfast', hour: 9 }
+  }
+];
+
+/**
+ * A challenge as joined now, running for the definition's duration. It
+ * ends at midnight in the user's time zone.
+ */
+export function createChallenge(
+  definition: ChallengeDefinition,
+  now: Date,
+  timeZone: string
+): Omit<Challenge, 'currentProgress' | 'isCompleted'> {
+  const { durationDays, rule, consecutive, ...details } = definition;
+  const endDay = addLogDays(toLogDay(now, timeZone), durationDays);
+  
+  return {
+    ...details,
+    startDate: now,
+    endDate: startOfLogDay(endDay, timeZone)
+  };
+}
+
+export function getChallengeDefinition(challengeId: string): ChallengeDefinition | undefined {
+  return CHALLENGE_DEFINITIONS.find(definition => definition.id === challengeId);
+}
+
+/**
+ * Whether a day satisfies a challenge rule
+ */
+export function isQualifyingDay(rule: ChallengeRule, day: ChallengeDay): boolean {
+  const foodItems = day.meals.flatMap(meal => meal.foodItems);
+  
+  switch (rule.type) {
+    case 'food_logged':
+      return foodItems.length > 0;
+    case 'targets_hit': {
+      if (foodItems.length === 0) return false;
+      
+      const totals: Record<ChallengeMacro, number> = {
+        calories: sumMeals(day.meals, 'totalCalories'),
+        protein: sumMeals(day.meals, 'totalProtein'),
+        carbs: sumMeals(day.meals, 'totalCarbs'),
+        fat: sumMeals(day.meals, 'totalFat')
+      };
+      const targets: Record<ChallengeMacro, number> = {
+        calories: day.targets.calorieTarget,
+        protein: day.targets.proteinTarget,
+        carbs: day.targets.carbTarget,
+        fat: day.targets.fatTarget
+      };
+      
+      return rule.targets.every(macro =>
+        Math.abs(totals[macro] - targets[macro]) <= targets[macro] * TARGET_HIT_TOLERANCE
+      );
+    }
+    case 'meal_logged_before':
+      return day.meals
+        .filter(meal => meal.mealType === rule.mealType)
+        .some(meal => meal.foodItems.some(item =>
+          toLogDay(item.addedAt, day.timeZone) === day.logDay &&
+          getZonedHour(item.addedAt, day.timeZone) < rule.hour
+        ));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply one day to an active challenge. Days outside the challenge window
+ * and days already counted are ignored. Pass isDayOver for a day that has
+ * ended, so a consecutive challenge can be reset when it didn't qualify.
+ * Returns the same object when nothing changed.
+ */
+export function applyChallengeDay(
+  challenge: Challenge,
+  definition: ChallengeDefinition,
+  day: ChallengeDay,
+  isDayOver = false
+): Challenge {
+  const dayKey = day.logDay;
+  const countedDays = challenge.countedDays || [];
+  
+  if (
+    challenge.isCompleted ||
+    dayKey < toLogDay(challenge.startDate, day.timeZone) ||
+    dayKey >= toLogDay(challenge.endDate, day.timeZone) ||
+    countedDays.includes(dayKey)
+  ) {
+    return challenge;
+  }
+  
+  if (!isQualifyingDay(definition.rule, day)) {
+    // A finished day that missed breaks a consecutive run
+    if (isDayOver && definition.consecutive && challenge.currentProgress > 0) {
+      return { ...challenge, currentProgress: 0, countedDays: [] };
+    }
+    return challenge;
+  }
+  
+  // A gap since the last counted day also breaks a consecutive run
+  const lastCounted = countedDays[countedDays.length - 1];
+  const previousDayKey = addLogDays(dayKey, -1);
+  const isRunBroken = definition.consecutive && lastCounted !== undefined && lastCounted !== previousDayKey;
+  
+  const nextCountedDays = isRunBroken ? [dayKey] : [...countedDays, dayKey];
+  const currentProgress = Math.min(nextCountedDays.length, challenge.targetValue);
+  const isCompleted = currentProgress >= challenge.targetValue;
+  
+  return {
+    ...challenge,
+    currentProgress,
+    countedDays: nextCountedDays,
+    isCompleted,
+    completedAt: isCompleted ? new Date() : undefined
+  };
+}
+
+/**
+ * Whether an unfinished challenge has run out of time
+ */
+export function isChallengeExpired(challenge: Challenge, now: Date = new Date()): boolean {
+  return !challenge.isCompleted && challenge.endDate <= now;
+}
+
+function sumMeals(meals: ChallengeMeal[], field: 'totalCalories' | 'totalProtein' | 'totalCarbs' | 'totalFat'): number {
+  return meals.reduce((sum, meal) => sum + meal[field], 0);
+}
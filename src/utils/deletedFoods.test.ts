@@ -0,0 +1,60 @@
+import type { FoodItem } from '../stores/foodLogStore';
+import { rebuildLoggedFood } from './deletedFoods';
+import { getServingOptions } from './servings';
+
+const item = (overrides: Partial<FoodItem> = {}): FoodItem => ({
+  id: 'item-1',
+  foodId: 'oats',
+  name: 'Overnight oats',
+  servingSize: '2 serving',
+  servingSizeUnit: 'serving',
+  servingQty: 2,
+  calories: 360,
+  protein: 14,
+  carbs: 60,
+  fat: 8,
+  fiber: 6,
+  nutrients: { iron: 4 },
+  addedAt: new Date(2026, 0, 1),
+  ...overrides
+});
+
+describe('rebuildLoggedFood', () => {
+  it('rebuilds one serving from a logged item', () => {
+    const food = rebuildLoggedFood('oats', [item()]);
+    
+    expect(food).toMatchObject({
+      id: 'oats',
+      name: 'Overnight oats',
+      calories: 180,
+      protein: 7,
+      carbs: 30,
+      fat: 4,
+      fiber: 3,
+      nutrients: { iron: 2 },
+      source: 'deleted'
+    });
+    expect(food?.sugar).toBeUndefined();
+  });
+  
+  it('only offers plain servings, since the base serving size is unknown', () => {
+    const food = rebuildLoggedFood('oats', [item({ servingSizeUnit: 'g', servingUnit: 'g' })]);
+    const options = getServingOptions(food!);
+    
+    expect(options.map(option => option.id)).toEqual(['serving']);
+    expect(options[0].servings).toBe(1);
+  });
+  
+  it('uses the most recently logged item', () => {
+    const food = rebuildLoggedFood('oats', [
+      item({ calories: 360 }),
+      item({ calories: 400, addedAt: new Date(2026, 0, 5) })
+    ]);
+    
+    expect(food?.calories).toBe(200);
+  });
+  
+  it('returns null for foods that were never logged', () => {
+    expect(rebuildLoggedFood('rice', [item()])).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import type { FoodData, FoodItem } from '../stores/foodLogStore';
+import { scaleNutrients } from './nutrients';
+import { BASE_SERVING_NAME } from './servings';
+
+/**
+ * Foods that have been deleted can still be looked at, and logged again, as
+ * they were last logged. Meal items keep their own copy of the nutrition,
+ * scaled by servingQty, so one base serving can be rebuilt from any of them.
+ * Items don't keep the size of the base serving, only its unit, so the
+ * rebuilt food is measured in plain servings rather than by weight or volume.
+ */
+export function rebuildLoggedFood(foodId: string, items: FoodItem[]): FoodData | null {
+  const item = items
+    .filter(foodItem => foodItem.foodId === foodId)
+    .sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime())[0];
+  
+  if (!item) return null;
+  
+  const factor = 1 / (item.servingQty || 1);
+  const perServing = (value: number) => Math.round(value * factor * 10) / 10;
+  
+  return {
+    id: foodId,
+    name: item.name,
+    servingSizeUnit: BASE_SERVING_NAME,
+    servingSize: 1,
+    calories: perServing(item.calories),
+    protein: perServing(item.protein),
+    carbs: perServing(item.carbs),
+    fat: perServing(item.fat),
+    fiber: item.fiber !== undefined ? perServing(item.fiber) : undefined,
+    sugar: item.sugar !== undefined ? perServing(item.sugar) : undefined,
+    sodium: item.sodium !== undefined ? perServing(item.sodium) : undefined,
+    nutrients: scaleNutrients(item.nutrients, factor),
+    barcode: item.barcode,
+    isUserCreated: false,
+    source: 'deleted',
+    createdAt: item.addedAt
+  };
+}
@@ -0,0 +1,99 @@
+import type { DailyStats } from '../stores/foodLogStore';
+import type { WeightTrendPoint } from './weightTrend';
+import { MAX_WINDOW_DAYS, estimateExpenditure, hasTargetDrifted } from './expenditure';
+
+const date = (day: number) => new Date(2026, 0, day);
+
+// One entry per day from day 1, eating the given calories
+const intake = (count: number, calories: number | ((day: number) => number), logged: (day: number) => boolean = () => true): DailyStats[] =>
+  Array.from({ length: count }, (_, index) => {
+    const day = index + 1;
+    const isLogged = logged(day);
+    
+    return {
+      date: date(day),
+      calories: isLogged ? (typeof calories === 'function' ? calories(day) : calories) : 0,
+      protein: 0,
+      carbs: 0,
+      fat: 0,
+      itemCount: isLogged ? 3 : 0,
+      targetMet: false
+    };
+  });
+
+// A trend point on each of the given days, changing by dailyChange kg a day
+const trend = (days: number[], dailyChange: number): WeightTrendPoint[] =>
+  days.map(day => ({ date: date(day), weight: 80 + dailyChange * day, trend: 80 + dailyChange * day }));
+
+const everyDay = (count: number) => Array.from({ length: count }, (_, index) => index + 1);
+
+describe('estimateExpenditure', () => {
+  it('takes the surplus implied by a rising trend off the intake', () => {
+    // 0.1 kg a day is 770 kcal a day stored
+    const estimate = estimateExpenditure(intake(28, 2500), trend(everyDay(28), 0.1));
+    
+    expect(estimate).toEqual({
+      maintenanceCalories: 1730,
+      averageIntake: 2500,
+      weeklyWeightChange: 0.7,
+      loggedDays: 28,
+      windowDays: 28
+    });
+  });
+  
+  it('adds the deficit implied by a falling trend', () => {
+    const estimate = estimateExpenditure(intake(21, 2000), trend(everyDay(21), -0.05));
+    
+    expect(estimate?.maintenanceCalories).toBe(2385);
+  });
+  
+  it('only looks at the most recent weeks', () => {
+    const days = intake(40, day => (day <= 12 ? 5000 : 2500));
+    const estimate = estimateExpenditure(days, trend(everyDay(40), 0));
+    
+    expect(estimate?.windowDays).toBe(MAX_WINDOW_DAYS);
+    expect(estimate?.averageIntake).toBe(2500);
+    expect(estimate?.loggedDays).toBe(28);
+  });
+  
+  it('averages logged days only', () => {
+    const estimate = estimateExpenditure(intake(20, 2400, day => day % 2 === 0), trend(everyDay(20), 0));
+    
+    expect(estimate?.averageIntake).toBe(2400);
+    expect(estimate?.loggedDays).toBe(10);
+  });
+  
+  it('returns null without any days', () => {
+    expect(estimateExpenditure([], trend(everyDay(20), 0))).toBeNull();
+  });
+  
+  it('returns null for a window shorter than two weeks', () => {
+    expect(estimateExpenditure(intake(13, 2000), trend(everyDay(13), 0))).toBeNull();
+  });
+  
+  it('returns null with too few logged days', () => {
+    expect(estimateExpenditure(intake(20, 2000, day => day <= 9), trend(everyDay(20), 0))).toBeNull();
+  });
+  
+  it('returns null with fewer than two weigh-ins in the window', () => {
+    expect(estimateExpenditure(intake(20, 2000), trend([20], 0))).toBeNull();
+    expect(estimateExpenditure(intake(20, 2000), trend([25, 30], 0))).toBeNull();
+  });
+  
+  it('returns null when weigh-ins span less than ten days', () => {
+    expect(estimateExpenditure(intake(20, 2000), trend([10, 15, 19], 0))).toBeNull();
+  });
+});
+
+describe('hasTargetDrifted', () => {
+  it('suggests a target when there is none', () => {
+    expect(hasTargetDrifted(undefined, 2000)).toBe(true);
+    expect(hasTargetDrifted(0, 2000)).toBe(true);
+  });
+  
+  it('suggests a new target more than 5% away', () => {
+    expect(hasTargetDrifted(2000, 2050)).toBe(false);
+    expect(hasTargetDrifted(2000, 1850)).toBe(true);
+    expect(hasTargetDrifted(2000, 2200)).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import type { DailyStats } from '../stores/foodLogStore';
+import type { WeightTrendPoint } from './weightTrend';
+
+/**
+ * Adaptive expenditure (TDEE) estimate. Rather than trusting a formula, it
+ * compares what was actually eaten with how the weight trend moved:
+ * eating 500 kcal/day above maintenance shows up as a rising trend.
+ */
+
+// Energy stored in one kg of body weight change (mixed fat and lean tissue)
+export const KCAL_PER_KG = 7700;
+
+// The estimate is unreliable with less data than this
+export const MIN_WINDOW_DAYS = 14;
+export const MAX_WINDOW_DAYS = 28;
+const MIN_LOGGED_DAYS = 10;
+const MIN_WEIGHT_SPAN_DAYS = 10;
+
+// How far the estimate may drift from the current target before suggesting an update
+export const TARGET_DRIFT_THRESHOLD = 0.05;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ExpenditureEstimate {
+  maintenanceCalories: number;
+  averageIntake: number;
+  weeklyWeightChange: number; // kg per week, from the trend
+  loggedDays: number;
+  windowDays: number;
+}
+
+/**
+ * Estimate maintenance calories from daily intake and the weight trend over
+ * the same window. Returns null when there isn't enough logged data.
+ */
+export function estimateExpenditure(
+  days: DailyStats[],
+  trend: WeightTrendPoint[]
+): ExpenditureEstimate | null {
+  if (days.length === 0) return null;
+  
+  const windowEnd = days[days.length - 1].date;
+  const windowStart = new Date(Math.max(
+    days[0].date.getTime(),
+    windowEnd.getTime() - (MAX_WINDOW_DAYS - 1) * MS_PER_DAY
+  ));
+  const windowDays = Math.round((windowEnd.getTime() - windowStart.getTime()) / MS_PER_DAY) + 1;
+  
+  if (windowDays < MIN_WINDOW_DAYS) return null;
+  
+  // Days without food logged are unknown intake, not zero intake
+  const loggedDays = days.filter(day => day.itemCount > 0 && day.date >= windowStart);
+  
+  if (loggedDays.length < MIN_LOGGED_DAYS) return null;
+  
+  const averageIntake = loggedDays.reduce((sum, day) => sum + day.calories, 0) / loggedDays.length;
+  
+  // Weigh-ins inside the window (including the end day)
+  const endOfWindow = windowEnd.getTime() + MS_PER_DAY;
+  const trendInWindow = trend.filter(point =>
+    point.date >= windowStart && point.date.getTime() < endOfWindow
+  );
+  
+  if (trendInWindow.length < 2) return null;
+  
+  const first = trendInWindow[0];
+  const last = trendInWindow[trendInWindow.length - 1];
+  const weightSpanDays = (last.date.getTime() - first.date.getTime()) / MS_PER_DAY;
+  
+  if (weightSpanDays < MIN_WEIGHT_SPAN_DAYS) return null;
+  
+  const dailyWeightChange = (last.trend - first.trend) / weightSpanDays;
+  
+  // Surplus (or deficit) that the weight change implies
+  const dailyEnergyBalance = dailyWeightChange * KCAL_PER_KG;
+  
+  return {
+    maintenanceCalories: Math.round(averageIntake - dailyEnergyBalance),
+    averageIntake: Math.round(averageIntake),
+    weeklyWeightChange: Math.round(dailyWeightChange * 7 * 100) / 100,
+    loggedDays: loggedDays.length,
+    windowDays
+  };
+}
+
+/**
+ * Whether a recalculated calorie target differs enough from the current one
+ * to be worth suggesting
+ */
+export function hasTargetDrifted(currentTarget: number | undefined, newTarget: number): boolean {
+  if (!currentTarget) return true;
+  
+  return Math.abs(newTarget - currentTarget) / currentTarget > TARGET_DRIFT_THRESHOLD;
+}
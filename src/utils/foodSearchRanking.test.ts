@@ -0,0 +1,57 @@
+import { editDistance, rankFoodResults, scoreFoodResult, scoreWordMatch } from './foodSearchRanking';
+
+const food = (id: string, name: string, extra: { brand?: string; userId?: string } = {}) => ({ id, name, ...extra });
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and swaps', () => {
+    expect(editDistance('chicken', 'chicken')).toBe(0);
+    expect(editDistance('chiken', 'chicken')).toBe(1);
+    expect(editDistance('chikcen', 'chicken')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'oats')).toBe(4);
+  });
+});
+
+describe('scoreWordMatch', () => {
+  it('prefers whole words, then prefixes, then typos', () => {
+    const words = ['chicken', 'breast'];
+    const exact = scoreWordMatch('chicken', words);
+    const prefix = scoreWordMatch('chick', words);
+    const typo = scoreWordMatch('chikcen', words);
+    
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(typo);
+    expect(typo).toBeGreaterThan(0);
+    expect(scoreWordMatch('chikc', words)).toBeGreaterThan(0);
+    expect(scoreWordMatch('beef', words)).toBe(0);
+  });
+  
+  it("doesn't allow typos in short words", () => {
+    expect(scoreWordMatch('egg', ['eggs'])).toBeGreaterThan(0);
+    expect(scoreWordMatch('ehg', ['eggs'])).toBe(0);
+  });
+});
+
+describe('rankFoodResults', () => {
+  it('puts the closest names first', () => {
+    const results = rankFoodResults('banana', [
+      food('1', 'Banana Bread'),
+      food('2', 'Peanut Butter'),
+      food('3', 'Banana'),
+      food('4', 'Frozen Banana')
+    ]);
+    
+    expect(results.map(result => result.name)).toEqual(['Banana', 'Banana Bread', 'Frozen Banana', 'Peanut Butter']);
+  });
+  
+  it('boosts brand matches, own foods and frequently logged foods', () => {
+    const plain = food('1', 'Chocolate Cookies');
+    
+    expect(scoreFoodResult('oreo cookies', food('2', 'Chocolate Cookies', { brand: 'Oreo' })))
+      .toBeGreaterThan(scoreFoodResult('oreo cookies', plain));
+    expect(scoreFoodResult('cookies', food('2', 'Chocolate Cookies', { userId: 'alice' }), { userId: 'alice' }))
+      .toBeGreaterThan(scoreFoodResult('cookies', plain, { userId: 'alice' }));
+    expect(scoreFoodResult('cookies', plain, { logCounts: { '1': 5 } }))
+      .toBeGreaterThan(scoreFoodResult('cookies', plain));
+  });
+});
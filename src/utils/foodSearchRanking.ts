@@ -0,0 +1,149 @@
+import { getSearchWords, normalizeSearchText } from './searchTokens';
+
+/**
+ * Orders food search results by how well they match what was typed,
+ * tolerating typos, and favors the user's own foods and the foods they log
+ * most often. Providers return matches in their own order (or none at
+ * all), so results from every provider are ranked together here.
+ */
+
+// The parts of a search result the ranking needs
+export interface RankableFood {
+  id: string;
+  name: string;
+  brand?: string;
+  userId?: string;
+}
+
+export interface RankingContext {
+  userId?: string;
+  logCounts?: Record<string, number>; // times each food id was logged recently
+}
+
+// Score for a query word found as a whole word, a prefix, or with typos
+const EXACT_WORD_SCORE = 1;
+const PREFIX_WORD_SCORE = 0.8;
+const TYPO_WORD_SCORE = 0.6;
+const TYPO_PENALTY = 0.15;
+
+const NAME_PREFIX_BOOST = 0.2; // the name starts with the whole query
+const BRAND_BOOST = 0.2;
+const OWN_FOOD_BOOST = 0.15;
+const LOG_COUNT_BOOST = 0.02; // per time logged, up to MAX_LOG_COUNT
+const MAX_LOG_COUNT = 10;
+
+/**
+ * Edit distance: the fewest single-letter insertions, deletions,
+ * substitutions and swaps of neighbouring letters that turn one string into
+ * the other. Swaps count as one edit since they're the most common typo.
+ */
+export function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      
+      current.push(distance);
+    }
+    
+    beforePrevious = previous;
+    previous = current;
+  }
+  
+  return previous[b.length];
+}
+
+// Typos allowed in a query word: none for short words, more for longer ones
+function maxTypos(word: string): number {
+  if (word.length < 4) return 0;
+  return word.length < 8 ? 1 : 2;
+}
+
+/**
+ * How well one query word matches the best of the given words, from 0 to 1.
+ * A word being typed is compared against the start of each word too, so
+ * "chikc" still matches "chicken".
+ */
+export function scoreWordMatch(queryWord: string, words: string[]): number {
+  return words.reduce((best, word) => {
+    if (word === queryWord) return Math.max(best, EXACT_WORD_SCORE);
+    
+    if (word.startsWith(queryWord)) {
+      return Math.max(best, PREFIX_WORD_SCORE + (EXACT_WORD_SCORE - PREFIX_WORD_SCORE) * (queryWord.length / word.length));
+    }
+    
+    const typos = Math.min(
+      editDistance(queryWord, word),
+      editDistance(queryWord, word.slice(0, queryWord.length))
+    );
+    
+    if (typos > maxTypos(queryWord)) return best;
+    
+    return Math.max(best, TYPO_WORD_SCORE - TYPO_PENALTY * (typos - 1));
+  }, 0);
+}
+
+/**
+ * Relevance of a food to a search. Zero means no word of the query matched
+ * the name or brand.
+ */
+export function scoreFoodResult(searchTerm: string, food: RankableFood, context: RankingContext = {}): number {
+  const queryWords = getSearchWords(searchTerm);
+  
+  if (queryWords.length === 0) return 0;
+  
+  const nameWords = getSearchWords(food.name);
+  const brandWords = getSearchWords(food.brand || '');
+  
+  // Each query word counts once, for whichever of the name or brand it matches best
+  const wordScores = queryWords.map(word => ({
+    name: scoreWordMatch(word, nameWords),
+    brand: scoreWordMatch(word, brandWords)
+  }));
+  const matchScore = wordScores.reduce((sum, { name, brand }) => sum + Math.max(name, brand), 0) / queryWords.length;
+  
+  if (matchScore === 0) return 0;
+  
+  let score = matchScore;
+  
+  if (normalizeSearchText(food.name).startsWith(normalizeSearchText(searchTerm))) {
+    score += NAME_PREFIX_BOOST;
+  }
+  
+  // Naming the brand ("oreo cookies") is a strong hint about which food is meant
+  if (wordScores.some(({ brand }) => brand > 0)) {
+    score += BRAND_BOOST;
+  }
+  
+  if (context.userId && food.userId === context.userId) {
+    score += OWN_FOOD_BOOST;
+  }
+  
+  score += LOG_COUNT_BOOST * Math.min(context.logCounts?.[food.id] || 0, MAX_LOG_COUNT);
+  
+  return score;
+}
+
+/**
+ * Sort search results best match first. Ties go to the shorter name, so
+ * "Banana" comes before "Banana Bread" for "banana".
+ */
+export function rankFoodResults<T extends RankableFood>(searchTerm: string, foods: T[], context: RankingContext = {}): T[] {
+  return foods
+    .map(food => ({ food, score: scoreFoodResult(searchTerm, food, context) }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.food.name.length - b.food.name.length ||
+      a.food.name.localeCompare(b.food.name)
+    )
+    .map(({ food }) => food);
+}
@@ -0,0 +1,340 @@
+import type { AppEvent } from './appEvents';
+import { ACHIEVEMENT_DEFINITIONS, createAchievement, evaluateAchievements } from './achievements';
+import {
+  ChallengeDay,
+  applyChallengeDay,
+  createChallenge,
+  getChallengeDefinition,
+  isChallengeExpired
+} from './challenges';
+import { LogDay, addLogDays, toLogDay } from './logDay';
+
+/**
+ * Gamification profile and the rules that change it. These run in Cloud
+ * Functions so points can't be awarded from the client; the app only reads
+ * the resulting profile.
+ */
+
+// Types for achievements, streaks, and challenges
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  iconName: string;
+  category: 'logging' | 'nutrition' | 'consistency' | 'social' | 'special';
+  progress: number;
+  progressKeys?: string[]; // values already counted by 'distinct' rules
+  targetValue: number;
+  isCompleted: boolean;
+  completedAt?: Date;
+  points: number;
+}
+
+export interface Challenge {
+  id: string;
+  title: string;
+  description: string;
+  iconName: string;
+  startDate: Date;
+  endDate: Date;
+  targetValue: number;
+  currentProgress: number;
+  countedDays?: LogDay[]; // days already counted towards progress
+  isCompleted: boolean;
+  completedAt?: Date;
+  failedAt?: Date; // set when the challenge ran out of time
+  points: number;
+}
+
+export interface StreakHistoryEntry {
+  logDay: LogDay;
+  status: 'logged' | 'frozen'; // frozen days were missed but covered by a streak freeze
+}
+
+export interface GamificationProfile {
+  userId: string;
+  streakDays: number;
+  longestStreak: number;
+  lastLogDate: Date | null; // when the last counted day was logged
+  lastLogDay?: LogDay; // the last day counted towards the streak
+  streakFreezes: number;
+  streakHistory: StreakHistoryEntry[]; // most recent days last
+  points: number; // all points ever earned, which set the level
+  spentPoints: number; // points spent on streak freezes
+  level: number;
+  achievements: Achievement[];
+  activeChallenges: Challenge[];
+  completedChallenges: Challenge[];
+  failedChallenges: Challenge[];
+}
+
+// Level formula: each level requires more points
+// Level 1: 0-99, Level 2: 100-249, Level 3: 250-449, etc.
+export const LEVEL_THRESHOLDS = [0, 100, 250, 450, 700, 1000, 1350, 1750, 2200, 2700, 3250];
+
+// Streak freezes cover a single missed day. One is granted for each new level
+// and more can be bought with points, up to the most that can be held.
+export const MAX_STREAK_FREEZES = 2;
+export const STREAK_FREEZE_COST = 150;
+
+// Days kept in the streak history
+const STREAK_HISTORY_LENGTH = 60;
+
+export function getLevel(points: number): number {
+  for (let level = LEVEL_THRESHOLDS.length - 1; level >= 0; level--) {
+    if (points >= LEVEL_THRESHOLDS[level]) {
+      return level + 1;
+    }
+  }
+  
+  return 1;
+}
+
+export function createGamificationProfile(userId: string): GamificationProfile {
+  return {
+    userId,
+    streakDays: 0,
+    longestStreak: 0,
+    lastLogDate: null,
+    streakFreezes: 0,
+    streakHistory: [],
+    points: 0,
+    spentPoints: 0,
+    level: 1,
+    achievements: ACHIEVEMENT_DEFINITIONS.map(createAchievement),
+    activeChallenges: [],
+    completedChallenges: [],
+    failedChallenges: []
+  };
+}
+
+export function addPoints(profile: GamificationProfile, points: number): GamificationProfile {
+  if (points === 0) {
+    return profile;
+  }
+  
+  const newPoints = profile.points + points;
+  const level = getLevel(newPoints);
+  
+  return {
+    ...profile,
+    points: newPoints,
+    level,
+    // Each new level comes with a streak freeze
+    streakFreezes: Math.min(profile.streakFreezes + Math.max(level - profile.level, 0), MAX_STREAK_FREEZES)
+  };
+}
+
+/**
+ * Points that can still be spent
+ */
+export function getAvailablePoints(profile: GamificationProfile): number {
+  return profile.points - profile.spentPoints;
+}
+
+/**
+ * Trade points for a streak freeze. Spent points don't lower the level.
+ */
+export function buyStreakFreeze(profile: GamificationProfile): GamificationProfile {
+  if (profile.streakFreezes >= MAX_STREAK_FREEZES) {
+    throw new Error(`You can hold at most ${MAX_STREAK_FREEZES} streak freezes`);
+  }
+  
+  if (getAvailablePoints(profile) < STREAK_FREEZE_COST) {
+    throw new Error('Not enough points for a streak freeze');
+  }
+  
+  return {
+    ...profile,
+    streakFreezes: profile.streakFreezes + 1,
+    spentPoints: profile.spentPoints + STREAK_FREEZE_COST
+  };
+}
+
+/**
+ * Move achievements forward for an event and award points for any it unlocked
+ */
+export function applyAppEvent(
+  profile: GamificationProfile,
+  event: AppEvent
+): { profile: GamificationProfile; unlocked: Achievement[] } {
+  const { achievements, unlocked } = evaluateAchievements(profile.achievements, event);
+  
+  if (achievements === profile.achievements) {
+    return { profile, unlocked };
+  }
+  
+  const points = unlocked.reduce((sum, achievement) => sum + achievement.points, 0);
+  
+  return {
+    profile: addPoints({ ...profile, achievements }, points),
+    unlocked
+  };
+}
+
+/**
+ * Bonus points for reaching a streak length
+ */
+export function getStreakPoints(streakDays: number): number {
+  if (streakDays === 7) return 25;
+  if (streakDays === 30) return 100;
+  if (streakDays === 100) return 300;
+  if (streakDays % 10 === 0) return 50;
+  return 5; // Base points for continuing a streak
+}
+
+/**
+ * Count a log day towards the streak. Returns the previously logged day
+ * when this is the first log after it, since that day is now over.
+ * A single missed day uses up a streak freeze, when there is one, instead
+ * of resetting the streak.
+ * Profiles from before log days only have lastLogDate, which is read in
+ * the user's time zone.
+ */
+export function updateStreak(
+  profile: GamificationProfile,
+  logDay: LogDay,
+  loggedAt: Date,
+  timeZone: string
+): { profile: GamificationProfile; closedDay: LogDay | null } {
+  const lastLogDay = profile.lastLogDay ||
+    (profile.lastLogDate ? toLogDay(profile.lastLogDate, timeZone) : null);
+  
+  // Already counted, or a day older than the latest one
+  if (lastLogDay && lastLogDay >= logDay) {
+    return { profile, closedDay: null };
+  }
+  
+  const nextDay = lastLogDay !== null ? addLogDays(lastLogDay, 1) : null;
+  const isFrozen = nextDay !== null &&
+    addLogDays(nextDay, 1) === logDay &&
+    profile.streakDays > 0 &&
+    profile.streakFreezes > 0;
+  const continues = nextDay === logDay || isFrozen;
+  const streakDays = continues ? profile.streakDays + 1 : 1;
+  
+  const days: StreakHistoryEntry[] = isFrozen && nextDay
+    ? [{ logDay: nextDay, status: 'frozen' }, { logDay, status: 'logged' }]
+    : [{ logDay, status: 'logged' }];
+  
+  const updated: GamificationProfile = {
+    ...profile,
+    streakDays,
+    longestStreak: Math.max(profile.longestStreak, streakDays),
+    lastLogDate: loggedAt,
+    lastLogDay: logDay,
+    streakFreezes: isFrozen ? profile.streakFreezes - 1 : profile.streakFreezes,
+    streakHistory: [...profile.streakHistory, ...days].slice(-STREAK_HISTORY_LENGTH)
+  };
+  
+  return {
+    profile: continues ? addPoints(updated, getStreakPoints(streakDays)) : updated,
+    closedDay: lastLogDay
+  };
+}
+
+/**
+ * Days in the current streak that were covered by a streak freeze
+ */
+export function getFrozenDaysInStreak(profile: GamificationProfile): LogDay[] {
+  const frozen: LogDay[] = [];
+  
+  // Walk back from the latest day while the days are consecutive
+  for (let index = profile.streakHistory.length - 1; index >= 0; index--) {
+    const entry = profile.streakHistory[index];
+    const next = profile.streakHistory[index + 1];
+    
+    if (next && addLogDays(entry.logDay, 1) !== next.logDay) {
+      break;
+    }
+    
+    if (entry.status === 'frozen') {
+      frozen.push(entry.logDay);
+    }
+  }
+  
+  return frozen.reverse();
+}
+
+/**
+ * Apply a day to every active challenge, moving finished ones to completed
+ * and awarding their points
+ */
+export function applyChallengeDayToProfile(
+  profile: GamificationProfile,
+  day: ChallengeDay,
+  isDayOver = false
+): { profile: GamificationProfile; completed: Challenge[] } {
+  const evaluated = profile.activeChallenges.map(challenge => {
+    const definition = getChallengeDefinition(challenge.id);
+    return definition ? applyChallengeDay(challenge, definition, day, isDayOver) : challenge;
+  });
+  
+  if (evaluated.every((challenge, index) => challenge === profile.activeChallenges[index])) {
+    return { profile, completed: [] };
+  }
+  
+  const completed = evaluated.filter(challenge => challenge.isCompleted);
+  const points = completed.reduce((sum, challenge) => sum + challenge.points, 0);
+  
+  return {
+    profile: addPoints({
+      ...profile,
+      activeChallenges: evaluated.filter(challenge => !challenge.isCompleted),
+      completedChallenges: [...profile.completedChallenges, ...completed]
+    }, points),
+    completed
+  };
+}
+
+/**
+ * Move challenges that ran out of time to the failed list
+ */
+export function expireChallenges(profile: GamificationProfile, now: Date = new Date()): GamificationProfile {
+  const expired = profile.activeChallenges.filter(challenge => isChallengeExpired(challenge, now));
+  
+  if (expired.length === 0) {
+    return profile;
+  }
+  
+  return {
+    ...profile,
+    activeChallenges: profile.activeChallenges.filter(challenge => !isChallengeExpired(challenge, now)),
+    failedChallenges: [
+      ...profile.failedChallenges,
+      ...expired.map(challenge => ({ ...challenge, failedAt: now }))
+    ]
+  };
+}
+
+export function joinChallenge(
+  profile: GamificationProfile,
+  challengeId: string,
+  now: Date,
+  timeZone: string
+): GamificationProfile {
+  const definition = getChallengeDefinition(challengeId);
+  
+  if (!definition) {
+    throw new Error('Challenge not found');
+  }
+  
+  if (
+    profile.activeChallenges.some(challenge => challenge.id === challengeId) ||
+    profile.completedChallenges.some(challenge => challenge.id === challengeId)
+  ) {
+    throw new Error('Challenge already joined');
+  }
+  
+  const challenge: Challenge = {
+    ...createChallenge(definition, now, timeZone),
+    currentProgress: 0,
+    countedDays: [],
+    isCompleted: false
+  };
+  
+  return {
+    ...profile,
+    activeChallenges: [...profile.activeChallenges, challenge]
+  };
+}
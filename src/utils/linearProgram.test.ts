@@ -0,0 +1,62 @@
+import { solveIntegerProgram, solveLinearProgram } from './linearProgram';
+
+describe('solveLinearProgram', () => {
+  it('finds the optimum of a bounded program', () => {
+    // Maximize 3x + 2y with x + y <= 4 and x + 3y <= 6
+    const solution = solveLinearProgram({
+      objective: [-3, -2],
+      constraints: [
+        { coefficients: [1, 1], type: '<=', rhs: 4 },
+        { coefficients: [1, 3], type: '<=', rhs: 6 }
+      ]
+    });
+    
+    expect(solution?.values[0]).toBeCloseTo(4);
+    expect(solution?.values[1]).toBeCloseTo(0);
+    expect(solution?.objective).toBeCloseTo(-12);
+  });
+  
+  it('handles equality and greater-than constraints', () => {
+    const solution = solveLinearProgram({
+      objective: [1, 1],
+      constraints: [
+        { coefficients: [1, 2], type: '=', rhs: 6 },
+        { coefficients: [1, 0], type: '>=', rhs: 2 }
+      ]
+    });
+    
+    expect(solution?.values[0]).toBeCloseTo(2);
+    expect(solution?.values[1]).toBeCloseTo(2);
+  });
+  
+  it('reports infeasible and unbounded programs', () => {
+    expect(solveLinearProgram({
+      objective: [1],
+      constraints: [
+        { coefficients: [1], type: '<=', rhs: 1 },
+        { coefficients: [1], type: '>=', rhs: 2 }
+      ]
+    })).toBeNull();
+    
+    expect(solveLinearProgram({
+      objective: [-1],
+      constraints: [{ coefficients: [1], type: '>=', rhs: 1 }]
+    })).toBeNull();
+  });
+});
+
+describe('solveIntegerProgram', () => {
+  it('finds whole number solutions', () => {
+    // Maximize 5x + 4y with 6x + 4y <= 24 and x + 2y <= 6
+    const solution = solveIntegerProgram({
+      objective: [-5, -4],
+      constraints: [
+        { coefficients: [6, 4], type: '<=', rhs: 24 },
+        { coefficients: [1, 2], type: '<=', rhs: 6 }
+      ]
+    }, [0, 1]);
+    
+    expect(solution?.values).toEqual([4, 0]);
+    expect(solution?.objective).toBeCloseTo(-20);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * A small dense simplex solver with branch and bound for integer variables.
+ * It's meant for the handful of variables in a day's meal plan, not for
+ * large problems: every variable is non-negative and the objective is
+ * minimized.
+ */
+
+export type ConstraintType = '<=' | '>=' | '=';
+
+export interface LinearConstraint {
+  coefficients: number[];
+  type: ConstraintType;
+  rhs: number;
+}
+
+export interface LinearProgram {
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export interface LinearSolution {
+  values: number[];
+  objective: number;
+}
+
+const EPSILON = 1e-9;
+const FEASIBILITY_TOLERANCE = 1e-7;
+const INTEGER_TOLERANCE = 1e-6;
+const MAX_ITERATIONS = 5000;
+
+/**
+ * Solve a linear program with the two-phase simplex method. Returns null
+ * when the program is infeasible or unbounded.
+ */
+export function solveLinearProgram(program: LinearProgram): LinearSolution | null {
+  const variableCount = program.objective.length;
+  
+  // The simplex method needs non-negative right hand sides
+  const rows = program.constraints.map(constraint => (constraint.rhs < 0
+    ? {
+        coefficients: constraint.coefficients.map(value => -value),
+        type: flipConstraintType(constraint.type),
+        rhs: -constraint.rhs
+      }
+    : constraint
+  ));
+  
+  const slackCount = rows.filter(row => row.type !== '=').length;
+  const artificialCount = rows.filter(row => row.type !== '<=').length;
+  const width = variableCount + slackCount + artificialCount;
+  const isArtificial = (column: number) => column >= variableCount + slackCount;
+  
+  // Each row starts with a slack or artificial variable in the basis
+  const tableau: number[][] = [];
+  const basis: number[] = [];
+  let nextSlack = variableCount;
+  let nextArtificial = variableCount + slackCount;
+  
+  rows.forEach(row => {
+    const line = new Array(width + 1).fill(0);
+    row.coefficients.forEach((value, column) => {
+      line[column] = value;
+    });
+    line[width] = row.rhs;
+    
+    if (row.type === '<=') {
+      line[nextSlack] = 1;
+      basis.push(nextSlack++);
+    } else {
+      if (row.type === '>=') {
+        line[nextSlack++] = -1;
+      }
+      line[nextArtificial] = 1;
+      basis.push(nextArtificial++);
+    }
+    
+    tableau.push(line);
+  });
+  
+  // Phase 1: find a feasible basis by driving the artificial variables to zero
+  if (artificialCount > 0) {
+    const phaseOneCosts = Array.from({ length: width }, (_, column) => (isArtificial(column) ? 1 : 0));
+    runSimplex(tableau, basis, phaseOneCosts, () => true);
+    
+    const infeasibility = basis.reduce(
+      (sum, column, row) => sum + (isArtificial(column) ? tableau[row][width] : 0),
+      0
+    );
+    
+    if (infeasibility > FEASIBILITY_TOLERANCE) {
+      return null;
+    }
+    
+    // Artificial variables left in the basis are zero; swap them out where possible
+    basis.forEach((column, row) => {
+      if (!isArtificial(column)) return;
+      
+      const replacement = tableau[row].findIndex(
+        (value, candidate) => !isArtificial(candidate) && candidate < width && Math.abs(value) > EPSILON
+      );
+      
+      if (replacement !== -1) {
+        pivot(tableau, basis, row, replacement);
+      }
+    });
+  }
+  
+  // Phase 2: optimize the real objective without letting artificials back in
+  const costs = Array.from({ length: width }, (_, column) => (column < variableCount ? program.objective[column] : 0));
+  
+  if (!runSimplex(tableau, basis, costs, column => !isArtificial(column))) {
+    return null;
+  }
+  
+  const values = new Array(variableCount).fill(0);
+  basis.forEach((column, row) => {
+    if (column < variableCount) {
+      values[column] = tableau[row][width];
+    }
+  });
+  
+  return {
+    values,
+    objective: values.reduce((sum, value, column) => sum + value * program.objective[column], 0)
+  };
+}
+
+/**
+ * Solve a linear program where some variables must be whole numbers, by
+ * branch and bound over the simplex solution. The search stops after
+ * maxNodes subproblems and returns the best whole solution found so far.
+ */
+export function solveIntegerProgram(
+  program: LinearProgram,
+  integerVariables: number[],
+  maxNodes = 500
+): LinearSolution | null {
+  let best: LinearSolution | null = null;
+  const pending: LinearConstraint[][] = [[]];
+  
+  for (let nodes = 0; nodes < maxNodes && pending.length > 0; nodes++) {
+    const branchConstraints = pending.pop() as LinearConstraint[];
+    const relaxed = solveLinearProgram({
+      ...program,
+      constraints: [...program.constraints, ...branchConstraints]
+    });
+    
+    // Nothing down this branch can beat the best solution so far
+    if (!relaxed || (best && relaxed.objective >= best.objective - EPSILON)) {
+      continue;
+    }
+    
+    const branchOn = findMostFractional(relaxed.values, integerVariables);
+    
+    if (branchOn === -1) {
+      best = {
+        values: relaxed.values.map((value, column) => (integerVariables.includes(column) ? Math.round(value) || 0 : value)),
+        objective: relaxed.objective
+      };
+      continue;
+    }
+    
+    const unit = program.objective.map((_, column) => (column === branchOn ? 1 : 0));
+    const value = relaxed.values[branchOn];
+    
+    // Depth first, rounding down first, finds a whole solution quickly
+    pending.push([...branchConstraints, { coefficients: unit, type: '>=', rhs: Math.ceil(value) }]);
+    pending.push([...branchConstraints, { coefficients: unit, type: '<=', rhs: Math.floor(value) }]);
+  }
+  
+  return best;
+}
+
+// Run simplex iterations until no variable improves the objective. Returns
+// false when the objective is unbounded.
+function runSimplex(
+  tableau: number[][],
+  basis: number[],
+  costs: number[],
+  canEnter: (column: number) => boolean
+): boolean {
+  const width = costs.length;
+  
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Reduced costs of every column for the current basis
+    const reducedCosts = [...costs];
+    
+    for (let row = 0; row < tableau.length; row++) {
+      const basicCost = costs[basis[row]];
+      
+      if (basicCost === 0) continue;
+      
+      for (let column = 0; column < width; column++) {
+        reducedCosts[column] -= basicCost * tableau[row][column];
+      }
+    }
+    
+    // Bland's rule (lowest index) keeps the method from cycling
+    let entering = -1;
+    
+    for (let column = 0; column < width; column++) {
+      if (canEnter(column) && !basis.includes(column) && reducedCosts[column] < -EPSILON) {
+        entering = column;
+        break;
+      }
+    }
+    
+    if (entering === -1) {
+      return true;
+    }
+    
+    let leaving = -1;
+    let bestRatio = Infinity;
+    
+    for (let row = 0; row < tableau.length; row++) {
+      const coefficient = tableau[row][entering];
+      
+      if (coefficient <= EPSILON) continue;
+      
+      const ratio = tableau[row][width] / coefficient;
+      
+      if (ratio < bestRatio - EPSILON || (ratio <= bestRatio + EPSILON && basis[row] < basis[leaving])) {
+        bestRatio = ratio;
+        leaving = row;
+      }
+    }
+    
+    if (leaving === -1) {
+      return false;
+    }
+    
+    pivot(tableau, basis, leaving, entering);
+  }
+  
+  throw new Error('The linear program did not converge');
+}
+
+function pivot(tableau: number[][], basis: number[], pivotRow: number, pivotColumn: number) {
+  const row = tableau[pivotRow];
+  const pivotValue = row[pivotColumn];
+  
+  for (let column = 0; column < row.length; column++) {
+    row[column] /= pivotValue;
+  }
+  
+  tableau.forEach((other, index) => {
+    const factor = other[pivotColumn];
+    
+    if (index === pivotRow || Math.abs(factor) < EPSILON) return;
+    
+    for (let column = 0; column < other.length; column++) {
+      other[column] -= factor * row[column];
+    }
+  });
+  
+  basis[pivotRow] = pivotColumn;
+}
+
+function findMostFractional(values: number[], integerVariables: number[]): number {
+  let branchOn = -1;
+  let largestFraction = INTEGER_TOLERANCE;
+  
+  integerVariables.forEach(column => {
+    const fraction = Math.abs(values[column] - Math.round(values[column]));
+    
+    if (fraction > largestFraction) {
+      largestFraction = fraction;
+      branchOn = column;
+    }
+  });
+  
+  return branchOn;
+}
+
+function flipConstraintType(type: ConstraintType): ConstraintType {
+  if (type === '<=') return '>=';
+  if (type === '>=') return '<=';
+  return type;
+}
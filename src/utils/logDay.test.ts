@@ -0,0 +1,49 @@
+import {
+  addLogDays,
+  getZonedHour,
+  msUntilNextLogDay,
+  startOfLogDay,
+  toLogDay
+} from './logDay';
+
+describe('toLogDay', () => {
+  it('uses the calendar day in the given zone', () => {
+    const instant = new Date('2026-03-10T02:30:00Z');
+    
+    expect(toLogDay(instant, 'UTC')).toBe('2026-03-10');
+    expect(toLogDay(instant, 'America/New_York')).toBe('2026-03-09');
+    expect(toLogDay(instant, 'Asia/Tokyo')).toBe('2026-03-10');
+  });
+});
+
+describe('addLogDays', () => {
+  it('moves across month and year ends', () => {
+    expect(addLogDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addLogDays('2026-01-01', -1)).toBe('2025-12-31');
+  });
+});
+
+describe('startOfLogDay', () => {
+  it('finds midnight in the zone', () => {
+    expect(startOfLogDay('2026-07-01', 'Europe/London').toISOString()).toBe('2026-06-30T23:00:00.000Z');
+    expect(startOfLogDay('2026-01-01', 'Europe/London').toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(startOfLogDay('2026-01-01', 'America/Los_Angeles').toISOString()).toBe('2026-01-01T08:00:00.000Z');
+  });
+  
+  it('handles days when the clocks change', () => {
+    // US clocks go forward on 8 March 2026, so the next day is 23 hours away
+    const start = startOfLogDay('2026-03-08', 'America/New_York');
+    
+    expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(msUntilNextLogDay('America/New_York', start)).toBe(23 * 60 * 60 * 1000);
+  });
+});
+
+describe('getZonedHour', () => {
+  it('uses the wall clock in the zone', () => {
+    const instant = new Date('2026-03-10T07:15:00Z');
+    
+    expect(getZonedHour(instant, 'UTC')).toBe(7);
+    expect(getZonedHour(instant, 'Asia/Kolkata')).toBe(12);
+  });
+});
@@ -0,0 +1,194 @@
+import { format } from 'date-fns';
+
+/**
+ * Log days. Every meal belongs to a calendar day in the user's time zone,
+ * stored as a `yyyy-MM-dd` key, so days don't split or merge when the user
+ * travels or the clocks change. Day keys compare and sort as strings.
+ */
+
+export type LogDay = string;
+
+const LOG_DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Formatting parts in a zone is slow to set up, so formatters are reused
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  
+  return formatter;
+}
+
+// Wall clock time in a zone
+function getZonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+  
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+/**
+ * The device's time zone, used until the user picks one
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The user's time zone, falling back to the device's
+ */
+export function getUserTimeZone(profile: { timeZone?: string } | null | undefined): string {
+  return profile?.timeZone && isValidTimeZone(profile.timeZone) ? profile.timeZone : getDeviceTimeZone();
+}
+
+/**
+ * Time zones to choose from, with the given ones first when available
+ */
+export function getTimeZones(...preferred: string[]): string[] {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : ['UTC'];
+  
+  return Array.from(new Set([...preferred.filter(Boolean), ...zones]));
+}
+
+/**
+ * The log day an instant falls on in a time zone
+ */
+export function toLogDay(date: Date, timeZone: string): LogDay {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * The log day for a calendar date picked in the app (local midnight of that date)
+ */
+export function toDayKey(date: Date): LogDay {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * A log day as a local calendar date, for date pickers and display
+ */
+export function logDayToDate(logDay: LogDay): Date {
+  const [year, month, day] = parseLogDay(logDay);
+  
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * The user's current day as a local calendar date
+ */
+export function getToday(timeZone: string, now: Date = new Date()): Date {
+  return logDayToDate(toLogDay(now, timeZone));
+}
+
+export function addLogDays(logDay: LogDay, days: number): LogDay {
+  const [year, month, day] = parseLogDay(logDay);
+  const shifted = new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY);
+  
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+/**
+ * The instant a log day starts in a time zone
+ */
+export function startOfLogDay(logDay: LogDay, timeZone: string): Date {
+  const [year, month, day] = parseLogDay(logDay);
+  const wallClock = Date.UTC(year, month - 1, day);
+  
+  // Correct by the zone's offset, then again in case the first guess landed
+  // on the other side of a DST change
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone);
+  
+  return new Date(instant);
+}
+
+/**
+ * Milliseconds until the next log day starts in a time zone
+ */
+export function msUntilNextLogDay(timeZone: string, now: Date = new Date()): number {
+  const tomorrow = addLogDays(toLogDay(now, timeZone), 1);
+  
+  return startOfLogDay(tomorrow, timeZone).getTime() - now.getTime();
+}
+
+/**
+ * The hour of the day (0-23) an instant falls on in a time zone
+ */
+export function getZonedHour(date: Date, timeZone: string): number {
+  return getZonedParts(date, timeZone).hour;
+}
+
+/**
+ * The wall clock time ('HH:mm') of an instant in a time zone
+ */
+export function getZonedTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+export function isLogDay(value: unknown): value is LogDay {
+  return typeof value === 'string' && LOG_DAY_PATTERN.test(value);
+}
+
+// Offset of a zone from UTC at an instant, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function parseLogDay(logDay: LogDay): [number, number, number] {
+  const match = LOG_DAY_PATTERN.exec(logDay);
+  
+  if (!match) {
+    throw new Error(`Invalid log day: ${logDay}`);
+  }
+  
+  return [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
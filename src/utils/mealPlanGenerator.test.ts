@@ -0,0 +1,37 @@
+import { PlanCandidate, generateMealPlan } from './mealPlanGenerator';
+
+const chicken: PlanCandidate = { id: 'chicken', name: 'Chicken breast', calories: 165, protein: 31, carbs: 0, fat: 3.6 };
+const rice: PlanCandidate = { id: 'rice', name: 'Rice', calories: 205, protein: 4.3, carbs: 45, fat: 0.4 };
+const oil: PlanCandidate = { id: 'oil', name: 'Olive oil', calories: 119, protein: 0, carbs: 0, fat: 13.5 };
+const oats: PlanCandidate = { id: 'oats', name: 'Oats', calories: 150, protein: 5, carbs: 27, fat: 2.5 };
+
+const targets = { calorieTarget: 1600, proteinTarget: 130, carbTarget: 160, fatTarget: 45 };
+
+describe('generateMealPlan', () => {
+  it('lands within the tolerance of every target', () => {
+    const plan = generateMealPlan([chicken, rice, oil, oats], { targets, maxServings: 4 });
+    
+    expect(plan?.withinTolerance).toBe(true);
+    expect(Math.abs((plan?.totals.protein || 0) - 130) / 130).toBeLessThanOrEqual(0.1);
+  });
+  
+  it('uses whole steps and respects the serving limit', () => {
+    const plan = generateMealPlan([chicken, rice, oil, oats], { targets, maxServings: 2 });
+    
+    plan?.entries.forEach(entry => {
+      expect(entry.servings).toBeLessThanOrEqual(2);
+      expect(entry.servings * 2).toBe(Math.round(entry.servings * 2));
+    });
+  });
+  
+  it('leaves out excluded foods', () => {
+    const plan = generateMealPlan([chicken, rice, oil, oats], { targets, excludedIds: ['chicken'] });
+    
+    expect(plan?.entries.some(entry => entry.candidate.id === 'chicken')).toBe(false);
+    expect(plan?.withinTolerance).toBe(false);
+  });
+  
+  it('needs something to plan with', () => {
+    expect(generateMealPlan([chicken], { targets, excludedIds: ['chicken'] })).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { LinearConstraint, solveIntegerProgram, solveLinearProgram } from './linearProgram';
+import { NutritionTargets } from './nutritionTargets';
+
+/**
+ * A food or recipe the generator may use, with nutrition for one serving
+ */
+export interface PlanCandidate {
+  id: string;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  maxServings?: number; // overrides the plan-wide limit for this food
+}
+
+export interface PlanOptions {
+  targets: NutritionTargets;
+  tolerance?: number; // allowed distance from each target, as a fraction
+  maxServings?: number; // most servings of any one food
+  servingStep?: number; // servings are multiples of this
+  excludedIds?: string[];
+}
+
+export interface PlanEntry<T extends PlanCandidate> {
+  candidate: T;
+  servings: number;
+}
+
+export interface GeneratedPlan<T extends PlanCandidate> {
+  entries: PlanEntry<T>[];
+  totals: { calories: number; protein: number; carbs: number; fat: number };
+  withinTolerance: boolean;
+}
+
+export const DEFAULT_PLAN_TOLERANCE = 0.1;
+export const DEFAULT_MAX_SERVINGS = 3;
+export const DEFAULT_SERVING_STEP = 0.5;
+
+const NUTRIENTS = [
+  { key: 'calories', target: 'calorieTarget' },
+  { key: 'protein', target: 'proteinTarget' },
+  { key: 'carbs', target: 'carbTarget' },
+  { key: 'fat', target: 'fatTarget' }
+] as const;
+
+// Small cost per serving so foods aren't added when they don't help
+const SERVING_PENALTY = 1e-4;
+
+/**
+ * Pick servings of the candidates that land as close as possible to the
+ * targets. Each nutrient's distance from its target is measured as a
+ * share of the target, so calories and grams count alike.
+ *
+ * Returns null when there is nothing to plan with.
+ */
+export function generateMealPlan<T extends PlanCandidate>(candidates: T[], options: PlanOptions): GeneratedPlan<T> | null {
+  const {
+    targets,
+    tolerance = DEFAULT_PLAN_TOLERANCE,
+    maxServings = DEFAULT_MAX_SERVINGS,
+    servingStep = DEFAULT_SERVING_STEP,
+    excludedIds = []
+  } = options;
+  
+  const foods = candidates.filter(candidate => !excludedIds.includes(candidate.id));
+  
+  if (foods.length === 0) {
+    return null;
+  }
+  
+  // Variables: steps of each food, then an over and under amount per nutrient
+  const foodCount = foods.length;
+  const variableCount = foodCount + NUTRIENTS.length * 2;
+  const objective = new Array(variableCount).fill(0);
+  const constraints: LinearConstraint[] = [];
+  
+  foods.forEach((food, index) => {
+    objective[index] = SERVING_PENALTY;
+    
+    const coefficients = new Array(variableCount).fill(0);
+    coefficients[index] = 1;
+    constraints.push({
+      coefficients,
+      type: '<=',
+      rhs: Math.floor((food.maxServings ?? maxServings) / servingStep)
+    });
+  });
+  
+  NUTRIENTS.forEach(({ key, target }, index) => {
+    const over = foodCount + index * 2;
+    const under = over + 1;
+    const coefficients = new Array(variableCount).fill(0);
+    
+    foods.forEach((food, foodIndex) => {
+      coefficients[foodIndex] = food[key] * servingStep;
+    });
+    coefficients[over] = -1;
+    coefficients[under] = 1;
+    
+    constraints.push({ coefficients, type: '=', rhs: targets[target] });
+    
+    const weight = 1 / Math.max(targets[target], 1);
+    objective[over] = weight;
+    objective[under] = weight;
+  });
+  
+  const foodVariables = foods.map((_, index) => index);
+  const program = { objective, constraints };
+  
+  // Fall back to rounding down the continuous solution if branch and bound
+  // runs out of nodes before finding whole servings
+  const solution = solveIntegerProgram(program, foodVariables) || roundDown(solveLinearProgram(program), foodCount);
+  
+  if (!solution) {
+    return null;
+  }
+  
+  const entries = foods
+    .map((candidate, index) => ({ candidate, servings: solution.values[index] * servingStep }))
+    .filter(entry => entry.servings > 0);
+  
+  const totals = sumEntries(entries);
+  
+  const withinTolerance = NUTRIENTS.every(({ key, target }) =>
+    targets[target] <= 0 || Math.abs(totals[key] - targets[target]) / targets[target] <= tolerance
+  );
+  
+  return { entries, totals, withinTolerance };
+}
+
+function roundDown(solution: { values: number[]; objective: number } | null, foodCount: number) {
+  if (!solution) return null;
+  
+  return {
+    ...solution,
+    values: solution.values.map((value, index) => (index < foodCount ? Math.floor(value + 1e-6) : value))
+  };
+}
+
+function sumEntries<T extends PlanCandidate>(entries: PlanEntry<T>[]) {
+  const totals = entries.reduce((sum, { candidate, servings }) => ({
+    calories: sum.calories + candidate.calories * servings,
+    protein: sum.protein + candidate.protein * servings,
+    carbs: sum.carbs + candidate.carbs * servings,
+    fat: sum.fat + candidate.fat * servings
+  }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
+  
+  return {
+    calories: Math.round(totals.calories),
+    protein: Math.round(totals.protein * 10) / 10,
+    carbs: Math.round(totals.carbs * 10) / 10,
+    fat: Math.round(totals.fat * 10) / 10
+  };
+}
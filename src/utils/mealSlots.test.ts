@@ -0,0 +1,67 @@
+import {
+  DEFAULT_MEAL_SLOTS,
+  MealSlot,
+  createMealSlotId,
+  getMealSlotAt,
+  getMealSlots,
+  sortMealsBySlot,
+  validateMealSlots
+} from './mealSlots';
+
+const fastingSlots: MealSlot[] = [
+  { id: 'dinner', name: 'Dinner', order: 2, startTime: '18:00', endTime: '20:00' },
+  { id: 'break-fast', name: 'Break fast', order: 1, startTime: '12:00', endTime: '14:00' },
+  { id: 'late-snack', name: 'Late snack', order: 3, startTime: '22:00', endTime: '02:00' }
+];
+
+describe('getMealSlots', () => {
+  it('falls back to the default meals', () => {
+    expect(getMealSlots(null)).toEqual(DEFAULT_MEAL_SLOTS);
+    expect(getMealSlots({ mealSlots: [] })).toEqual(DEFAULT_MEAL_SLOTS);
+  });
+  
+  it('orders the user\'s slots', () => {
+    expect(getMealSlots({ mealSlots: fastingSlots }).map(slot => slot.id))
+      .toEqual(['break-fast', 'dinner', 'late-snack']);
+  });
+});
+
+describe('sortMealsBySlot', () => {
+  it('puts meals from removed slots last', () => {
+    const meals = [{ mealType: 'snacks' }, { mealType: 'dinner' }, { mealType: 'break-fast' }];
+    
+    expect(sortMealsBySlot(meals, getMealSlots({ mealSlots: fastingSlots })).map(meal => meal.mealType))
+      .toEqual(['break-fast', 'dinner', 'snacks']);
+  });
+});
+
+describe('getMealSlotAt', () => {
+  it('finds the slot for a time of day', () => {
+    expect(getMealSlotAt(fastingSlots, '12:30')?.id).toBe('break-fast');
+    expect(getMealSlotAt(fastingSlots, '20:00')).toBeNull();
+  });
+  
+  it('handles windows past midnight', () => {
+    expect(getMealSlotAt(fastingSlots, '23:15')?.id).toBe('late-snack');
+    expect(getMealSlotAt(fastingSlots, '01:59')?.id).toBe('late-snack');
+  });
+});
+
+describe('createMealSlotId', () => {
+  it('makes unique ids from names', () => {
+    expect(createMealSlotId('Pre-workout Shake!', DEFAULT_MEAL_SLOTS)).toBe('pre-workout-shake');
+    expect(createMealSlotId('Lunch', DEFAULT_MEAL_SLOTS)).toBe('lunch-2');
+  });
+});
+
+describe('validateMealSlots', () => {
+  it('accepts valid slots', () => {
+    expect(validateMealSlots(fastingSlots)).toBeNull();
+  });
+  
+  it('rejects empty, duplicate and half-timed slots', () => {
+    expect(validateMealSlots([])).not.toBeNull();
+    expect(validateMealSlots([...DEFAULT_MEAL_SLOTS, { id: 'lunch-2', name: 'lunch', order: 5 }])).not.toBeNull();
+    expect(validateMealSlots([{ id: 'meal', name: 'Meal', order: 1, startTime: '08:00' }])).not.toBeNull();
+  });
+});
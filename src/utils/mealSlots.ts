@@ -0,0 +1,114 @@
+/**
+ * Meal slots: the meals a user's day is split into. Each meal stores the id
+ * of its slot as its mealType, so renaming a slot keeps its meals.
+ */
+
+export interface MealSlot {
+  id: string;
+  name: string;
+  order: number;
+  startTime?: string; // 'HH:mm', when the slot is usually eaten
+  endTime?: string;
+}
+
+export const MAX_MEAL_SLOTS = 8;
+
+export const DEFAULT_MEAL_SLOTS: MealSlot[] = [
+  { id: 'breakfast', name: 'Breakfast', order: 1 },
+  { id: 'lunch', name: 'Lunch', order: 2 },
+  { id: 'dinner', name: 'Dinner', order: 3 },
+  { id: 'snacks', name: 'Snacks', order: 4 }
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * The user's meal slots in order, falling back to the defaults
+ */
+export function getMealSlots(profile: { mealSlots?: MealSlot[] } | null | undefined): MealSlot[] {
+  const slots = profile?.mealSlots?.length ? profile.mealSlots : DEFAULT_MEAL_SLOTS;
+  
+  return [...slots].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Display name for a meal type. Meals from a removed slot keep their type.
+ */
+export function getMealSlotName(slots: MealSlot[], mealType: string): string {
+  const slot = slots.find(slot => slot.id === mealType);
+  
+  return slot ? slot.name : mealType.charAt(0).toUpperCase() + mealType.slice(1);
+}
+
+/**
+ * Order meals by their slot, with meals from removed slots last
+ */
+export function sortMealsBySlot<T extends { mealType: string }>(meals: T[], slots: MealSlot[]): T[] {
+  const position = (meal: T) => {
+    const index = slots.findIndex(slot => slot.id === meal.mealType);
+    return index === -1 ? slots.length : index;
+  };
+  
+  return [...meals].sort((a, b) => position(a) - position(b));
+}
+
+/**
+ * The slot whose time window includes a time of day ('HH:mm'), if any.
+ * Windows may run past midnight, e.g. 22:00 to 02:00.
+ */
+export function getMealSlotAt(slots: MealSlot[], time: string): MealSlot | null {
+  return slots.find(slot => {
+    if (!slot.startTime || !slot.endTime) return false;
+    
+    return slot.startTime <= slot.endTime
+      ? time >= slot.startTime && time < slot.endTime
+      : time >= slot.startTime || time < slot.endTime;
+  }) || null;
+}
+
+/**
+ * A stable id for a new slot, unique among the existing ones
+ */
+export function createMealSlotId(name: string, slots: MealSlot[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'meal';
+  const ids = new Set(slots.map(slot => slot.id));
+  let id = base;
+  
+  for (let suffix = 2; ids.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  
+  return id;
+}
+
+export function validateMealSlots(slots: MealSlot[]): string | null {
+  if (slots.length === 0) {
+    return 'Add at least one meal';
+  }
+  
+  if (slots.length > MAX_MEAL_SLOTS) {
+    return `You can have up to ${MAX_MEAL_SLOTS} meals`;
+  }
+  
+  if (slots.some(slot => !slot.name.trim())) {
+    return 'Every meal needs a name';
+  }
+  
+  const names = slots.map(slot => slot.name.trim().toLowerCase());
+  
+  if (new Set(names).size !== names.length) {
+    return 'Meal names must be different';
+  }
+  
+  for (const slot of slots) {
+    if (!slot.startTime !== !slot.endTime) {
+      return `Set both a start and end time for ${slot.name}, or neither`;
+    }
+    
+    if (slot.startTime && slot.endTime && (!TIME_PATTERN.test(slot.startTime) || !TIME_PATTERN.test(slot.endTime))) {
+      return `Times for ${slot.name} must be in HH:mm format`;
+    }
+  }
+  
+  return null;
+}
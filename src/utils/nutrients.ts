@@ -0,0 +1,162 @@
+/**
+ * Nutrients tracked beyond calories and the three macros.
+ * Adding an entry to NUTRIENTS is enough to make a nutrient editable on
+ * custom foods, shown in nutrition facts and rolled up into totals.
+ */
+
+export type NutrientKey =
+  | 'fiber'
+  | 'sugar'
+  | 'sodium'
+  | 'saturatedFat'
+  | 'transFat'
+  | 'cholesterol'
+  | 'potassium'
+  | 'calcium'
+  | 'iron'
+  | 'magnesium'
+  | 'zinc'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD'
+  | 'vitaminB12';
+
+export type NutrientUnit = 'g' | 'mg' | 'µg';
+
+export type NutrientMap = Partial<Record<NutrientKey, number>>;
+
+export interface NutrientDefinition {
+  key: NutrientKey;
+  label: string;
+  unit: NutrientUnit;
+  group: 'carbs' | 'fats' | 'minerals' | 'vitamins';
+  // Reference daily value (FDA, adults) used for % DV; omitted when there is none
+  dailyValue?: number;
+}
+
+export const NUTRIENTS: NutrientDefinition[] = [
+  { key: 'fiber', label: 'Fiber', unit: 'g', group: 'carbs', dailyValue: 28 },
+  { key: 'sugar', label: 'Sugar', unit: 'g', group: 'carbs' },
+  { key: 'saturatedFat', label: 'Saturated Fat', unit: 'g', group: 'fats', dailyValue: 20 },
+  { key: 'transFat', label: 'Trans Fat', unit: 'g', group: 'fats' },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', group: 'fats', dailyValue: 300 },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', group: 'minerals', dailyValue: 2300 },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', group: 'minerals', dailyValue: 4700 },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', group: 'minerals', dailyValue: 1300 },
+  { key: 'iron', label: 'Iron', unit: 'mg', group: 'minerals', dailyValue: 18 },
+  { key: 'magnesium', label: 'Magnesium', unit: 'mg', group: 'minerals', dailyValue: 420 },
+  { key: 'zinc', label: 'Zinc', unit: 'mg', group: 'minerals', dailyValue: 11 },
+  { key: 'vitaminA', label: 'Vitamin A', unit: 'µg', group: 'vitamins', dailyValue: 900 },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', group: 'vitamins', dailyValue: 90 },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'µg', group: 'vitamins', dailyValue: 20 },
+  { key: 'vitaminB12', label: 'Vitamin B12', unit: 'µg', group: 'vitamins', dailyValue: 2.4 }
+];
+
+// Nutrients that predate the map and still live in their own fields on foods
+export const LEGACY_NUTRIENT_KEYS: NutrientKey[] = ['fiber', 'sugar', 'sodium'];
+
+// Nutrients that are only stored in the map
+export const EXTRA_NUTRIENTS = NUTRIENTS.filter(nutrient => !LEGACY_NUTRIENT_KEYS.includes(nutrient.key));
+
+interface NutrientSource {
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+  nutrients?: NutrientMap;
+}
+
+/**
+ * Collect every nutrient on a food or food item into a single map,
+ * including the legacy fiber / sugar / sodium fields
+ */
+export function getNutrients(source: NutrientSource): NutrientMap {
+  const nutrients: NutrientMap = { ...source.nutrients };
+  
+  LEGACY_NUTRIENT_KEYS.forEach(key => {
+    const value = source[key as 'fiber' | 'sugar' | 'sodium'];
+    
+    if (value !== undefined) {
+      nutrients[key] = value;
+    }
+  });
+  
+  return nutrients;
+}
+
+/**
+ * Multiply every nutrient in the map, e.g. by a number of servings
+ */
+export function scaleNutrients(nutrients: NutrientMap | undefined, factor: number): NutrientMap {
+  const scaled: NutrientMap = {};
+  
+  Object.entries(nutrients || {}).forEach(([key, value]) => {
+    if (value !== undefined) {
+      scaled[key as NutrientKey] = roundNutrient(value * factor);
+    }
+  });
+  
+  return scaled;
+}
+
+/**
+ * Add several nutrient maps together. A nutrient missing from every map stays
+ * missing rather than becoming 0, so "unknown" is not shown as "none".
+ */
+export function sumNutrients(maps: (NutrientMap | undefined)[]): NutrientMap {
+  const totals: NutrientMap = {};
+  
+  maps.forEach(map => {
+    Object.entries(map || {}).forEach(([key, value]) => {
+      if (value !== undefined) {
+        const nutrientKey = key as NutrientKey;
+        totals[nutrientKey] = (totals[nutrientKey] || 0) + value;
+      }
+    });
+  });
+  
+  Object.keys(totals).forEach(key => {
+    const nutrientKey = key as NutrientKey;
+    totals[nutrientKey] = roundNutrient(totals[nutrientKey] as number);
+  });
+  
+  return totals;
+}
+
+/**
+ * Drop empty, zero and invalid values, e.g. before saving a form
+ */
+export function cleanNutrients(nutrients: NutrientMap): NutrientMap {
+  const cleaned: NutrientMap = {};
+  
+  Object.entries(nutrients).forEach(([key, value]) => {
+    if (value !== undefined && !isNaN(value) && value > 0) {
+      cleaned[key as NutrientKey] = value;
+    }
+  });
+  
+  return cleaned;
+}
+
+/**
+ * Convert a value reported in grams into the nutrient's display unit
+ */
+export function gramsToUnit(grams: number, unit: NutrientUnit): number {
+  const multiplier = unit === 'g' ? 1 : unit === 'mg' ? 1000 : 1000000;
+  return roundNutrient(grams * multiplier);
+}
+
+/**
+ * Percent of the daily value, or null when the nutrient has none
+ */
+export function getDailyValuePercent(key: NutrientKey, amount: number): number | null {
+  const definition = NUTRIENTS.find(nutrient => nutrient.key === key);
+  
+  if (!definition?.dailyValue) return null;
+  
+  return Math.round((amount / definition.dailyValue) * 100);
+}
+
+// Micrograms need more precision than 1 decimal place
+function roundNutrient(value: number): number {
+  return Math.round(value * 100) / 100;
+}
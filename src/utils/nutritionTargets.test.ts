@@ -0,0 +1,213 @@
+import {
+  DEFAULT_TARGETS,
+  DEFAULT_TARGET_SCHEDULE,
+  calculateBmr,
+  calculateMacroTargets,
+  calculateMaintenanceCalories,
+  calculateNutritionTargets,
+  getDayTargetsLabel,
+  getDayType,
+  getEffectiveTargets,
+  getTargetsForDay,
+  resolveBmrFormula,
+  setTargetOverride,
+  validateMacroSplit
+} from './nutritionTargets';
+
+const male = { age: 30, gender: 'male' as const, weight: 80, height: 180 };
+const female = { age: 30, gender: 'female' as const, weight: 60, height: 165 };
+
+describe('calculateBmr', () => {
+  it('uses Mifflin-St Jeor by default', () => {
+    expect(calculateBmr(male)).toBe(1780);
+    expect(calculateBmr(female)).toBeCloseTo(1320.25);
+  });
+  
+  it('supports the revised Harris-Benedict formula', () => {
+    expect(calculateBmr({ ...male, bmrFormula: 'harris' })).toBeCloseTo(1853.632, 3);
+    expect(calculateBmr({ ...female, bmrFormula: 'harris' })).toBeCloseTo(1383.683, 3);
+  });
+  
+  it('uses lean mass for Katch-McArdle', () => {
+    // 80 kg at 20% body fat is 64 kg lean mass
+    expect(calculateBmr({ ...male, bodyFat: 20, bmrFormula: 'katch' })).toBeCloseTo(1752.4);
+  });
+  
+  it('falls back to Mifflin-St Jeor when Katch-McArdle has no body fat', () => {
+    expect(resolveBmrFormula({ ...male, bmrFormula: 'katch' })).toBe('mifflin');
+    expect(calculateBmr({ ...male, bmrFormula: 'katch' })).toBe(1780);
+  });
+  
+  it('fills in missing stats with an average adult', () => {
+    expect(calculateBmr({})).toBe(calculateBmr({ age: 30, weight: 70, height: 170 }));
+  });
+});
+
+describe('calculateMaintenanceCalories', () => {
+  it('applies the activity multiplier', () => {
+    expect(calculateMaintenanceCalories({ ...male, activityLevel: 'moderate' })).toBe(2759);
+  });
+  
+  it('assumes light activity when none is set', () => {
+    expect(calculateMaintenanceCalories(male)).toBe(2448);
+  });
+});
+
+describe('calculateMacroTargets', () => {
+  it('splits calories by percentage', () => {
+    const split = { type: 'percent' as const, protein: 30, carbs: 40, fat: 30 };
+    
+    expect(calculateMacroTargets(2000, 80, split)).toEqual({
+      proteinTarget: 150,
+      carbTarget: 200,
+      fatTarget: 67
+    });
+  });
+  
+  it('fills the remaining calories with carbs for g/kg splits', () => {
+    const split = { type: 'perKg' as const, protein: 2, fat: 1 };
+    
+    // 640 kcal protein + 720 kcal fat leaves 640 kcal for carbs
+    expect(calculateMacroTargets(2000, 80, split)).toEqual({
+      proteinTarget: 160,
+      carbTarget: 160,
+      fatTarget: 80
+    });
+  });
+  
+  it('keeps carbs at the minimum', () => {
+    const split = { type: 'perKg' as const, protein: 2, fat: 1, minCarbs: 200 };
+    
+    expect(calculateMacroTargets(2000, 80, split).carbTarget).toBe(200);
+  });
+});
+
+describe('validateMacroSplit', () => {
+  it('requires percentages to add up to 100', () => {
+    expect(validateMacroSplit({ type: 'percent', protein: 30, carbs: 40, fat: 30 })).toBeNull();
+    expect(validateMacroSplit({ type: 'percent', protein: 30, carbs: 40, fat: 20 })).not.toBeNull();
+  });
+  
+  it('rejects negative values', () => {
+    expect(validateMacroSplit({ type: 'percent', protein: -10, carbs: 80, fat: 30 })).not.toBeNull();
+    expect(validateMacroSplit({ type: 'perKg', protein: 0, fat: 1 })).not.toBeNull();
+  });
+});
+
+describe('calculateNutritionTargets', () => {
+  it('applies the goal to maintenance calories', () => {
+    const maintenance = calculateMaintenanceCalories(male);
+    
+    expect(calculateNutritionTargets({ ...male, goal: 'maintain' }).calorieTarget).toBe(maintenance);
+    expect(calculateNutritionTargets({ ...male, goal: 'burn' }).calorieTarget).toBe(Math.round(maintenance * 0.8));
+    expect(calculateNutritionTargets({ ...male, goal: 'build' }).calorieTarget).toBe(Math.round(maintenance * 1.15));
+  });
+  
+  it('uses the goal split by default', () => {
+    expect(calculateNutritionTargets({ ...male, goal: 'build' })).toEqual({
+      calorieTarget: 2815,
+      proteinTarget: 144,
+      carbTarget: 360,
+      fatTarget: 64
+    });
+  });
+  
+  it('prefers a measured maintenance over the formula', () => {
+    expect(calculateNutritionTargets({ ...male, goal: 'maintain' }, 2600).calorieTarget).toBe(2600);
+  });
+  
+  it('uses a custom split when it is valid', () => {
+    const targets = calculateNutritionTargets(
+      { ...male, macroSplit: { type: 'percent', protein: 25, carbs: 50, fat: 25 } },
+      2000
+    );
+    
+    expect(targets).toEqual({ calorieTarget: 2000, proteinTarget: 125, carbTarget: 250, fatTarget: 56 });
+  });
+  
+  it('ignores an invalid custom split', () => {
+    const invalid = { type: 'percent' as const, protein: 50, carbs: 50, fat: 50 };
+    
+    expect(calculateNutritionTargets({ ...male, macroSplit: invalid })).toEqual(calculateNutritionTargets(male));
+  });
+});
+
+describe('getEffectiveTargets', () => {
+  it('returns the defaults without a profile', () => {
+    expect(getEffectiveTargets(null)).toEqual(DEFAULT_TARGETS);
+    expect(getEffectiveTargets({})).toEqual(DEFAULT_TARGETS);
+  });
+  
+  it('prefers targets saved on the profile', () => {
+    const profile = { ...male, calorieTarget: 1800, proteinTarget: 150, carbTarget: 150, fatTarget: 60 };
+    
+    expect(getEffectiveTargets(profile)).toEqual({
+      calorieTarget: 1800,
+      proteinTarget: 150,
+      carbTarget: 150,
+      fatTarget: 60
+    });
+  });
+  
+  it('calculates missing targets from body stats', () => {
+    const profile = { ...male, goal: 'maintain' as const, calorieTarget: 2500 };
+    const calculated = calculateNutritionTargets(profile);
+    
+    expect(getEffectiveTargets(profile)).toEqual({ ...calculated, calorieTarget: 2500 });
+  });
+  
+  it('uses the estimated maintenance when there is one', () => {
+    const profile = { ...male, goal: 'maintain' as const, estimatedMaintenance: 2600 };
+    
+    expect(getEffectiveTargets(profile).calorieTarget).toBe(2600);
+  });
+});
+
+describe('getTargetsForDay', () => {
+  const usual = { calorieTarget: 2000, proteinTarget: 150, carbTarget: 200, fatTarget: 70 };
+  const profile = { ...usual, targetSchedule: DEFAULT_TARGET_SCHEDULE };
+  
+  it('uses the usual targets without a schedule', () => {
+    expect(getTargetsForDay(usual, '2024-01-01')).toEqual(usual);
+    expect(getDayTargetsLabel(usual, '2024-01-01')).toBeNull();
+  });
+  
+  it('adjusts training and rest days', () => {
+    // 2024-01-01 is a Monday, 2024-01-02 a Tuesday
+    expect(getDayType(profile, '2024-01-01')).toBe('training');
+    expect(getTargetsForDay(profile, '2024-01-01')).toEqual({ ...usual, calorieTarget: 2300, carbTarget: 275 });
+    expect(getDayType(profile, '2024-01-02')).toBe('rest');
+    expect(getTargetsForDay(profile, '2024-01-02')).toEqual({ ...usual, calorieTarget: 1800, carbTarget: 150 });
+  });
+  
+  it('prefers an override for the day', () => {
+    const override = { calorieTarget: 3500, proteinTarget: 120, carbTarget: 500, fatTarget: 80 };
+    const withOverride = {
+      ...profile,
+      targetOverrides: setTargetOverride(undefined, '2024-01-02', override, '2024-01-01')
+    };
+    
+    expect(getTargetsForDay(withOverride, '2024-01-02')).toEqual(override);
+    expect(getDayTargetsLabel(withOverride, '2024-01-02')).toBe('Custom targets');
+    expect(getTargetsForDay(withOverride, '2024-01-01').calorieTarget).toBe(2300);
+  });
+});
+
+describe('setTargetOverride', () => {
+  const targets = { calorieTarget: 2500, proteinTarget: 150, carbTarget: 300, fatTarget: 70 };
+  
+  it('replaces and clears a day', () => {
+    const overrides = setTargetOverride(undefined, '2024-03-01', targets, '2024-03-01');
+    
+    expect(setTargetOverride(overrides, '2024-03-01', { ...targets, calorieTarget: 2000 }, '2024-03-01'))
+      .toEqual([{ ...targets, calorieTarget: 2000, logDay: '2024-03-01' }]);
+    expect(setTargetOverride(overrides, '2024-03-01', null, '2024-03-01')).toEqual([]);
+  });
+  
+  it('drops overrides for days long past', () => {
+    const overrides = [{ ...targets, logDay: '2023-01-01' }, { ...targets, logDay: '2024-02-01' }];
+    
+    expect(setTargetOverride(overrides, '2024-03-02', null, '2024-03-01').map(override => override.logDay))
+      .toEqual(['2024-02-01']);
+  });
+});
@@ -0,0 +1,398 @@
+import { LogDay, addLogDays, logDayToDate } from './logDay';
+
+/**
+ * Nutrition engine: BMR, maintenance calories (TDEE) and calorie / macro
+ * targets. Anything that needs a user's targets should go through
+ * getEffectiveTargets, or getTargetsForDay for a particular day, so the
+ * fallbacks are the same everywhere.
+ */
+
+export type Goal = 'maintain' | 'burn' | 'build';
+export type Gender = 'male' | 'female';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+export type BmrFormula = 'mifflin' | 'katch' | 'harris';
+
+// Either a share of calories per macro, or grams per kg of body weight
+export type MacroSplit =
+  | {
+      type: 'percent';
+      protein: number; // % of calories
+      carbs: number;
+      fat: number;
+    }
+  | {
+      type: 'perKg';
+      protein: number; // g/kg of body weight
+      fat: number;
+      // Fixed carbs in g/kg; when omitted carbs fill the remaining calories
+      carbs?: number;
+      // Minimum grams of carbs when they fill the remaining calories
+      minCarbs?: number;
+    };
+
+export interface TargetInputs {
+  age?: number;
+  gender?: Gender | '';
+  weight?: number; // kg
+  height?: number; // cm
+  bodyFat?: number; // %
+  activityLevel?: ActivityLevel | '';
+  goal?: Goal | '';
+  bmrFormula?: BmrFormula;
+  macroSplit?: MacroSplit | null; // null uses the goal's default split
+}
+
+export interface NutritionTargets {
+  calorieTarget: number;
+  proteinTarget: number;
+  carbTarget: number;
+  fatTarget: number;
+}
+
+export type DayType = 'training' | 'rest';
+
+// Change from the base targets on one type of day
+export interface TargetAdjustment {
+  calories: number; // kcal
+  protein: number; // g
+  carbs: number;
+  fat: number;
+}
+
+// Weekly cycle of training and rest days
+export interface TargetSchedule {
+  trainingDays: number[]; // days of the week, 0 = Sunday
+  training: TargetAdjustment;
+  rest: TargetAdjustment;
+}
+
+// Targets set by hand for a single day
+export interface TargetOverride extends NutritionTargets {
+  logDay: LogDay;
+}
+
+// Anything profile-shaped that may also carry saved targets
+export type TargetProfile = TargetInputs & Partial<NutritionTargets> & {
+  estimatedMaintenance?: number;
+  targetSchedule?: TargetSchedule | null;
+  targetOverrides?: TargetOverride[];
+};
+
+// Used when there is nothing to calculate from (e.g. before onboarding)
+export const DEFAULT_TARGETS: NutritionTargets = {
+  calorieTarget: 2000,
+  proteinTarget: 120,
+  carbTarget: 200,
+  fatTarget: 65
+};
+
+// Extra carbs to fuel training days, fewer on rest days
+export const DEFAULT_TARGET_SCHEDULE: TargetSchedule = {
+  trainingDays: [1, 3, 5],
+  training: { calories: 300, protein: 0, carbs: 75, fat: 0 },
+  rest: { calories: -200, protein: 0, carbs: -50, fat: 0 }
+};
+
+// How far intake may be from a target and still count as hitting it, for
+// achievements, challenges and the progress monitor alike
+export const TARGET_HIT_TOLERANCE = 0.05;
+
+// Past overrides are dropped this many days after their day
+const OVERRIDE_RETENTION_DAYS = 90;
+
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9
+};
+
+// 20% deficit to lose fat, 15% surplus to build muscle
+export const GOAL_CALORIE_FACTORS: Record<Goal, number> = {
+  burn: 0.8,
+  maintain: 1,
+  build: 1.15
+};
+
+export const KCAL_PER_GRAM = {
+  protein: 4,
+  carbs: 4,
+  fat: 9
+};
+
+// Stand-ins for body stats that haven't been entered
+const DEFAULT_AGE = 30;
+const DEFAULT_WEIGHT = 70; // kg
+const DEFAULT_HEIGHT = 170; // cm
+
+/**
+ * The formula that will actually be used. Katch-McArdle needs a body fat
+ * percentage and falls back to Mifflin-St Jeor without one.
+ */
+export function resolveBmrFormula(data: TargetInputs): BmrFormula {
+  const formula = data.bmrFormula || 'mifflin';
+  
+  if (formula === 'katch' && !isValidBodyFat(data.bodyFat)) {
+    return 'mifflin';
+  }
+  
+  return formula;
+}
+
+/**
+ * Basal metabolic rate in kcal/day
+ */
+export function calculateBmr(data: TargetInputs): number {
+  const age = data.age || DEFAULT_AGE;
+  const weight = data.weight || DEFAULT_WEIGHT;
+  const height = data.height || DEFAULT_HEIGHT;
+  const isMale = data.gender === 'male';
+  
+  switch (resolveBmrFormula(data)) {
+    case 'katch': {
+      // Only lean mass counts, so sex, age and height don't matter
+      const leanMass = weight * (1 - (data.bodyFat as number) / 100);
+      return 370 + 21.6 * leanMass;
+    }
+    case 'harris':
+      // Revised Harris-Benedict (Roza & Shizgal)
+      return isMale
+        ? 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age
+        : 447.593 + 9.247 * weight + 3.098 * height - 4.33 * age;
+    default:
+      // Mifflin-St Jeor
+      return isMale
+        ? 10 * weight + 6.25 * height - 5 * age + 5
+        : 10 * weight + 6.25 * height - 5 * age - 161;
+  }
+}
+
+/**
+ * Estimate maintenance calories (TDEE) from body stats and activity level.
+ * Missing values fall back to an average adult.
+ */
+export function calculateMaintenanceCalories(data: TargetInputs): number {
+  const activityMultiplier = data.activityLevel
+    ? ACTIVITY_MULTIPLIERS[data.activityLevel]
+    : ACTIVITY_MULTIPLIERS.light;
+    
+  return Math.round(calculateBmr(data) * activityMultiplier);
+}
+
+/**
+ * The g/kg split recommended for a goal
+ */
+export function getDefaultMacroSplit(goal?: Goal | ''): MacroSplit {
+  switch (goal) {
+    case 'burn':
+      // Higher protein, moderate fat, lower carbs for fat loss
+      return { type: 'perKg', protein: 2.0, fat: 0.8, minCarbs: 50 };
+    case 'build':
+      // Higher protein and carbs, moderate fat for muscle gain
+      return { type: 'perKg', protein: 1.8, fat: 0.8, carbs: 4.5 };
+    default:
+      // Balanced macros for maintenance, with the recommended minimum carbs
+      return { type: 'perKg', protein: 1.6, fat: 1.0, minCarbs: 130 };
+  }
+}
+
+/**
+ * Check a macro split. Returns an error message, or null when it is usable.
+ */
+export function validateMacroSplit(split: MacroSplit): string | null {
+  if (split.type === 'percent') {
+    const values = [split.protein, split.carbs, split.fat];
+    
+    if (values.some(value => !(value >= 0))) {
+      return 'Macro percentages cannot be negative';
+    }
+    
+    if (Math.round(values.reduce((sum, value) => sum + value, 0)) !== 100) {
+      return 'Macro percentages must add up to 100%';
+    }
+    
+    return null;
+  }
+  
+  if (!(split.protein > 0) || !(split.fat > 0)) {
+    return 'Protein and fat must be greater than zero';
+  }
+  
+  if (split.carbs !== undefined && !(split.carbs >= 0)) {
+    return 'Carbs cannot be negative';
+  }
+  
+  return null;
+}
+
+/**
+ * Split a calorie target into gram targets for each macro
+ */
+export function calculateMacroTargets(
+  calorieTarget: number,
+  weight: number,
+  split: MacroSplit
+): Omit<NutritionTargets, 'calorieTarget'> {
+  if (split.type === 'percent') {
+    const total = split.protein + split.carbs + split.fat || 1;
+    
+    return {
+      proteinTarget: Math.round(calorieTarget * (split.protein / total) / KCAL_PER_GRAM.protein),
+      carbTarget: Math.round(calorieTarget * (split.carbs / total) / KCAL_PER_GRAM.carbs),
+      fatTarget: Math.round(calorieTarget * (split.fat / total) / KCAL_PER_GRAM.fat)
+    };
+  }
+  
+  const proteinTarget = Math.round(weight * split.protein);
+  const fatTarget = Math.round(weight * split.fat);
+  
+  if (split.carbs !== undefined) {
+    return {
+      proteinTarget,
+      carbTarget: Math.round(weight * split.carbs),
+      fatTarget
+    };
+  }
+  
+  // Remaining calories from carbs
+  const proteinCalories = weight * split.protein * KCAL_PER_GRAM.protein;
+  const fatCalories = weight * split.fat * KCAL_PER_GRAM.fat;
+  const carbCalories = calorieTarget - proteinCalories - fatCalories;
+  
+  return {
+    proteinTarget,
+    carbTarget: Math.max(Math.round(carbCalories / KCAL_PER_GRAM.carbs), split.minCarbs || 0),
+    fatTarget
+  };
+}
+
+/**
+ * Calculate nutrition targets based on body stats, activity and goal.
+ * Pass maintenanceCalories to use a measured expenditure (e.g. from the
+ * adaptive estimate) instead of the formula.
+ */
+export function calculateNutritionTargets(data: TargetInputs, maintenanceCalories?: number): NutritionTargets {
+  const maintenance = maintenanceCalories || calculateMaintenanceCalories(data);
+  const goalFactor = data.goal ? GOAL_CALORIE_FACTORS[data.goal] : 1;
+  const calorieTarget = Math.round(maintenance * goalFactor);
+  
+  // An invalid saved split shouldn't produce nonsense targets
+  const split = data.macroSplit && !validateMacroSplit(data.macroSplit)
+    ? data.macroSplit
+    : getDefaultMacroSplit(data.goal);
+    
+  return {
+    calorieTarget,
+    ...calculateMacroTargets(calorieTarget, data.weight || DEFAULT_WEIGHT, split)
+  };
+}
+
+/**
+ * The targets to use for a user. Targets saved on the profile win; any that
+ * are missing are calculated from the profile's body stats, or taken from
+ * DEFAULT_TARGETS when there are none.
+ */
+export function getEffectiveTargets(profile: TargetProfile | null | undefined): NutritionTargets {
+  if (!profile) {
+    return DEFAULT_TARGETS;
+  }
+  
+  const calculated = profile.weight
+    ? calculateNutritionTargets(profile, profile.estimatedMaintenance)
+    : DEFAULT_TARGETS;
+    
+  return {
+    calorieTarget: profile.calorieTarget || calculated.calorieTarget,
+    proteinTarget: profile.proteinTarget || calculated.proteinTarget,
+    carbTarget: profile.carbTarget || calculated.carbTarget,
+    fatTarget: profile.fatTarget || calculated.fatTarget
+  };
+}
+
+/**
+ * Whether a day is a training or rest day, or null without a schedule
+ */
+export function getDayType(profile: TargetProfile | null | undefined, logDay: LogDay): DayType | null {
+  const schedule = profile?.targetSchedule;
+  
+  if (!schedule) {
+    return null;
+  }
+  
+  return schedule.trainingDays.includes(logDayToDate(logDay).getDay()) ? 'training' : 'rest';
+}
+
+/**
+ * The override set for a day, if any
+ */
+export function getTargetOverride(profile: TargetProfile | null | undefined, logDay: LogDay): TargetOverride | null {
+  return profile?.targetOverrides?.find(override => override.logDay === logDay) || null;
+}
+
+/**
+ * A short description of where a day's targets come from, or null when
+ * they are the usual ones
+ */
+export function getDayTargetsLabel(profile: TargetProfile | null | undefined, logDay: LogDay): string | null {
+  if (getTargetOverride(profile, logDay)) {
+    return 'Custom targets';
+  }
+  
+  const dayType = getDayType(profile, logDay);
+  
+  if (dayType) {
+    return dayType === 'training' ? 'Training day' : 'Rest day';
+  }
+  
+  return null;
+}
+
+/**
+ * The overrides with a day's targets set, or cleared when targets is null.
+ * Overrides for days long past are dropped along the way.
+ */
+export function setTargetOverride(
+  overrides: TargetOverride[] | undefined,
+  logDay: LogDay,
+  targets: NutritionTargets | null,
+  today: LogDay
+): TargetOverride[] {
+  const oldest = addLogDays(today, -OVERRIDE_RETENTION_DAYS);
+  const kept = (overrides || []).filter(override => override.logDay !== logDay && override.logDay >= oldest);
+  
+  return targets ? [...kept, { ...targets, logDay }] : kept;
+}
+
+/**
+ * The targets for one day: an override set for the day, or else the
+ * effective targets adjusted for the day's type in the schedule
+ */
+export function getTargetsForDay(profile: TargetProfile | null | undefined, logDay: LogDay): NutritionTargets {
+  const override = getTargetOverride(profile, logDay);
+  
+  if (override) {
+    const { logDay: _, ...targets } = override;
+    return targets;
+  }
+  
+  const targets = getEffectiveTargets(profile);
+  const dayType = getDayType(profile, logDay);
+  
+  if (!dayType || !profile?.targetSchedule) {
+    return targets;
+  }
+  
+  const adjustment = profile.targetSchedule[dayType];
+  
+  return {
+    calorieTarget: Math.max(targets.calorieTarget + adjustment.calories, 0),
+    proteinTarget: Math.max(targets.proteinTarget + adjustment.protein, 0),
+    carbTarget: Math.max(targets.carbTarget + adjustment.carbs, 0),
+    fatTarget: Math.max(targets.fatTarget + adjustment.fat, 0)
+  };
+}
+
+function isValidBodyFat(bodyFat: number | undefined): boolean {
+  return bodyFat !== undefined && bodyFat > 0 && bodyFat < 100;
+}
@@ -0,0 +1,46 @@
+import { QUICK_ADD_FOOD_ID, caloriesFromMacros, checkQuickAddEntry, isQuickAddItem } from './quickAdd';
+
+describe('caloriesFromMacros', () => {
+  it('uses 4 kcal per gram of protein and carbs and 9 per gram of fat', () => {
+    expect(caloriesFromMacros({ protein: 10, carbs: 20, fat: 5 })).toBe(165);
+  });
+  
+  it('treats missing macros as zero', () => {
+    expect(caloriesFromMacros({ protein: 40 })).toBe(160);
+  });
+});
+
+describe('checkQuickAddEntry', () => {
+  it('requires calories', () => {
+    expect(checkQuickAddEntry({ calories: 0, protein: 10 })).toBe('Enter the calories');
+  });
+  
+  it('accepts calories with only some macros known', () => {
+    expect(checkQuickAddEntry({ calories: 600, protein: 40 })).toBeNull();
+    expect(checkQuickAddEntry({ calories: 250 })).toBeNull();
+  });
+  
+  it('accepts macros that roughly match the calories', () => {
+    // 40 * 4 + 60 * 4 + 20 * 9 = 580
+    expect(checkQuickAddEntry({ calories: 600, protein: 40, carbs: 60, fat: 20 })).toBeNull();
+  });
+  
+  it('rejects macros that add up to more than the calories', () => {
+    expect(checkQuickAddEntry({ calories: 300, protein: 40, fat: 30 })).toMatch(/more than the 300 kcal/);
+  });
+  
+  it('rejects a full set of macros that falls well short of the calories', () => {
+    expect(checkQuickAddEntry({ calories: 600, protein: 10, carbs: 20, fat: 5 })).toMatch(/less than the 600 kcal/);
+  });
+  
+  it('rejects negative macros', () => {
+    expect(checkQuickAddEntry({ calories: 200, carbs: -5 })).toBe('Macros can\'t be negative');
+  });
+});
+
+describe('isQuickAddItem', () => {
+  it('recognizes quick-add entries', () => {
+    expect(isQuickAddItem({ foodId: QUICK_ADD_FOOD_ID, quickAdd: true })).toBe(true);
+    expect(isQuickAddItem({ foodId: 'white-rice' })).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Quick-add entries log calories and macros without a food, e.g. "about
+ * 600 kcal, 40 g protein" from a restaurant menu. They're food items with
+ * quickAdd set and QUICK_ADD_FOOD_ID in place of a `foods` document id.
+ */
+
+export const QUICK_ADD_FOOD_ID = 'quick-add';
+export const QUICK_ADD_NAME = 'Quick Add';
+
+// Macros left out are unknown rather than zero
+export interface QuickAddEntry {
+  label?: string;
+  calories: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+}
+
+// Atwater factors: calories per gram of each macro (the 4/4/9 rule)
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+// How far calories may stray from the macros' estimate: menus round, and
+// fiber and alcohol don't follow the 4/4/9 rule
+const CALORIE_TOLERANCE = 0.15;
+const MIN_CALORIE_SLACK = 20;
+
+export function caloriesFromMacros({ protein = 0, carbs = 0, fat = 0 }: Pick<QuickAddEntry, 'protein' | 'carbs' | 'fat'>): number {
+  return Math.round(
+    protein * CALORIES_PER_GRAM.protein +
+    carbs * CALORIES_PER_GRAM.carbs +
+    fat * CALORIES_PER_GRAM.fat
+  );
+}
+
+/**
+ * Check that an entry's macros roughly agree with its calories. Macros
+ * left out count as unknown, so they may add up to less than the calories;
+ * when all three are given they have to account for them. Returns a
+ * message describing the problem, or null when the entry is fine.
+ */
+export function checkQuickAddEntry(entry: QuickAddEntry): string | null {
+  const { calories, protein, carbs, fat } = entry;
+  const macros = [protein, carbs, fat];
+  
+  if (!(calories > 0)) {
+    return 'Enter the calories';
+  }
+  
+  if (macros.some(value => value !== undefined && !(value >= 0))) {
+    return 'Macros can\'t be negative';
+  }
+  
+  const estimate = caloriesFromMacros(entry);
+  const slack = Math.max(calories * CALORIE_TOLERANCE, MIN_CALORIE_SLACK);
+  
+  if (estimate > calories + slack) {
+    return `Those macros add up to about ${estimate} kcal, more than the ${calories} kcal entered`;
+  }
+  
+  if (macros.every(value => value !== undefined) && estimate < calories - slack) {
+    return `Those macros only add up to about ${estimate} kcal, less than the ${calories} kcal entered`;
+  }
+  
+  return null;
+}
+
+export function isQuickAddItem(item: { foodId: string; quickAdd?: boolean }): boolean {
+  return item.quickAdd === true || item.foodId === QUICK_ADD_FOOD_ID;
+}
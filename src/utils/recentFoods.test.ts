@@ -0,0 +1,67 @@
+import {
+  LoggedItem,
+  MAX_FAVORITE_FOODS,
+  getFrequentFoods,
+  getUsualMealType,
+  summarizeLoggedFoods,
+  toggleFavoriteFood
+} from './recentFoods';
+
+const item = (foodId: string, day: number): LoggedItem => ({
+  foodId,
+  name: foodId,
+  servingSize: '1 serving',
+  servingSizeUnit: 'serving',
+  servingQty: 1,
+  calories: 100,
+  protein: 5,
+  carbs: 10,
+  fat: 2,
+  addedAt: new Date(2026, 0, day)
+});
+
+const meals = [
+  { mealType: 'breakfast', foodItems: [item('oats', 1), item('coffee', 1)] },
+  { mealType: 'breakfast', foodItems: [item('oats', 2)] },
+  { mealType: 'dinner', foodItems: [item('salmon', 2), item('coffee', 3)] },
+  { mealType: 'snacks', foodItems: [item('coffee', 4)] }
+];
+
+describe('summarizeLoggedFoods', () => {
+  it('groups items by food, most recent first', () => {
+    const foods = summarizeLoggedFoods(meals);
+    
+    expect(foods.map(food => food.foodId)).toEqual(['coffee', 'oats', 'salmon']);
+    expect(foods[0].count).toBe(3);
+    expect(foods[0].latest.addedAt).toEqual(new Date(2026, 0, 4));
+  });
+});
+
+describe('getFrequentFoods', () => {
+  it('ranks foods by how often they are logged at a meal', () => {
+    const foods = summarizeLoggedFoods(meals);
+    
+    expect(getFrequentFoods(foods, 'breakfast').map(food => food.foodId)).toEqual(['oats', 'coffee']);
+    expect(getFrequentFoods(foods, 'lunch')).toEqual([]);
+    expect(getUsualMealType(foods[1])).toBe('breakfast');
+  });
+});
+
+describe('toggleFavoriteFood', () => {
+  const favorite = (foodId: string) => ({ foodId, name: foodId, calories: 100, servingSizeUnit: 'g' });
+  
+  it('stars and unstars foods', () => {
+    const favorites = toggleFavoriteFood(undefined, favorite('oats'));
+    
+    expect(toggleFavoriteFood(favorites, favorite('salmon')).map(f => f.foodId)).toEqual(['salmon', 'oats']);
+    expect(toggleFavoriteFood(favorites, favorite('oats'))).toEqual([]);
+  });
+  
+  it('keeps the newest favorites past the limit', () => {
+    const favorites = Array.from({ length: MAX_FAVORITE_FOODS }, (_, i) => favorite(`food-${i}`));
+    const updated = toggleFavoriteFood(favorites, favorite('new'));
+    
+    expect(updated).toHaveLength(MAX_FAVORITE_FOODS);
+    expect(updated[0].foodId).toBe('new');
+  });
+});
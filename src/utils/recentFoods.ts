@@ -0,0 +1,101 @@
+/**
+ * Recent, frequent and favorite foods for picking a food without searching.
+ * Recent and frequent foods come from the food items in the user's meals,
+ * grouped by foodId; favorites are saved on the user's profile.
+ */
+
+// The parts of a logged food item needed here
+export interface LoggedItem {
+  foodId: string;
+  name: string;
+  servingSize: string;
+  servingSizeUnit: string;
+  servingQty: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  quickAdd?: boolean;
+  addedAt: Date;
+}
+
+export interface LoggedFood<T extends LoggedItem = LoggedItem> {
+  foodId: string;
+  latest: T; // the most recently logged item
+  count: number;
+  mealTypes: Record<string, number>; // times logged at each meal
+}
+
+export interface FavoriteFood {
+  foodId: string;
+  name: string;
+  brand?: string;
+  calories: number; // per serving
+  servingSizeUnit: string;
+}
+
+export const MAX_FAVORITE_FOODS = 50;
+
+/**
+ * Group the items in meals by food, most recently logged first
+ */
+export function summarizeLoggedFoods<T extends LoggedItem>(
+  meals: Array<{ mealType: string; foodItems: T[] }>
+): LoggedFood<T>[] {
+  const foods: Record<string, LoggedFood<T>> = {};
+  
+  meals.forEach(({ mealType, foodItems }) => {
+    foodItems.forEach(item => {
+      // Quick-add entries aren't a food that could be picked again
+      if (item.quickAdd) return;
+      
+      const food = foods[item.foodId] || { foodId: item.foodId, latest: item, count: 0, mealTypes: {} };
+      
+      food.count++;
+      food.mealTypes[mealType] = (food.mealTypes[mealType] || 0) + 1;
+      
+      if (item.addedAt > food.latest.addedAt) {
+        food.latest = item;
+      }
+      
+      foods[item.foodId] = food;
+    });
+  });
+  
+  return Object.values(foods).sort((a, b) => b.latest.addedAt.getTime() - a.latest.addedAt.getTime());
+}
+
+/**
+ * The foods logged most often at a meal, ties going to the most recent
+ */
+export function getFrequentFoods<T extends LoggedItem>(foods: LoggedFood<T>[], mealType: string, limit = 5): LoggedFood<T>[] {
+  return foods
+    .filter(food => food.mealTypes[mealType] > 0)
+    .sort((a, b) => b.mealTypes[mealType] - a.mealTypes[mealType])
+    .slice(0, limit);
+}
+
+/**
+ * The meal a food is most often logged at
+ */
+export function getUsualMealType(food: LoggedFood): string {
+  return Object.keys(food.mealTypes).sort((a, b) => food.mealTypes[b] - food.mealTypes[a])[0];
+}
+
+export function isFavoriteFood(favorites: FavoriteFood[] | undefined, foodId: string): boolean {
+  return (favorites || []).some(favorite => favorite.foodId === foodId);
+}
+
+/**
+ * Star or unstar a food. New favorites go first, and the oldest drop off
+ * past the limit.
+ */
+export function toggleFavoriteFood(favorites: FavoriteFood[] | undefined, food: FavoriteFood): FavoriteFood[] {
+  const current = favorites || [];
+  
+  if (isFavoriteFood(current, food.foodId)) {
+    return current.filter(favorite => favorite.foodId !== food.foodId);
+  }
+  
+  return [food, ...current].slice(0, MAX_FAVORITE_FOODS);
+}
@@ -0,0 +1,57 @@
+import type { RecipeIngredient } from '../stores/recipeStore';
+import { calculatePerServing } from './recipeNutrition';
+
+const ingredient = (overrides: Partial<RecipeIngredient> = {}): RecipeIngredient => ({
+  foodId: 'oats',
+  name: 'Oats',
+  servingSize: 40,
+  servingSizeUnit: 'g',
+  quantity: 1,
+  calories: 150,
+  protein: 5,
+  carbs: 27,
+  fat: 3,
+  ...overrides
+});
+
+describe('calculatePerServing', () => {
+  it('adds up ingredients by quantity and divides by the servings', () => {
+    const perServing = calculatePerServing([
+      ingredient({ quantity: 2, fiber: 4 }),
+      ingredient({ foodId: 'milk', name: 'Milk', quantity: 1.5, calories: 100, protein: 8, carbs: 12, fat: 2.5, sugar: 12, sodium: 100 })
+    ], 2);
+    
+    expect(perServing).toEqual({
+      calories: 225,
+      protein: 11,
+      carbs: 36,
+      fat: 4.9,
+      fiber: 4,
+      sugar: 9,
+      sodium: 75,
+      nutrients: {}
+    });
+  });
+  
+  it('rounds calories and sodium to whole numbers and the rest to one decimal', () => {
+    const perServing = calculatePerServing([ingredient({ calories: 100, protein: 10, sodium: 50 })], 3);
+    
+    expect(perServing.calories).toBe(33);
+    expect(perServing.protein).toBe(3.3);
+    expect(perServing.carbs).toBe(9);
+    expect(perServing.sodium).toBe(17);
+  });
+  
+  it('scales other nutrients the same way', () => {
+    const perServing = calculatePerServing([
+      ingredient({ quantity: 2, nutrients: { iron: 1.5 } }),
+      ingredient({ foodId: 'spinach', nutrients: { iron: 3, vitaminA: 470 } })
+    ], 4);
+    
+    expect(perServing.nutrients).toEqual({ iron: 1.5, vitaminA: 117.5 });
+  });
+  
+  it('treats a recipe without servings as a single serving', () => {
+    expect(calculatePerServing([ingredient()], 0).calories).toBe(150);
+  });
+});
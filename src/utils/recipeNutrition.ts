@@ -0,0 +1,44 @@
+import type { RecipeIngredient, RecipeNutrition } from '../stores/recipeStore';
+import { scaleNutrients, sumNutrients } from './nutrients';
+
+/**
+ * Calculate the nutrition of one recipe serving from its ingredients
+ */
+export function calculatePerServing(ingredients: RecipeIngredient[], servings: number): RecipeNutrition {
+  const totals: RecipeNutrition = {
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    fiber: 0,
+    sugar: 0,
+    sodium: 0
+  };
+  
+  ingredients.forEach(ingredient => {
+    totals.calories += ingredient.calories * ingredient.quantity;
+    totals.protein += ingredient.protein * ingredient.quantity;
+    totals.carbs += ingredient.carbs * ingredient.quantity;
+    totals.fat += ingredient.fat * ingredient.quantity;
+    totals.fiber += (ingredient.fiber || 0) * ingredient.quantity;
+    totals.sugar += (ingredient.sugar || 0) * ingredient.quantity;
+    totals.sodium += (ingredient.sodium || 0) * ingredient.quantity;
+  });
+  
+  const divisor = servings > 0 ? servings : 1;
+  
+  // Calories and sodium are whole numbers, everything else 1 decimal place
+  return {
+    calories: Math.round(totals.calories / divisor),
+    protein: Math.round((totals.protein / divisor) * 10) / 10,
+    carbs: Math.round((totals.carbs / divisor) * 10) / 10,
+    fat: Math.round((totals.fat / divisor) * 10) / 10,
+    fiber: Math.round((totals.fiber / divisor) * 10) / 10,
+    sugar: Math.round((totals.sugar / divisor) * 10) / 10,
+    sodium: Math.round(totals.sodium / divisor),
+    nutrients: scaleNutrients(
+      sumNutrients(ingredients.map(ingredient => scaleNutrients(ingredient.nutrients, ingredient.quantity))),
+      1 / divisor
+    )
+  };
+}
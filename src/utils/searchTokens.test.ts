@@ -0,0 +1,39 @@
+import { generateSearchTokens, getSearchQueryTokens, getTypoQueryTokens, normalizeSearchText } from './searchTokens';
+
+describe('normalizeSearchText', () => {
+  it('drops accents and punctuation', () => {
+    expect(normalizeSearchText("  Crème Brûlée (Trader Joe's) ")).toBe('creme brulee trader joes');
+  });
+});
+
+describe('generateSearchTokens', () => {
+  it('adds every prefix of the name and brand words', () => {
+    const tokens = generateSearchTokens('Chicken Breast', 'Tyson');
+    
+    expect(tokens[0]).toBe('chicken breast');
+    expect(tokens).toEqual(expect.arrayContaining(['ch', 'chick', 'chicken', 'br', 'breast', 'ty', 'tyson']));
+    expect(tokens).not.toContain('c');
+  });
+  
+  it('caps prefixes of long words', () => {
+    const tokens = generateSearchTokens('Supercalifragilistic');
+    
+    expect(tokens).toContain('supercalifragil');
+    expect(tokens).not.toContain('supercalifragili');
+  });
+});
+
+describe('getSearchQueryTokens', () => {
+  it('looks up each word as typed', () => {
+    expect(getSearchQueryTokens('Chiken brest')).toEqual(['chiken', 'brest']);
+    expect(getSearchQueryTokens('eg')).toEqual(['eg']);
+    expect(getSearchQueryTokens('!')).toEqual([]);
+  });
+});
+
+describe('getTypoQueryTokens', () => {
+  it('looks up the first letters of longer words', () => {
+    expect(getTypoQueryTokens('Chiken brest')).toEqual(['chi', 'bre']);
+    expect(getTypoQueryTokens('egg')).toEqual([]);
+  });
+});
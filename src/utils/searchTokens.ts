@@ -0,0 +1,99 @@
+/**
+ * Search tokens stored on `foods` documents as nameSearchTokens. Firestore
+ * can only match whole array entries, so every word is stored with all of
+ * its prefixes: "chick" then finds "Chicken Breast".
+ *
+ * The Cloud Functions backfill script shares this file, so keep it free of
+ * app imports.
+ */
+
+export const MIN_PREFIX_LENGTH = 2;
+
+// Longer words are stored and queried by their first MAX_PREFIX_LENGTH letters
+export const MAX_PREFIX_LENGTH = 15;
+
+// Searches that find too few foods by the words typed fall back to words
+// starting with this many letters of each term, so a typo later in a word
+// still brings back candidates to re-rank
+export const TYPO_PREFIX_LENGTH = 3;
+
+// Firestore's limit on values in an array-contains-any query
+const MAX_QUERY_TOKENS = 30;
+
+/**
+ * Lowercase text and strip accents and punctuation, leaving words
+ * separated by single spaces
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function getSearchWords(text: string): string[] {
+  const normalizedText = normalizeSearchText(text);
+  return normalizedText ? normalizedText.split(' ') : [];
+}
+
+/**
+ * Tokens for a food: the whole normalized name, plus every prefix of each
+ * word in the name and brand
+ */
+export function generateSearchTokens(name: string, brand?: string): string[] {
+  const tokens = new Set<string>();
+  const normalizedName = normalizeSearchText(name);
+  
+  if (normalizedName) {
+    tokens.add(normalizedName);
+  }
+  
+  [...getSearchWords(name), ...getSearchWords(brand || '')].forEach(word => {
+    const longest = Math.min(word.length, MAX_PREFIX_LENGTH);
+    
+    for (let length = MIN_PREFIX_LENGTH; length <= longest; length++) {
+      tokens.add(word.slice(0, length));
+    }
+  });
+  
+  return Array.from(tokens);
+}
+
+/**
+ * Tokens to look up for a search term with array-contains-any: each word
+ * as typed
+ */
+export function getSearchQueryTokens(searchTerm: string): string[] {
+  const tokens = new Set<string>();
+  
+  getQueryWords(searchTerm).forEach(word => {
+    tokens.add(word.slice(0, MAX_PREFIX_LENGTH));
+  });
+  
+  return Array.from(tokens).slice(0, MAX_QUERY_TOKENS);
+}
+
+/**
+ * Tokens to look up when the words as typed find too few foods: the first
+ * few letters of each word, to catch typos. Short words have none, since
+ * they're looked up whole already.
+ */
+export function getTypoQueryTokens(searchTerm: string): string[] {
+  const tokens = new Set<string>();
+  
+  getQueryWords(searchTerm)
+    .filter(word => word.length > TYPO_PREFIX_LENGTH)
+    .forEach(word => {
+      tokens.add(word.slice(0, TYPO_PREFIX_LENGTH));
+    });
+  
+  return Array.from(tokens).slice(0, MAX_QUERY_TOKENS);
+}
+
+// Words of a search term long enough to have been stored as tokens
+function getQueryWords(searchTerm: string): string[] {
+  return getSearchWords(searchTerm).filter(word => word.length >= MIN_PREFIX_LENGTH);
+}
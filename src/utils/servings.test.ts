@@ -0,0 +1,52 @@
+import { cleanServingName, convertAmount, getMeasureKind, getServingOptions } from './servings';
+
+describe('convertAmount', () => {
+  it('converts between units of the same kind', () => {
+    expect(convertAmount(1, 'oz', 'g')).toBeCloseTo(28.35, 2);
+    expect(convertAmount(8, 'fl oz', 'ml')).toBeCloseTo(236.6, 1);
+    expect(convertAmount(1, 'cup', 'ml')).toBe(240);
+  });
+  
+  it("doesn't convert weights to volumes or pieces", () => {
+    expect(convertAmount(100, 'g', 'ml')).toBeNull();
+    expect(convertAmount(1, 'piece', 'g')).toBeNull();
+    expect(getMeasureKind('piece')).toBeNull();
+  });
+});
+
+describe('getServingOptions', () => {
+  const bread = {
+    servingSize: 100,
+    servingSizeUnit: 'g',
+    servings: [
+      { name: 'slice', amount: 28, unit: 'g' },
+      { name: 'cup', amount: 240, unit: 'ml' }
+    ]
+  };
+  
+  it('lists the base serving, convertible servings and weights', () => {
+    const options = getServingOptions(bread);
+    
+    expect(options.map(option => option.id)).toEqual(['serving', 'serving:slice', 'g', 'oz']);
+    expect(options.map(option => option.name)).toEqual(['serving', 'slice', 'g', 'oz']);
+    expect(options[1].servings).toBeCloseTo(0.28);
+  });
+  
+  it('scales 137 g of a 100 g serving by 1.37', () => {
+    const grams = getServingOptions(bread).find(option => option.id === 'g');
+    
+    expect(137 * (grams?.servings ?? 0)).toBeCloseTo(1.37);
+  });
+  
+  it('only offers the base serving for foods counted in pieces', () => {
+    expect(getServingOptions({ servingSize: 1, servingSizeUnit: 'piece', servings: bread.servings })).toHaveLength(1);
+  });
+});
+
+describe('cleanServingName', () => {
+  it('keeps the household measure from a label', () => {
+    expect(cleanServingName('1 slice (28 g)')).toBe('slice');
+    expect(cleanServingName('2 cookies (30g)')).toBe('2 cookies');
+    expect(cleanServingName('30 g')).toBe('');
+  });
+});
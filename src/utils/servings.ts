@@ -0,0 +1,145 @@
+/**
+ * Serving sizes and unit conversions. A food's nutrition is given for one
+ * base serving (servingSize of servingSizeUnit, e.g. 100 g). Other servings
+ * ("1 slice = 28 g") and plain weights or volumes are converted into a
+ * number of base servings, which is what nutrition is scaled by.
+ */
+
+// Another way to measure a food: { name: 'slice', amount: 28, unit: 'g' }
+// is "1 slice = 28 g"
+export interface FoodServing {
+  name: string;
+  amount: number;
+  unit: string;
+}
+
+// The parts of a food needed to list its servings
+export interface ServingFood {
+  servingSize: number;
+  servingSizeUnit: string;
+  servings?: FoodServing[];
+}
+
+export type MeasureKind = 'mass' | 'volume';
+
+// A way to enter an amount of a food in FoodDetail
+export interface ServingOption {
+  id: string;
+  name: string; // logged as e.g. "2 slice" or "137 g"
+  label: string;
+  servings: number; // base servings in one of this
+  step: number; // stepper increment
+}
+
+export const BASE_SERVING_ID = 'serving';
+
+// Amounts of the base serving are logged as e.g. "1.5 serving", never in the
+// base unit: "1 g" would read as a gram rather than one 100 g serving
+export const BASE_SERVING_NAME = 'serving';
+
+// Most extra servings a food can carry (also enforced by security rules)
+export const MAX_FOOD_SERVINGS = 20;
+
+// Size of each unit in grams or milliliters. Volumes use US measures.
+const UNITS: Record<string, { kind: MeasureKind; size: number }> = {
+  g: { kind: 'mass', size: 1 },
+  kg: { kind: 'mass', size: 1000 },
+  oz: { kind: 'mass', size: 28.3495 },
+  lb: { kind: 'mass', size: 453.592 },
+  ml: { kind: 'volume', size: 1 },
+  l: { kind: 'volume', size: 1000 },
+  'fl oz': { kind: 'volume', size: 29.5735 },
+  tsp: { kind: 'volume', size: 4.92892 },
+  tbsp: { kind: 'volume', size: 14.7868 },
+  cup: { kind: 'volume', size: 240 }
+};
+
+// Units offered for logging by weight or volume, with their stepper increments
+const MEASURE_UNITS: Record<MeasureKind, Array<{ unit: string; step: number }>> = {
+  mass: [{ unit: 'g', step: 10 }, { unit: 'oz', step: 1 }],
+  volume: [{ unit: 'ml', step: 10 }, { unit: 'fl oz', step: 1 }]
+};
+
+export function getMeasureKind(unit: string): MeasureKind | null {
+  return UNITS[unit.toLowerCase()]?.kind || null;
+}
+
+/**
+ * Convert an amount between units of the same kind. Returns null for
+ * units that can't be converted, like grams to milliliters or pieces.
+ */
+export function convertAmount(amount: number, fromUnit: string, toUnit: string): number | null {
+  const from = UNITS[fromUnit.toLowerCase()];
+  const to = UNITS[toUnit.toLowerCase()];
+  
+  if (!from || !to || from.kind !== to.kind) {
+    return null;
+  }
+  
+  return amount * from.size / to.size;
+}
+
+/**
+ * The ways an amount of a food can be entered: its base serving, each of
+ * its other servings that converts to the base unit, and grams and ounces
+ * (or milliliters and fluid ounces) when the base unit is a weight (or a
+ * volume)
+ */
+export function getServingOptions(food: ServingFood): ServingOption[] {
+  const options: ServingOption[] = [{
+    id: BASE_SERVING_ID,
+    name: BASE_SERVING_NAME,
+    label: `serving (${food.servingSize} ${food.servingSizeUnit})`,
+    servings: 1,
+    step: 0.5
+  }];
+  
+  if (!(food.servingSize > 0)) {
+    return options;
+  }
+  
+  (food.servings || []).forEach(serving => {
+    const size = convertAmount(serving.amount, serving.unit, food.servingSizeUnit);
+    
+    if (size === null || size <= 0) return;
+    
+    options.push({
+      id: `${BASE_SERVING_ID}:${serving.name}`,
+      name: serving.name,
+      label: `${serving.name} (${serving.amount} ${serving.unit})`,
+      servings: size / food.servingSize,
+      step: 0.5
+    });
+  });
+  
+  const kind = getMeasureKind(food.servingSizeUnit);
+  
+  if (kind) {
+    MEASURE_UNITS[kind].forEach(({ unit, step }) => {
+      options.push({
+        id: unit,
+        name: unit,
+        label: unit,
+        servings: (convertAmount(1, unit, food.servingSizeUnit) as number) / food.servingSize,
+        step
+      });
+    });
+  }
+  
+  return options;
+}
+
+/**
+ * Tidy a serving description from a food database into a serving name:
+ * "1 slice (28 g)" becomes "slice". Returns '' when nothing but an amount
+ * is left, as in "30 g".
+ */
+export function cleanServingName(text: string): string {
+  const name = text
+    .replace(/\(.*?\)/g, '')
+    .replace(/^1\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+    
+  return /^[\d.,]*\s*(g|ml)?$/i.test(name) ? '' : name;
+}
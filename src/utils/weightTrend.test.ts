@@ -0,0 +1,37 @@
+import { calculateWeightTrend } from './weightTrend';
+
+const weighIn = (day: number, weight: number, hour = 7) => ({ date: new Date(2026, 0, day, hour), weight });
+
+describe('calculateWeightTrend', () => {
+  it('starts the trend at the first weigh-in', () => {
+    expect(calculateWeightTrend([weighIn(1, 80.4)])).toEqual([
+      { date: new Date(2026, 0, 1, 7), weight: 80.4, trend: 80.4 }
+    ]);
+    expect(calculateWeightTrend([])).toEqual([]);
+  });
+  
+  it('moves a tenth of the way towards each daily weigh-in', () => {
+    const trend = calculateWeightTrend([weighIn(1, 80), weighIn(2, 81), weighIn(3, 81)]);
+    
+    expect(trend.map(point => point.trend)).toEqual([80, 80.1, 80.19]);
+  });
+  
+  it('smooths weigh-ins on the same day like a day apart', () => {
+    const trend = calculateWeightTrend([weighIn(1, 80), weighIn(1, 81, 21)]);
+    
+    expect(trend[1].trend).toBe(80.1);
+  });
+  
+  it('counts a gap between weigh-ins as several days of smoothing', () => {
+    // 1 - 0.9^7 of the way from 80 to 82
+    const trend = calculateWeightTrend([weighIn(1, 80), weighIn(8, 82)]);
+    
+    expect(trend[1].trend).toBe(81.04);
+  });
+  
+  it('keeps the weigh-ins as they were', () => {
+    const trend = calculateWeightTrend([weighIn(1, 80), weighIn(4, 79.2)]);
+    
+    expect(trend.map(point => point.weight)).toEqual([80, 79.2]);
+  });
+});
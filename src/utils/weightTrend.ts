@@ -0,0 +1,44 @@
+/**
+ * Weight trend from weigh-ins, smoothing out daily fluctuations
+ */
+
+export interface WeightTrendPoint {
+  date: Date;
+  weight: number;
+  trend: number;
+}
+
+// Share of each new weigh-in in the trend for one day of change
+const TREND_SMOOTHING = 0.1;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Exponentially smoothed weight trend. Day-to-day swings from water and food
+ * volume are damped, so the trend shows the real direction of change.
+ * Gaps between weigh-ins count as several days of smoothing.
+ * Expects weigh-ins sorted by date.
+ */
+export function calculateWeightTrend(weighIns: Array<{ date: Date; weight: number }>): WeightTrendPoint[] {
+  const points: WeightTrendPoint[] = [];
+  
+  weighIns.forEach((weighIn, index) => {
+    if (index === 0) {
+      points.push({ date: weighIn.date, weight: weighIn.weight, trend: weighIn.weight });
+      return;
+    }
+    
+    const previous = points[index - 1];
+    const days = Math.max((weighIn.date.getTime() - previous.date.getTime()) / MS_PER_DAY, 0);
+    const alpha = 1 - Math.pow(1 - TREND_SMOOTHING, Math.max(days, 1));
+    const trend = previous.trend + alpha * (weighIn.weight - previous.trend);
+    
+    points.push({
+      date: weighIn.date,
+      weight: weighIn.weight,
+      trend: Math.round(trend * 100) / 100
+    });
+  });
+  
+  return points;
+}